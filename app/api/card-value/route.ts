@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCreditCards, resolveCardIds } from '@/lib/data';
+import { extractMonthlySpend, MAX_POINT_VALUE_CENTS, rankCardsByValue, SPEND_CATEGORIES } from '@/lib/rewardsValue';
+import { MonthlySpend } from '@/types';
+
+/**
+ * Estimates each card's first-year and ongoing net value for a spending profile, best value first
+ * Body: { monthlySpend?: { groceries: 500, ... }, message?: string, cardIds?: string[], pointValueCents?: number }
+ * Either monthlySpend or a message describing spending ("$500 a month on groceries") is required
+ */
+export async function POST(request: NextRequest) {
+  let body: {
+    monthlySpend?: Record<string, unknown>;
+    message?: unknown;
+    cardIds?: unknown;
+    pointValueCents?: unknown;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  let monthlySpend: MonthlySpend | null = null;
+  if (body.monthlySpend && typeof body.monthlySpend === 'object') {
+    monthlySpend = {};
+    for (const [category, amount] of Object.entries(body.monthlySpend)) {
+      if (!SPEND_CATEGORIES.includes(category as typeof SPEND_CATEGORIES[number])) {
+        return NextResponse.json(
+          { error: `Unknown spend category "${category}". Use one of: ${SPEND_CATEGORIES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      if (typeof amount !== 'number' || !isFinite(amount) || amount < 0) {
+        return NextResponse.json({ error: `Spend for ${category} must be a non-negative number` }, { status: 400 });
+      }
+      monthlySpend[category as typeof SPEND_CATEGORIES[number]] = amount;
+    }
+  } else if (typeof body.message === 'string' && body.message.trim()) {
+    monthlySpend = extractMonthlySpend(body.message.trim());
+    if (!monthlySpend) {
+      return NextResponse.json({ error: 'No spending found in message' }, { status: 400 });
+    }
+  }
+
+  if (!monthlySpend) {
+    return NextResponse.json({ error: 'monthlySpend or message is required' }, { status: 400 });
+  }
+
+  if (body.cardIds !== undefined && (!Array.isArray(body.cardIds) || body.cardIds.some(id => typeof id !== 'string'))) {
+    return NextResponse.json({ error: 'cardIds must be an array of card ids' }, { status: 400 });
+  }
+
+  if (
+    body.pointValueCents !== undefined &&
+    (typeof body.pointValueCents !== 'number' ||
+      !Number.isFinite(body.pointValueCents) ||
+      body.pointValueCents <= 0 ||
+      body.pointValueCents > MAX_POINT_VALUE_CENTS)
+  ) {
+    return NextResponse.json({ error: `pointValueCents must be a number above 0 and at most ${MAX_POINT_VALUE_CENTS}` }, { status: 400 });
+  }
+
+  try {
+    const cardIds = body.cardIds ? await resolveCardIds(body.cardIds as string[]) : undefined;
+    const allCards = await getCreditCards();
+    const cards = cardIds ? allCards.filter(card => cardIds.includes(card.id)) : allCards;
+
+    const estimates = rankCardsByValue(cards, monthlySpend, body.pointValueCents as number | undefined);
+    return NextResponse.json({ monthlySpend, estimates });
+  } catch (error) {
+    console.error('Error estimating card value:', error);
+    return NextResponse.json(
+      { error: 'Failed to estimate card value', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
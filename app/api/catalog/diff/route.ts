@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffSnapshots } from '@/lib/snapshots';
+
+/**
+ * Returns cards added, removed and changed between two catalog versions
+ * Query params: from, to (version numbers; default to the previous and latest versions)
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const from = fromParam ? parseInt(fromParam, 10) : undefined;
+  const to = toParam ? parseInt(toParam, 10) : undefined;
+
+  if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+    return NextResponse.json(
+      { error: 'from and to must be snapshot version numbers' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(diffSnapshots(from, to));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = message.includes('not found') || message.includes('No catalog snapshots') ? 404 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { listSnapshots } from '@/lib/snapshots';
+
+/**
+ * Lists stored catalog versions with their content hashes
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ snapshots: listSnapshots() });
+  } catch (error) {
+    console.error('Error listing catalog snapshots:', error);
+    return NextResponse.json(
+      { error: 'Failed to list catalog snapshots', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
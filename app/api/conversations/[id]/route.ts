@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteOwnedConversation, getOwnedConversation, OWNER_COOKIE, toConversation } from '@/lib/conversations';
+
+/**
+ * Returns a conversation with every turn; only to its owner, anyone else gets a 404
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const conversation = await getOwnedConversation(params.id, request.cookies.get(OWNER_COOKIE)?.value);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    return NextResponse.json(toConversation(conversation));
+  } catch (error) {
+    console.error('Error loading conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to load conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Deletes a conversation; only its owner can
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const deleted = await deleteOwnedConversation(params.id, request.cookies.get(OWNER_COOKIE)?.value);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
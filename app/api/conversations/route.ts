@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createConversation, createOwnerToken, isOwnerToken, listOwnedConversations, OWNER_COOKIE, toConversation } from '@/lib/conversations';
+import { sanitizeProfile } from '@/lib/profile';
+
+/**
+ * Owner cookies outlive any one conversation; a year, renewed whenever a conversation is started
+ */
+const OWNER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+/**
+ * Lists the conversations owned by the browser's owner cookie, most recently updated first
+ * A browser without the cookie gets an empty list, never anyone else's conversations
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ conversations: await listOwnedConversations(request.cookies.get(OWNER_COOKIE)?.value) });
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversations', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Starts a conversation; the body may give a title and a starting profile
+ * Pass the returned id as conversationId to /api/recommendations
+ * The conversation is owned by the browser's owner cookie, which is set here when it has none
+ */
+export async function POST(request: NextRequest) {
+  let body: { title?: unknown; userProfile?: unknown } = {};
+  try {
+    const text = await request.text();
+    if (text.trim()) body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (body.title !== undefined && typeof body.title !== 'string') {
+    return NextResponse.json({ error: 'title must be a string' }, { status: 400 });
+  }
+
+  try {
+    const existingToken = request.cookies.get(OWNER_COOKIE)?.value;
+    const ownerToken = isOwnerToken(existingToken) ? existingToken : createOwnerToken();
+    const conversation = await createConversation(ownerToken, { title: body.title, userProfile: sanitizeProfile(body.userProfile) });
+
+    const response = NextResponse.json(toConversation(conversation), { status: 201 });
+    response.cookies.set(OWNER_COOKIE, ownerToken, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api',
+      maxAge: OWNER_COOKIE_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to create conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateRecommendations } from '@/lib/rag';
+import { generateRecommendations, MAX_RECOMMENDATION_COUNT } from '@/lib/rag';
+import { buildUserProfile, sanitizeProfile } from '@/lib/profile';
+import { getChatConfigError } from '@/lib/llm';
+import { validatePromptVariants } from '@/lib/prompts';
+import { conversationContext, getOwnedConversation, OWNER_COOKIE, recordConversationTurn } from '@/lib/conversations';
 import { RecommendationsRequest, RecommendationsResponse } from '@/types';
 
 export async function POST(request: NextRequest) {
@@ -13,29 +17,82 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Validate OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('OPENAI_API_KEY is not set in environment variables');
+    if (body.count !== undefined && (!Number.isInteger(body.count) || body.count < 1 || body.count > MAX_RECOMMENDATION_COUNT)) {
+      return NextResponse.json(
+        { error: `count must be a whole number from 1 to ${MAX_RECOMMENDATION_COUNT}` },
+        { status: 400 }
+      );
+    }
+    
+    if (body.excludeCardIds !== undefined && (!Array.isArray(body.excludeCardIds) || body.excludeCardIds.some(id => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'excludeCardIds must be an array of card ids' },
+        { status: 400 }
+      );
+    }
+    
+    const variantsError = validatePromptVariants(body.promptVariants);
+    if (variantsError) {
+      return NextResponse.json(
+        { error: variantsError },
+        { status: 400 }
+      );
+    }
+    
+    // Validate the chat provider configuration
+    const configError = getChatConfigError();
+    if (configError) {
+      console.error(`Chat model not configured: ${configError}`);
       return NextResponse.json(
         { 
-          error: 'OpenAI API key not configured. Please set OPENAI_API_KEY in your Vercel environment variables.',
+          error: `Chat model not configured: ${configError}. Set it in your Vercel environment variables.`,
           details: process.env.NODE_ENV === 'development' 
-            ? 'Set OPENAI_API_KEY in .env.local file' 
+            ? 'Set OPENAI_API_KEY (or CHAT_PROVIDER and its settings) in .env.local file' 
             : 'Configure OPENAI_API_KEY in Vercel project settings > Environment Variables'
         },
         { status: 500 }
       );
     }
     
+    const message = body.message.trim();
+    
+    // A stored conversation supplies the history, shown cards and profile the client would otherwise send;
+    // it must belong to the caller, and one that does not is reported as missing
+    const conversation = body.conversationId === undefined
+      ? null
+      : await getOwnedConversation(body.conversationId, request.cookies.get(OWNER_COOKIE)?.value);
+    if (body.conversationId !== undefined && !conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+    const context = conversation ? conversationContext(conversation, message, !!body.excludeCardIds?.length) : null;
+    const conversationHistory = context ? context.conversationHistory : body.conversationHistory;
+    
+    // Fold this message into the profile kept from earlier turns
+    const userProfile = buildUserProfile(
+      message,
+      conversationHistory,
+      sanitizeProfile(body.userProfile) ?? context?.userProfile
+    );
+    
     // Generate recommendations using RAG with conversation history
     const result: RecommendationsResponse = await generateRecommendations(
-      body.message.trim(),
+      message,
       undefined, // topN uses default
-      body.conversationHistory, // Pass conversation history
-      body.previousRecommendations // Pass previous recommendations
+      conversationHistory, // Pass conversation history
+      context ? context.previousRecommendations : body.previousRecommendations, // Pass previous recommendations
+      userProfile,
+      undefined, // no progress reporting
+      { count: body.count, excludeCardIds: body.excludeCardIds, promptVariants: body.promptVariants }
     );
     
-    return NextResponse.json(result);
+    const recorded = conversation && context
+      ? await recordConversationTurn(conversation, context, message, result, userProfile)
+      : null;
+    
+    return NextResponse.json({ ...result, userProfile, ...(recorded ? { conversationTurn: recorded.turn } : {}) });
   } catch (error) {
     console.error('Error in recommendations API:', error);
     
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRecommendations, MAX_RECOMMENDATION_COUNT } from '@/lib/rag';
+import { buildUserProfile, sanitizeProfile } from '@/lib/profile';
+import { getChatConfigError } from '@/lib/llm';
+import { validatePromptVariants } from '@/lib/prompts';
+import { conversationContext, getOwnedConversation, OWNER_COOKIE, recordConversationTurn } from '@/lib/conversations';
+import { RecommendationsRequest, RecommendationStreamEvent } from '@/types';
+
+/**
+ * Thrown from the pipeline's progress callbacks to stop it once nobody is reading
+ */
+const CLIENT_DISCONNECTED = 'Client disconnected';
+
+/**
+ * Streaming variant of /api/recommendations
+ * Responds with NDJSON: stage events and summary deltas as they happen, then one `result`
+ * event with the same body /api/recommendations returns (or an `error` event)
+ */
+export async function POST(request: NextRequest) {
+  let body: RecommendationsRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (!body.message || typeof body.message !== 'string' || body.message.trim().length === 0) {
+    return NextResponse.json({ error: 'Message is required' }, { status: 400 });
+  }
+
+  if (body.count !== undefined && (!Number.isInteger(body.count) || body.count < 1 || body.count > MAX_RECOMMENDATION_COUNT)) {
+    return NextResponse.json({ error: `count must be a whole number from 1 to ${MAX_RECOMMENDATION_COUNT}` }, { status: 400 });
+  }
+
+  if (body.excludeCardIds !== undefined && (!Array.isArray(body.excludeCardIds) || body.excludeCardIds.some(id => typeof id !== 'string'))) {
+    return NextResponse.json({ error: 'excludeCardIds must be an array of card ids' }, { status: 400 });
+  }
+
+  const variantsError = validatePromptVariants(body.promptVariants);
+  if (variantsError) {
+    return NextResponse.json({ error: variantsError }, { status: 400 });
+  }
+
+  const configError = getChatConfigError();
+  if (configError) {
+    console.error(`Chat model not configured: ${configError}`);
+    return NextResponse.json(
+      { error: `Chat model not configured: ${configError}. Set it in your Vercel environment variables.` },
+      { status: 500 }
+    );
+  }
+
+  const message = body.message.trim();
+
+  // A stored conversation supplies the history, shown cards and profile the client would otherwise send;
+  // it must belong to the caller, and one that does not is reported as missing
+  const conversation = body.conversationId === undefined
+    ? null
+    : await getOwnedConversation(body.conversationId, request.cookies.get(OWNER_COOKIE)?.value);
+  if (body.conversationId !== undefined && !conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+  const context = conversation ? conversationContext(conversation, message, !!body.excludeCardIds?.length) : null;
+  const conversationHistory = context ? context.conversationHistory : body.conversationHistory;
+
+  const encoder = new TextEncoder();
+
+  // Set once the client goes away; later events are dropped and the pipeline is stopped at its next event
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: RecommendationStreamEvent): boolean => {
+        if (closed) return false;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          return true;
+        } catch {
+          closed = true;
+          return false;
+        }
+      };
+      const progress = (event: RecommendationStreamEvent) => {
+        if (!send(event)) throw new Error(CLIENT_DISCONNECTED);
+      };
+
+      try {
+        const userProfile = buildUserProfile(message, conversationHistory, sanitizeProfile(body.userProfile) ?? context?.userProfile);
+        const result = await generateRecommendations(
+          message,
+          undefined, // topN uses default
+          conversationHistory,
+          context ? context.previousRecommendations : body.previousRecommendations,
+          userProfile,
+          {
+            onStage: (stage, stageMessage) => progress({ type: 'stage', stage, message: stageMessage }),
+            onSummaryDelta: text => progress({ type: 'summary_delta', text, provisional: true }),
+          },
+          { count: body.count, excludeCardIds: body.excludeCardIds, promptVariants: body.promptVariants }
+        );
+        const recorded = conversation && context
+          ? await recordConversationTurn(conversation, context, message, result, userProfile)
+          : null;
+        send({ type: 'result', response: { ...result, userProfile, ...(recorded ? { conversationTurn: recorded.turn } : {}) } });
+      } catch (error) {
+        if (closed) {
+          console.log('Client disconnected, stopped generating recommendations');
+        } else {
+          console.error('Error in streaming recommendations API:', error);
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Failed to generate recommendations' });
+        }
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no', // Keep proxies from buffering the stream
+    },
+  });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findTurn, getOwnedConversation, OWNER_COOKIE } from '@/lib/conversations';
+import { cardsOutsideTurn, saveSharedSet, shareUrl, validateShareRequest } from '@/lib/sharedSets';
+import { ShareRequest, ShareResponse } from '@/types';
+
+/**
+ * Saves a recommendation set under a short id for the read-only /r/<id> page
+ * Takes card ids only; the text around them comes from the turn of the caller's own stored conversation that
+ * recommended them, when given
+ */
+export async function POST(request: NextRequest) {
+  let body: ShareRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const validationError = validateShareRequest(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    let turn = null;
+    if (body.conversationId !== undefined && body.turn !== undefined) {
+      const conversation = await getOwnedConversation(body.conversationId, request.cookies.get(OWNER_COOKIE)?.value);
+      turn = conversation && findTurn(conversation, body.turn);
+      if (!turn) {
+        return NextResponse.json({ error: conversation ? 'Turn not found' : 'Conversation not found' }, { status: 404 });
+      }
+      const outside = await cardsOutsideTurn(body.card_ids, turn);
+      if (outside.length > 0) {
+        return NextResponse.json({ error: `Not recommended in turn ${body.turn}: ${outside.join(', ')}` }, { status: 400 });
+      }
+    }
+
+    const set = await saveSharedSet(body.card_ids, turn);
+    if (!set) {
+      return NextResponse.json({ error: 'None of card_ids is a card that can be shared' }, { status: 400 });
+    }
+    const result: ShareResponse = { id: set.id, url: shareUrl(set.id), expiresAt: set.expiresAt };
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error saving shared set:', error);
+    return NextResponse.json(
+      { error: 'Failed to save shared set', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
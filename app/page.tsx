@@ -1,17 +1,120 @@
 'use client';
 
 import { useState, useRef, useEffect, useMemo } from 'react';
-import { Recommendation } from '@/types';
+import { CardComparison, CardConstraint, Conversation, Recommendation, RecommendationsRequest, RecommendationsResponse, RecommendationStreamEvent, ShareRequest, ShareResponse, UserProfile } from '@/types';
 import SwipeToLoad from '@/components/SwipeToLoad';
+import ProfilePanel from '@/components/ProfilePanel';
+import WhyThisCard from '@/components/WhyThisCard';
+import RecommendationCard, { formatDollars } from '@/components/RecommendationCard';
 import CartoonDisplay from '@/components/CartoonDisplay';
 import ReactMarkdown from 'react-markdown';
-import { Plane, ShoppingCart, Shield, User, Sparkles, CreditCard, Search, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Check, Star, ExternalLink, TrendingUp } from 'lucide-react';
+import { Plane, ShoppingCart, Shield, User, Sparkles, CreditCard, Search, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Check, Star, TrendingUp, Share2 } from 'lucide-react';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
   recommendations?: Recommendation[];
   summary?: string; // Summary with card links for user messages
+  summaryProvisional?: boolean; // Streamed summary not yet checked against the catalog; the final response replaces it
+  appliedConstraints?: CardConstraint[]; // Filters the recommendations were limited to
+  comparison?: CardComparison; // Side-by-side table for comparison answers
+  request?: RecommendationsRequest; // Request that produced the cards, replayed by "show more"
+  hasMore?: boolean; // More matching cards can be fetched
+  turn?: number; // Index of the stored conversation turn holding the cards, sent when they are shared
+}
+
+/**
+ * Cards fetched each time "show more" is pressed
+ */
+const SHOW_MORE_COUNT = 3;
+
+/**
+ * localStorage key for the server-side conversation restored after a refresh
+ */
+const CONVERSATION_ID_KEY = 'conversationId';
+
+/**
+ * Rebuilds the chat messages a stored conversation's turns were shown as
+ */
+function messagesFromConversation(conversation: Conversation): Message[] {
+  return conversation.turns.flatMap(({ message, response }, turn): Message[] => {
+    const recommendations = response.recommendations || [];
+    const userMessage: Message = { role: 'user', content: message, summary: response.summary || '', recommendations };
+    if (recommendations.length === 0) return [userMessage];
+    return [
+      userMessage,
+      {
+        role: 'assistant',
+        content: '',
+        recommendations,
+        appliedConstraints: response.appliedConstraints || [],
+        comparison: response.comparison,
+        turn,
+        ...(response.intent === 'recommend' ? { request: { message, conversationId: conversation.id }, hasMore: response.hasMore } : {}),
+      },
+    ];
+  });
+}
+
+/**
+ * Posts to the streaming recommendations endpoint and reports progress while the NDJSON events arrive
+ * Resolves with the final response; error events and failed requests throw
+ */
+async function streamRecommendations(
+  request: RecommendationsRequest,
+  handlers: { onStage?: (message: string) => void; onSummary?: (summary: string) => void }
+): Promise<RecommendationsResponse & { userProfile?: UserProfile }> {
+  const response = await fetch('/api/recommendations/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    const errorMessage = data.error || 'Failed to get recommendations';
+    const errorDetails = data.details ? `\n\n${data.details}` : '';
+    console.error('API Error:', { error: errorMessage, details: data.details, status: response.status });
+    throw new Error(`${errorMessage}${errorDetails}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let summary = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: RecommendationStreamEvent = JSON.parse(line);
+      switch (event.type) {
+        case 'stage':
+          handlers.onStage?.(event.message);
+          break;
+        case 'summary_delta':
+          summary += event.text;
+          handlers.onSummary?.(summary);
+          break;
+        case 'result':
+          return event.response;
+        case 'error':
+          console.error('API Error:', event.error);
+          throw new Error(event.error);
+      }
+    }
+
+    if (done) break;
+  }
+
+  throw new Error('The response ended before the recommendations were ready');
 }
 
 type SuggestedQuestion = {
@@ -62,6 +165,12 @@ export default function Home() {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [recommendationTitle, setRecommendationTitle] = useState('AI Recommendations');
+  const [userProfile, setUserProfile] = useState<UserProfile>({}); // Facts gathered across turns, sent with every request
+  const [conversationId, setConversationId] = useState<string | null>(null); // Server-side conversation holding the history
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [shareLink, setShareLink] = useState<{ url: string; copied: boolean } | null>(null); // Permalink for the cards panel
+  const [isSharing, setIsSharing] = useState(false);
+  const [loadingStage, setLoadingStage] = useState<string | null>(null); // Pipeline step reported by the streaming endpoint
   const [dynamicSuggestions, setDynamicSuggestions] = useState<string[]>([]);
   const [currentCartoon, setCurrentCartoon] = useState<{ imageUrl: string; source?: string } | null>(null);
   const [shownCartoons, setShownCartoons] = useState<string[]>([]);
@@ -127,6 +236,29 @@ export default function Home() {
     shownCartoonsRef.current = shownCartoons;
   }, [shownCartoons]);
 
+  // Restore the conversation from before a refresh
+  useEffect(() => {
+    const storedId = localStorage.getItem(CONVERSATION_ID_KEY);
+    if (!storedId) return;
+
+    fetch(`/api/conversations/${storedId}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          localStorage.removeItem(CONVERSATION_ID_KEY);
+          return;
+        }
+        const conversation: Conversation = await response.json();
+        setConversationId(conversation.id);
+        setMessages(messagesFromConversation(conversation));
+        setUserProfile(conversation.userProfile || {});
+        const lastTitle = [...conversation.turns].reverse().find((turn) => turn.response.recommendations?.length && turn.response.title);
+        if (lastTitle?.response.title) {
+          setRecommendationTitle(lastTitle.response.title);
+        }
+      })
+      .catch((error) => console.error('Error restoring conversation:', error));
+  }, []);
+
   // Detect mobile and desktop screen size
   useEffect(() => {
     const checkScreenSize = () => {
@@ -1609,6 +1741,39 @@ export default function Home() {
     prevIsLoadingRef.current = isLoading;
   }, [isLoading]); // Only depend on isLoading, use ref for shownCartoons
 
+  // Returns the server-side conversation, starting one on the first question; null when it cannot be created
+  const ensureConversation = async (): Promise<string | null> => {
+    if (conversationId) return conversationId;
+    try {
+      const response = await fetch('/api/conversations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userProfile }),
+      });
+      if (!response.ok) return null;
+      const conversation: Conversation = await response.json();
+      localStorage.setItem(CONVERSATION_ID_KEY, conversation.id);
+      setConversationId(conversation.id);
+      return conversation.id;
+    } catch (error) {
+      console.error('Error starting conversation:', error);
+      return null;
+    }
+  };
+
+  // Clears the chat and starts over; the old conversation stays on the server
+  const handleNewConversation = () => {
+    if (isLoading) return;
+    localStorage.removeItem(CONVERSATION_ID_KEY);
+    setConversationId(null);
+    setMessages([]);
+    setUserProfile({});
+    setDynamicSuggestions([]);
+    setRecommendationTitle('AI Recommendations');
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
@@ -1638,27 +1803,33 @@ export default function Home() {
         .find((msg) => msg.role === 'assistant' && msg.recommendations && msg.recommendations.length > 0);
       const previousRecommendations = mostRecentAssistantMessage?.recommendations || [];
 
-      const response = await fetch('/api/recommendations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          message: userMessage,
-          conversationHistory: conversationHistory,
-          previousRecommendations: previousRecommendations,
-        }),
-      });
+      // The server keeps the history when there is a conversation; otherwise it is sent with the request
+      const activeConversationId = await ensureConversation();
+      const request: RecommendationsRequest = activeConversationId
+        ? { message: userMessage, conversationId: activeConversationId, userProfile: userProfile }
+        : {
+            message: userMessage,
+            conversationHistory: conversationHistory,
+            previousRecommendations: previousRecommendations,
+            userProfile: userProfile,
+          };
 
-      const data = await response.json();
+      // Stream the answer so the summary shows up while the cards are still being prepared
+      // The streamed text is unchecked model output, shown as provisional until the grounded summary arrives
+      const data = await streamRecommendations(
+        request,
+        {
+          onStage: setLoadingStage,
+          onSummary: (summary) => {
+            setMessages((current) => current.map((msg, idx) =>
+              idx === current.length - 1 && msg.role === 'user' ? { ...msg, summary, summaryProvisional: true } : msg
+            ));
+          },
+        }
+      );
       
-      // Check if the response contains an error
-      if (!response.ok || data.error) {
-        const errorMessage = data.error || 'Failed to get recommendations';
-        const errorDetails = data.details ? `\n\n${data.details}` : '';
-        const fullError = `${errorMessage}${errorDetails}`;
-        console.error('API Error:', { error: errorMessage, details: data.details, status: response.status });
-        throw new Error(fullError);
+      if (data.userProfile) {
+        setUserProfile(data.userProfile);
       }
       
       const hasValidRecommendations = data.recommendations && Array.isArray(data.recommendations) && data.recommendations.length > 0;
@@ -1696,6 +1867,11 @@ export default function Home() {
             role: 'assistant',
             content: '', // No summary in right box, only cards
             recommendations: data.recommendations,
+            appliedConstraints: data.appliedConstraints || [],
+            comparison: data.comparison,
+            turn: data.conversationTurn,
+            // Only ranked recommendations can be paged; comparisons and single-card answers are complete
+            ...(data.intent === 'recommend' ? { request, hasMore: data.hasMore } : {}),
           },
         ]);
       } else {
@@ -1756,9 +1932,91 @@ export default function Home() {
       ]);
     } finally {
       setIsLoading(false);
+      setLoadingStage(null);
     }
   };
 
+  // Fetch the next cards for a recommendation set and add them to it
+  const handleShowMore = async (messageIndex: number) => {
+    const message = messages[messageIndex];
+    if (!message?.request || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const response = await fetch('/api/recommendations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...message.request,
+          userProfile: userProfile,
+          count: SHOW_MORE_COUNT,
+          excludeCardIds: (message.recommendations || []).map((rec) => rec.card_id).filter((id): id is string => !!id),
+        }),
+      });
+
+      const data: RecommendationsResponse = await response.json();
+      if (!response.ok) {
+        throw new Error((data as { error?: string }).error || 'Failed to load more cards');
+      }
+
+      setMessages((current) => current.map((msg, idx) =>
+        idx === messageIndex
+          ? { ...msg, recommendations: [...(msg.recommendations || []), ...data.recommendations], hasMore: data.hasMore && data.recommendations.length > 0 }
+          : msg
+      ));
+    } catch (error) {
+      console.error('Error loading more cards:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Save the cards panel's set under a short link and copy it
+  const handleShare = async () => {
+    const cardsIndex = messages.map((msg) => msg.role === 'assistant' && !!msg.recommendations?.length).lastIndexOf(true);
+    const sharedMessage = cardsIndex < 0 ? null : messages[cardsIndex];
+    const cardIds = (sharedMessage?.recommendations || [])
+      .map((rec) => rec.card_id)
+      .filter((id): id is string => !!id);
+    if (cardIds.length === 0 || isSharing) return;
+
+    setIsSharing(true);
+    try {
+      // The server reads the cards from the catalog and the question and summary from the stored turn they came from
+      const shareRequest: ShareRequest = {
+        card_ids: cardIds,
+        ...(conversationId && sharedMessage?.turn !== undefined ? { conversationId, turn: sharedMessage.turn } : {}),
+      };
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(shareRequest),
+      });
+
+      const data: ShareResponse = await response.json();
+      if (!response.ok) {
+        throw new Error((data as { error?: string }).error || 'Failed to share recommendations');
+      }
+
+      const url = data.url.startsWith('http') ? data.url : `${window.location.origin}${data.url}`;
+      const copied = await navigator.clipboard?.writeText(url).then(() => true, () => false) ?? false;
+      setShareLink({ url, copied });
+    } catch (error) {
+      console.error('Error sharing recommendations:', error);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  // A link belongs to the cards it was made for
+  useEffect(() => {
+    setShareLink(null);
+  }, [messages]);
+
   // Helper function to navigate carousel left
   const navigateCarouselLeft = () => {
     const carousel = popularQuestionsCarouselRef.current;
@@ -1895,27 +2153,33 @@ export default function Home() {
         .find((msg) => msg.role === 'assistant' && msg.recommendations && msg.recommendations.length > 0);
       const previousRecommendations = mostRecentAssistantMessage?.recommendations || [];
 
-      const response = await fetch('/api/recommendations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          message: question,
-          conversationHistory: conversationHistory,
-          previousRecommendations: previousRecommendations,
-        }),
-      });
+      // The server keeps the history when there is a conversation; otherwise it is sent with the request
+      const activeConversationId = await ensureConversation();
+      const request: RecommendationsRequest = activeConversationId
+        ? { message: question, conversationId: activeConversationId, userProfile: userProfile }
+        : {
+            message: question,
+            conversationHistory: conversationHistory,
+            previousRecommendations: previousRecommendations,
+            userProfile: userProfile,
+          };
 
-      const data = await response.json();
+      // Stream the answer so the summary shows up while the cards are still being prepared
+      // The streamed text is unchecked model output, shown as provisional until the grounded summary arrives
+      const data = await streamRecommendations(
+        request,
+        {
+          onStage: setLoadingStage,
+          onSummary: (summary) => {
+            setMessages((current) => current.map((msg, idx) =>
+              idx === current.length - 1 && msg.role === 'user' ? { ...msg, summary, summaryProvisional: true } : msg
+            ));
+          },
+        }
+      );
       
-      // Check if the response contains an error
-      if (!response.ok || data.error) {
-        const errorMessage = data.error || 'Failed to get recommendations';
-        const errorDetails = data.details ? `\n\n${data.details}` : '';
-        const fullError = `${errorMessage}${errorDetails}`;
-        console.error('API Error:', { error: errorMessage, details: data.details, status: response.status });
-        throw new Error(fullError);
+      if (data.userProfile) {
+        setUserProfile(data.userProfile);
       }
       
       const hasValidRecommendations = data.recommendations && Array.isArray(data.recommendations) && data.recommendations.length > 0;
@@ -1953,6 +2217,11 @@ export default function Home() {
             role: 'assistant',
             content: '', // No summary in right box, only cards
             recommendations: data.recommendations,
+            appliedConstraints: data.appliedConstraints || [],
+            comparison: data.comparison,
+            turn: data.conversationTurn,
+            // Only ranked recommendations can be paged; comparisons and single-card answers are complete
+            ...(data.intent === 'recommend' ? { request, hasMore: data.hasMore } : {}),
           },
         ]);
       } else {
@@ -2013,6 +2282,7 @@ export default function Home() {
       ]);
     } finally {
       setIsLoading(false);
+      setLoadingStage(null);
     }
   };
 
@@ -2681,7 +2951,7 @@ export default function Home() {
                                 </div>
                               ) : (
                                 <div className="bg-gray-50 rounded-xl p-4 px-5 shadow-sm flex-1 max-w-xl lg:max-w-lg transition-all duration-200 min-w-0 overflow-hidden">
-                                  <div className="prose prose-sm max-w-none overflow-x-hidden">
+                                  <div className={`prose prose-sm max-w-none overflow-x-hidden${message.summaryProvisional ? ' opacity-60' : ''}`}>
                                     <ReactMarkdown
                                       components={{
                                         a: ({ ...props }) => (
@@ -2738,6 +3008,9 @@ export default function Home() {
                                       })()}
                                     </ReactMarkdown>
                                   </div>
+                                  {message.summaryProvisional && (
+                                    <p className="text-xs text-slate-500 font-light mt-1">Checking fees and rewards against the card terms...</p>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -2750,6 +3023,8 @@ export default function Home() {
                     // Check if the current question is about previous cards or a non-recommendation question
                     const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
                     const currentQuery = lastUserMessage?.content?.toLowerCase() || '';
+                    // Once the summary starts streaming in, it replaces the loading indicator
+                    if (lastUserMessage?.summary) return null;
                     
                     // Patterns that indicate asking about previous cards or non-recommendation questions
                     const previousCardPatterns = [
@@ -2807,7 +3082,7 @@ export default function Home() {
                           </div>
                           <div className="bg-gray-50 rounded-xl p-4 px-5 shadow-sm">
                             <div className="flex items-center gap-1">
-                              <span className="text-slate-600 text-[15px] font-medium">Thinking</span>
+                              <span className="text-slate-600 text-[15px] font-medium">{loadingStage || 'Thinking'}</span>
                               <div className="flex gap-1 ml-2">
                                 <div className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
                                 <div className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
@@ -2828,6 +3103,23 @@ export default function Home() {
               {/* Mobile: Expandable recommendation boxes below chatbox */}
               {topThreeRecommendations.length > 0 && (
                 <div className="lg:hidden mt-4 space-y-3 flex-shrink-0 max-w-sm">
+                  <div className="flex flex-col items-end gap-1">
+                    <button
+                      type="button"
+                      onClick={handleShare}
+                      disabled={isSharing || isLoading}
+                      className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-teal-700 disabled:opacity-50 transition-colors"
+                    >
+                      <Share2 className="w-3.5 h-3.5" />
+                      {isSharing ? 'Saving...' : 'Share these cards'}
+                    </button>
+                    {shareLink && (
+                      <p className="text-xs text-teal-700 break-all text-right">
+                        {shareLink.copied ? 'Link copied: ' : 'Share this link: '}
+                        <a href={shareLink.url} target="_blank" rel="noopener noreferrer" className="underline">{shareLink.url}</a>
+                      </p>
+                    )}
+                  </div>
                   {topThreeRecommendations.map((rec, index) => {
                     const isExpanded = expandedRecommendations.has(index);
                     return (
@@ -2882,6 +3174,16 @@ export default function Home() {
                                 </div>
                               )}
                               
+                              {/* Estimated value for the user's stated spending */}
+                              {rec.estimated_annual_value !== undefined && (
+                                <div className="flex justify-between items-start gap-2">
+                                  <span className="font-medium text-slate-500">Est. Value:</span>
+                                  <span className="text-teal-700 font-medium text-right">
+                                    {formatDollars(rec.estimated_first_year_value ?? rec.estimated_annual_value)} first year, {formatDollars(rec.estimated_annual_value)}/yr after
+                                  </span>
+                                </div>
+                              )}
+                              
                               {/* Intro Offer */}
                               {rec.intro_offer && (
                                 <div className="flex justify-between items-start gap-2">
@@ -2897,6 +3199,9 @@ export default function Home() {
                                   <span className="text-slate-700 font-medium text-right">{rec.perks}</span>
                                 </div>
                               )}
+                              
+                              {/* Retrieval details */}
+                              {rec.explanation && <WhyThisCard explanation={rec.explanation} />}
                             </div>
                             
                             {/* Apply Button */}
@@ -3081,8 +3386,44 @@ export default function Home() {
                   </svg>
                 </div>
                 <div>
-                  <h2 className="text-xl lg:text-2xl font-bold text-slate-900">{recommendationTitle || 'Top Bank Cards'}</h2>
+                  <div className="flex items-center gap-3">
+                    <h2 className="text-xl lg:text-2xl font-bold text-slate-900">{recommendationTitle || 'Top Bank Cards'}</h2>
+                    {messages.some((msg) => msg.role === 'assistant' && msg.recommendations && msg.recommendations.length > 0) && (
+                      <button
+                        type="button"
+                        onClick={handleShare}
+                        disabled={isSharing || isLoading}
+                        className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-teal-700 disabled:opacity-50 transition-colors"
+                      >
+                        <Share2 className="w-3.5 h-3.5" />
+                        {isSharing ? 'Saving...' : 'Share'}
+                      </button>
+                    )}
+                  </div>
                   <p className="text-xs lg:text-sm text-slate-500 font-light">Personalized recommendations for you</p>
+                  {shareLink && (
+                    <p className="text-xs text-teal-700 mt-1 break-all">
+                      {shareLink.copied ? 'Link copied: ' : 'Share this link: '}
+                      <a href={shareLink.url} target="_blank" rel="noopener noreferrer" className="underline">{shareLink.url}</a>
+                    </p>
+                  )}
+                  {(() => {
+                    const appliedConstraints = [...messages]
+                      .reverse()
+                      .find((msg) => msg.role === 'assistant' && msg.recommendations && msg.recommendations.length > 0)
+                      ?.appliedConstraints || [];
+                    if (appliedConstraints.length === 0) return null;
+                    return (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {appliedConstraints.map((constraint) => (
+                          <span key={constraint.label} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-teal-50 border border-teal-200 text-[11px] text-teal-700">
+                            <Check className="w-3 h-3" />
+                            {constraint.label}
+                          </span>
+                        ))}
+                      </div>
+                    );
+                  })()}
                 </div>
               </div>
 
@@ -3191,125 +3532,79 @@ export default function Home() {
                     );
                   }
 
+                  const comparison = mostRecentAssistantMessage.comparison;
+                  if (comparison && comparison.cards.length >= 2) {
+                    return (
+                      <div className="overflow-x-auto rounded-xl border border-border bg-white shadow-md mb-6">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="bg-gradient-to-br from-card to-blue-50 border-b border-border">
+                              <th className="p-3 text-left text-xs font-medium text-muted-foreground w-32"></th>
+                              {comparison.cards.map((card) => (
+                                <th key={card.id} className="p-3 text-left align-top">
+                                  <a
+                                    href={card.apply_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="font-semibold text-foreground hover:text-primary hover:underline leading-tight"
+                                  >
+                                    {card.credit_card_name}
+                                  </a>
+                                </th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {comparison.rows.map((row) => (
+                              <tr key={row.attribute} className="border-b border-border last:border-b-0">
+                                <th className="p-3 text-left align-top text-xs font-medium text-muted-foreground">{row.label}</th>
+                                {row.values.map((value, index) => {
+                                  const isBest = row.best?.includes(index);
+                                  return (
+                                    <td
+                                      key={index}
+                                      className={`p-3 align-top leading-relaxed ${isBest ? 'bg-teal-50 text-teal-800 font-medium' : 'text-foreground'}`}
+                                    >
+                                      <span className="inline-flex items-start gap-1">
+                                        {isBest && <Check className="w-4 h-4 text-teal-600 flex-shrink-0 mt-0.5" />}
+                                        {value}
+                                      </span>
+                                    </td>
+                                  );
+                                })}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {comparison.unresolved.length > 0 && (
+                          <p className="p-3 text-xs text-muted-foreground border-t border-border">
+                            Not in our catalog: {comparison.unresolved.join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  }
+
                   return (
                     <>
                       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5 mb-6">
-                        {mostRecentAssistantMessage.recommendations.slice(0, 4).map((rec, recIndex) => {
-                          // Extract issuer from card name (usually first word)
-                          const cardNameParts = rec.credit_card_name.split(' ');
-                          const issuer = cardNameParts[0];
-                          const cardName = cardNameParts.slice(1).join(' ') || rec.credit_card_name;
-                          
-                          // Parse benefits from reason, perks, or rewards_rate
-                          const parseBenefits = (): string[] => {
-                            const benefits: string[] = [];
-                            
-                            // Add rewards rate as a benefit if available
-                            if (rec.rewards_rate && !rec.rewards_rate.toLowerCase().includes('apr')) {
-                              benefits.push(rec.rewards_rate);
-                            }
-                            
-                            // Parse perks if available
-                            if (rec.perks) {
-                              const perkList = rec.perks
-                                .split(/[.,;]/)
-                                .map(p => p.trim())
-                                .filter(p => p.length > 10 && p.length < 100); // Reasonable length
-                              benefits.push(...perkList);
-                            }
-                            
-                            // Parse reason for key benefits
-                            if (rec.reason && benefits.length < 4) {
-                              const reasonBenefits = rec.reason
-                                .split(/[.,;]/)
-                                .map(r => r.trim())
-                                .filter(r => {
-                                  const lower = r.toLowerCase();
-                                  return r.length > 15 && 
-                                         r.length < 100 &&
-                                         !lower.includes('annual fee') &&
-                                         !lower.includes('credit score') &&
-                                         (lower.includes('points') || 
-                                          lower.includes('cash back') || 
-                                          lower.includes('rewards') ||
-                                          lower.includes('travel') ||
-                                          lower.includes('perk') ||
-                                          lower.includes('benefit'));
-                                });
-                              benefits.push(...reasonBenefits);
-                            }
-                            
-                            return benefits.slice(0, 4); // Limit to 4 benefits
-                          };
-                          
-                          const benefits = parseBenefits();
-                          
-                          return (
-                            <div
-                              key={recIndex}
-                              className="bg-gradient-to-br from-card to-blue-50 rounded-xl border border-border shadow-md hover:shadow-lg transition-all duration-300 p-6 flex flex-col group hover:-translate-y-1 space-y-4"
-                            >
-                              {/* Header Section */}
-                              <div className="flex items-start gap-3">
-                                {/* Card Icon */}
-                                <div className="w-16 h-10 rounded bg-gradient-to-br from-primary/10 to-primary/5 border border-border flex-shrink-0 flex items-center justify-center">
-                                  <CreditCard className="w-5 h-5 text-primary" />
-                                </div>
-                                <div className="flex-1 min-w-0">
-                                  {/* Card Name */}
-                                  <h3 className="text-lg font-semibold text-foreground group-hover:text-primary transition-colors leading-tight mb-1">
-                                    <a 
-                                      href={rec.apply_url}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="hover:underline cursor-pointer"
-                                    >
-                                      {cardName}
-                                    </a>
-                                  </h3>
-                                  {/* Issuer */}
-                                  <p className="text-sm text-muted-foreground">{issuer}</p>
-                                </div>
-                              </div>
-                              
-                              {/* Benefits Section */}
-                              {benefits.length > 0 && (
-                                <div className="space-y-2">
-                                  {benefits.map((benefit, idx) => (
-                                    <div key={idx} className="flex items-start gap-2">
-                                      <Check className="w-4 h-4 text-success flex-shrink-0 mt-0.5" />
-                                      <p className="text-sm text-foreground leading-relaxed">{benefit}</p>
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
-                              
-                              {/* Footer Section */}
-                              <div className="border-t border-border pt-4 space-y-3">
-                                {/* Badges */}
-                                <div className="flex flex-wrap gap-2">
-                                  {rec.annual_fee && (
-                                    <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-secondary text-secondary-foreground">
-                                      {rec.annual_fee}
-                                    </span>
-                                  )}
-                                </div>
-                                
-                                {/* CTA Button */}
-                                <a
-                                  href={rec.apply_url}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="w-full flex items-center justify-center px-4 py-2.5 text-sm font-medium border border-border rounded-lg bg-transparent text-foreground hover:bg-primary hover:text-primary-foreground transition-all duration-300 group-hover:border-primary"
-                                >
-                                  Learn More
-                                  <ExternalLink className="w-4 h-4 ml-2" />
-                                </a>
-                              </div>
-                            </div>
-                          );
-                        })}
+                        {mostRecentAssistantMessage.recommendations.map((rec, recIndex) => (
+                          <RecommendationCard key={recIndex} rec={rec} />
+                        ))}
                       </div>
+                      {mostRecentAssistantMessage.hasMore && mostRecentAssistantMessage.request && (
+                        <div className="flex justify-center mb-6">
+                          <button
+                            type="button"
+                            onClick={() => handleShowMore(messages.lastIndexOf(mostRecentAssistantMessage))}
+                            disabled={isLoadingMore || isLoading}
+                            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium border border-border rounded-lg text-foreground hover:border-primary hover:text-primary disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                          >
+                            {isLoadingMore ? 'Loading more cards...' : 'Show more cards'}
+                            {!isLoadingMore && <ChevronDown className="w-4 h-4" />}
+                          </button>
+                        </div>
+                      )}
                       {/* Cartoon below the cards - Desktop only */}
                       {currentCartoon && (
                         <div className="hidden lg:flex mt-6 flex-col items-center">
@@ -3341,6 +3636,16 @@ export default function Home() {
             {/* Input Area - Desktop */}
             {!isLoading && (
               <div className="flex flex-col gap-3 mb-6 max-w-lg">
+                <div className="flex items-start justify-between gap-3 pl-11">
+                  <ProfilePanel profile={userProfile} onChange={setUserProfile} />
+                  <button
+                    type="button"
+                    onClick={handleNewConversation}
+                    className="flex-shrink-0 text-xs text-slate-500 hover:text-teal-700 transition-colors"
+                  >
+                    New conversation
+                  </button>
+                </div>
                 <div className="flex items-start gap-3 w-full">
                   {/* Spacer to match avatar width */}
                   <div className="flex-shrink-0 w-8 h-8"></div>
@@ -3410,6 +3715,17 @@ export default function Home() {
             WebkitBackdropFilter: 'blur(8px)',
           }}
         >
+          <div className="flex items-start justify-between gap-3 max-w-sm mx-auto mb-2">
+            <ProfilePanel profile={userProfile} onChange={setUserProfile} />
+            <button
+              type="button"
+              onClick={handleNewConversation}
+              disabled={isLoading}
+              className="flex-shrink-0 text-xs text-slate-500 hover:text-teal-700 disabled:opacity-50 transition-colors"
+            >
+              New conversation
+            </button>
+          </div>
           <div className="flex flex-col sm:flex-row gap-3 max-w-sm mx-auto">
             <div className="flex-1 relative">
               <input
@@ -0,0 +1,16 @@
+/**
+ * Shown for share links that never existed or have expired
+ */
+export default function SharedSetNotFound() {
+  return (
+    <main className="min-h-screen bg-white flex items-center justify-center px-4">
+      <div className="max-w-md text-center space-y-3">
+        <h1 className="text-xl font-bold text-slate-900">These recommendations are no longer available</h1>
+        <p className="text-sm text-slate-500">Shared links expire after a while. Ask for your own recommendations instead.</p>
+        <a href="/" className="inline-block text-sm font-medium text-teal-700 hover:text-teal-800 hover:underline">
+          Get recommendations
+        </a>
+      </div>
+    </main>
+  );
+}
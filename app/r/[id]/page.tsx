@@ -0,0 +1,130 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ReactMarkdown from 'react-markdown';
+import RecommendationCard from '@/components/RecommendationCard';
+import { getSharedSet, getSiteUrl } from '@/lib/sharedSets';
+import { SharedRecommendationSet } from '@/types';
+
+// Sets expire, so the page is rendered on every request
+export const dynamic = 'force-dynamic';
+
+interface SharedSetPageProps {
+  params: { id: string };
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Preview text: the question and the cards, short enough for a chat app's link card
+ */
+function describeSet(set: SharedRecommendationSet): string {
+  const names = set.recommendations.map(rec => rec.credit_card_name).join(', ');
+  const cards = `${set.recommendations.length} card${set.recommendations.length === 1 ? '' : 's'}`;
+  const description = `${set.query ? `${cards} for "${set.query}"` : cards}: ${names}`;
+  return description.length > 200 ? `${description.slice(0, 197)}...` : description;
+}
+
+export async function generateMetadata({ params }: SharedSetPageProps): Promise<Metadata> {
+  const set = getSharedSet(params.id);
+  if (!set) {
+    return { title: 'Recommendations not found', robots: { index: false, follow: false } };
+  }
+
+  const siteUrl = getSiteUrl();
+  const description = describeSet(set);
+  return {
+    metadataBase: siteUrl,
+    title: `${set.title} | Credit Card Recommendations`,
+    description,
+    // Shares are personal; they should be reachable by link, not by search
+    robots: { index: false, follow: false },
+    openGraph: {
+      title: set.title,
+      description,
+      type: 'website',
+      siteName: 'Credit Card Recommendations',
+      ...(siteUrl ? { url: `/r/${set.id}` } : {}),
+    },
+    twitter: {
+      card: 'summary',
+      title: set.title,
+      description,
+    },
+  };
+}
+
+/**
+ * Read-only view of a shared recommendation set, laid out like the chat UI's cards panel
+ */
+export default function SharedSetPage({ params }: SharedSetPageProps) {
+  const set = getSharedSet(params.id);
+  if (!set) notFound();
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="max-w-6xl mx-auto px-4 py-8 lg:px-8 lg:py-12">
+        <div className="flex items-center gap-3 mb-6 lg:mb-8">
+          <div className="w-10 h-10 lg:w-12 lg:h-12 rounded-xl bg-gradient-to-br from-teal-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-teal-500/20">
+            <svg className="w-5 h-5 lg:w-6 lg:h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+            </svg>
+          </div>
+          <div>
+            <h1 className="text-xl lg:text-2xl font-bold text-slate-900">{set.title}</h1>
+            <p className="text-xs lg:text-sm text-slate-500 font-light">
+              {set.query ? <>Shared recommendations for &ldquo;{set.query}&rdquo;</> : 'Shared recommendations'}
+            </p>
+          </div>
+        </div>
+
+        {set.summary && (
+          <div className="bg-gray-50 rounded-xl p-4 px-5 shadow-sm max-w-3xl mb-8">
+            <div className="prose prose-sm max-w-none">
+              <ReactMarkdown
+                components={{
+                  a: ({ ...props }) => (
+                    <a
+                      {...props}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-teal-600 font-semibold hover:text-teal-700 underline decoration-2 decoration-teal-300 hover:decoration-teal-500 transition-colors duration-200"
+                    />
+                  ),
+                  p: ({ ...props }) => (
+                    <p className="mb-3 text-[15px] leading-[1.6] text-slate-700 break-words" {...props} />
+                  ),
+                  ul: ({ ...props }) => (
+                    <ul className="list-none space-y-3 my-3" {...props} />
+                  ),
+                  li: ({ ...props }) => (
+                    <li className="mb-4 text-[15px] leading-[1.6] text-slate-700 break-words" {...props} />
+                  ),
+                }}
+              >
+                {set.summary}
+              </ReactMarkdown>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5 mb-8">
+          {set.recommendations.map((rec, index) => (
+            <RecommendationCard key={index} rec={rec} />
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 border-t border-slate-200 pt-4 text-xs text-slate-500">
+          <p>
+            Saved {formatDate(set.createdAt)}
+            {set.expiresAt && <> · This link expires {formatDate(set.expiresAt)}</>}
+          </p>
+          <a href="/" className="font-medium text-teal-700 hover:text-teal-800 hover:underline">
+            Ask your own question
+          </a>
+        </div>
+      </div>
+    </main>
+  );
+}
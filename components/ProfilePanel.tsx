@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { IncomeBracket, MonthlySpend, UserProfile } from '@/types';
+
+const INCOME_LABELS: Record<IncomeBracket, string> = {
+  under_25k: 'Income under $25k',
+  '25k_50k': 'Income $25k-$50k',
+  '50k_100k': 'Income $50k-$100k',
+  '100k_150k': 'Income $100k-$150k',
+  '150k_plus': 'Income $150k+',
+};
+
+interface ProfilePanelProps {
+  profile: UserProfile;
+  onChange: (profile: UserProfile) => void;
+  className?: string;
+}
+
+interface ProfileFact {
+  key: string;
+  label: string;
+  remove: () => UserProfile;
+}
+
+/**
+ * Shows what the assistant has learned about the user, with each fact removable
+ * The credit score can be edited in place since it is the fact most often misread
+ */
+export default function ProfilePanel({ profile, onChange, className = '' }: ProfilePanelProps) {
+  const [editingScore, setEditingScore] = useState(false);
+  const [scoreInput, setScoreInput] = useState('');
+
+  const facts: ProfileFact[] = [];
+
+  if (profile.creditScore !== undefined) {
+    facts.push({
+      key: 'creditScore',
+      label: `Credit score ${profile.creditScore}`,
+      remove: () => {
+        const { creditScore, ...rest } = profile;
+        return rest;
+      },
+    });
+  } else if (profile.creditTier && profile.creditTier !== 'unknown') {
+    facts.push({
+      key: 'creditTier',
+      label: profile.creditTier === 'limited' ? 'Limited credit history' : `${profile.creditTier[0].toUpperCase()}${profile.creditTier.slice(1)} credit`,
+      remove: () => {
+        const { creditTier, ...rest } = profile;
+        return rest;
+      },
+    });
+  }
+
+  if (profile.incomeBracket) {
+    facts.push({
+      key: 'incomeBracket',
+      label: INCOME_LABELS[profile.incomeBracket],
+      remove: () => {
+        const { incomeBracket, ...rest } = profile;
+        return rest;
+      },
+    });
+  }
+
+  if (profile.travelFrequency) {
+    facts.push({
+      key: 'travelFrequency',
+      label: `Travels ${profile.travelFrequency}`,
+      remove: () => {
+        const { travelFrequency, ...rest } = profile;
+        return rest;
+      },
+    });
+  }
+
+  (profile.cardsHeld || []).forEach((card) => {
+    facts.push({
+      key: `card:${card}`,
+      label: `Has ${card}`,
+      remove: () => ({ ...profile, cardsHeld: (profile.cardsHeld || []).filter((held) => held !== card) }),
+    });
+  });
+
+  (Object.entries(profile.monthlySpend || {}) as Array<[keyof MonthlySpend, number]>).forEach(([category, amount]) => {
+    const name = category === 'everything' ? 'Other spend' : `${category[0].toUpperCase()}${category.slice(1).replace('_', ' ')}`;
+    facts.push({
+      key: `spend:${category}`,
+      label: `${name} $${Math.round(amount).toLocaleString()}/mo`,
+      remove: () => {
+        const { [category]: removed, ...spend } = profile.monthlySpend || {};
+        return { ...profile, monthlySpend: spend };
+      },
+    });
+  });
+
+  if (facts.length === 0) return null;
+
+  const saveScore = () => {
+    const score = parseInt(scoreInput, 10);
+    if (score >= 300 && score <= 850) {
+      const { creditTier, ...rest } = profile;
+      onChange({ ...rest, creditScore: score });
+    }
+    setEditingScore(false);
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 text-[11px] ${className}`}>
+      <span className="text-slate-500 font-medium mr-1">What I know about you:</span>
+      {facts.map((fact) => (
+        <span
+          key={fact.key}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 border border-slate-200 text-slate-700"
+        >
+          {fact.key === 'creditScore' && editingScore ? (
+            <input
+              type="number"
+              min={300}
+              max={850}
+              value={scoreInput}
+              autoFocus
+              onChange={(e) => setScoreInput(e.target.value)}
+              onBlur={saveScore}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveScore();
+                if (e.key === 'Escape') setEditingScore(false);
+              }}
+              className="w-14 bg-transparent outline-none"
+              aria-label="Credit score"
+            />
+          ) : fact.key === 'creditScore' ? (
+            <button
+              type="button"
+              onClick={() => {
+                setScoreInput(String(profile.creditScore ?? ''));
+                setEditingScore(true);
+              }}
+              className="hover:underline"
+              title="Edit credit score"
+            >
+              {fact.label}
+            </button>
+          ) : (
+            fact.label
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(fact.remove())}
+            className="text-slate-400 hover:text-slate-700"
+            aria-label={`Remove ${fact.label}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { Check, CreditCard, ExternalLink, TrendingUp } from 'lucide-react';
+import { Recommendation } from '@/types';
+import WhyThisCard from '@/components/WhyThisCard';
+
+interface RecommendationCardProps {
+  rec: Recommendation;
+}
+
+/**
+ * Formats a computed dollar estimate, keeping the sign of negative values
+ */
+export function formatDollars(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString()}`;
+}
+
+/**
+ * A recommended card as the cards panel shows it: name and issuer, key benefits, fee and value badges, and the apply link
+ * Has no state, so it renders on the server as well as in the chat UI
+ */
+export default function RecommendationCard({ rec }: RecommendationCardProps) {
+  // Extract issuer from card name (usually first word)
+  const cardNameParts = rec.credit_card_name.split(' ');
+  const issuer = cardNameParts[0];
+  const cardName = cardNameParts.slice(1).join(' ') || rec.credit_card_name;
+
+  // Parse benefits from reason, perks, or rewards_rate
+  const parseBenefits = (): string[] => {
+    const benefits: string[] = [];
+
+    // Add rewards rate as a benefit if available
+    if (rec.rewards_rate && !rec.rewards_rate.toLowerCase().includes('apr')) {
+      benefits.push(rec.rewards_rate);
+    }
+
+    // Parse perks if available
+    if (rec.perks) {
+      const perkList = rec.perks
+        .split(/[.,;]/)
+        .map(p => p.trim())
+        .filter(p => p.length > 10 && p.length < 100); // Reasonable length
+      benefits.push(...perkList);
+    }
+
+    // Parse reason for key benefits
+    if (rec.reason && benefits.length < 4) {
+      const reasonBenefits = rec.reason
+        .split(/[.,;]/)
+        .map(r => r.trim())
+        .filter(r => {
+          const lower = r.toLowerCase();
+          return r.length > 15 && 
+                 r.length < 100 &&
+                 !lower.includes('annual fee') &&
+                 !lower.includes('credit score') &&
+                 (lower.includes('points') || 
+                  lower.includes('cash back') || 
+                  lower.includes('rewards') ||
+                  lower.includes('travel') ||
+                  lower.includes('perk') ||
+                  lower.includes('benefit'));
+        });
+      benefits.push(...reasonBenefits);
+    }
+
+    return benefits.slice(0, 4); // Limit to 4 benefits
+  };
+
+  const benefits = parseBenefits();
+
+  return (
+    <div
+      className="bg-gradient-to-br from-card to-blue-50 rounded-xl border border-border shadow-md hover:shadow-lg transition-all duration-300 p-6 flex flex-col group hover:-translate-y-1 space-y-4"
+    >
+      {/* Header Section */}
+      <div className="flex items-start gap-3">
+        {/* Card Icon */}
+        <div className="w-16 h-10 rounded bg-gradient-to-br from-primary/10 to-primary/5 border border-border flex-shrink-0 flex items-center justify-center">
+          <CreditCard className="w-5 h-5 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          {/* Card Name */}
+          <h3 className="text-lg font-semibold text-foreground group-hover:text-primary transition-colors leading-tight mb-1">
+            <a 
+              href={rec.apply_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:underline cursor-pointer"
+            >
+              {cardName}
+            </a>
+          </h3>
+          {/* Issuer */}
+          <p className="text-sm text-muted-foreground">{issuer}</p>
+        </div>
+      </div>
+
+      {/* Benefits Section */}
+      {benefits.length > 0 && (
+        <div className="space-y-2">
+          {benefits.map((benefit, idx) => (
+            <div key={idx} className="flex items-start gap-2">
+              <Check className="w-4 h-4 text-success flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-foreground leading-relaxed">{benefit}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Footer Section */}
+      <div className="border-t border-border pt-4 space-y-3">
+        {/* Badges */}
+        <div className="flex flex-wrap gap-2">
+          {rec.annual_fee && (
+            <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-secondary text-secondary-foreground">
+              {rec.annual_fee}
+            </span>
+          )}
+          {rec.estimated_annual_value !== undefined && (
+            <span
+              className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-teal-50 border border-teal-200 text-teal-700"
+              title="Estimated from the spending you described"
+            >
+              <TrendingUp className="w-3 h-3" />
+              {formatDollars(rec.estimated_first_year_value ?? rec.estimated_annual_value)} yr 1 · {formatDollars(rec.estimated_annual_value)}/yr
+            </span>
+          )}
+        </div>
+
+        {/* Retrieval details */}
+        {rec.explanation && <WhyThisCard explanation={rec.explanation} />}
+
+        {/* CTA Button */}
+        <a
+          href={rec.apply_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="w-full flex items-center justify-center px-4 py-2.5 text-sm font-medium border border-border rounded-lg bg-transparent text-foreground hover:bg-primary hover:text-primary-foreground transition-all duration-300 group-hover:border-primary"
+        >
+          Learn More
+          <ExternalLink className="w-4 h-4 ml-2" />
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Info } from 'lucide-react';
+import { RecommendationExplanation } from '@/types';
+
+interface WhyThisCardProps {
+  explanation: RecommendationExplanation;
+  className?: string;
+}
+
+/**
+ * Catalog column names as readers know them ("rewards_rate" -> "Rewards rate")
+ */
+function fieldLabel(field: string): string {
+  const words = field.replace(/[_-]+/g, ' ').trim();
+  return words ? words[0].toUpperCase() + words.slice(1) : field;
+}
+
+/**
+ * Collapsible "Why this card?" panel built from the ranking details the API returns with each card
+ */
+export default function WhyThisCard({ explanation, className = '' }: WhyThisCardProps) {
+  const [open, setOpen] = useState(false);
+
+  const searchedBy = [
+    explanation.vectorRank !== null ? `#${explanation.vectorRank} by meaning` : null,
+    explanation.keywordRank !== null ? `#${explanation.keywordRank} by keywords` : null,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className={`text-xs ${className}`}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center gap-1 text-slate-500 hover:text-teal-700 transition-colors"
+        aria-expanded={open}
+      >
+        <Info className="w-3.5 h-3.5" />
+        Why this card?
+        {open ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+      </button>
+
+      {open && (
+        <dl className="mt-2 space-y-1.5 rounded-lg bg-slate-50 border border-slate-200 p-3 text-slate-600">
+          <div className="flex justify-between gap-2">
+            <dt className="font-medium text-slate-500">Candidate rank</dt>
+            <dd className="text-right">
+              {explanation.candidateRank} of {explanation.candidateCount}
+              {explanation.rankedBy === 'value' ? ' by value for your spending' : ' by relevance'}
+            </dd>
+          </div>
+
+          {explanation.similarity !== null && (
+            <div className="flex justify-between gap-2">
+              <dt className="font-medium text-slate-500">Similarity</dt>
+              <dd className="text-right">{explanation.similarity.toFixed(2)}</dd>
+            </div>
+          )}
+
+          {searchedBy && (
+            <div className="flex justify-between gap-2">
+              <dt className="font-medium text-slate-500">Search</dt>
+              <dd className="text-right">{searchedBy}</dd>
+            </div>
+          )}
+
+          {explanation.satisfiedConstraints.length > 0 && (
+            <div>
+              <dt className="font-medium text-slate-500">Requirements met</dt>
+              <dd>{explanation.satisfiedConstraints.join(', ')}</dd>
+            </div>
+          )}
+
+          {explanation.matchedFields.length > 0 && (
+            <div>
+              <dt className="font-medium text-slate-500">Matched your question</dt>
+              <dd>
+                <ul className="space-y-0.5">
+                  {explanation.matchedFields.map((match) => (
+                    <li key={match.field}>
+                      <span className="text-slate-500">{fieldLabel(match.field)}:</span> {match.terms.join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              </dd>
+            </div>
+          )}
+        </dl>
+      )}
+    </div>
+  );
+}
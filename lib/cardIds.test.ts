@@ -0,0 +1,36 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CardRecord, CreditCard } from '@/types';
+
+// The alias file path is read when the module loads, so it is set before the import
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'card-aliases-'));
+process.env.CARD_ALIASES_FILE = path.join(tempDir, 'card-aliases.json');
+
+type CardIds = typeof import('./cardIds');
+
+function record(id: string, name: string, url: string): CardRecord {
+  return { card: { id, credit_card_name: name, url_application: url } as CreditCard, normalized: {} as CardRecord['normalized'], raw: {}, parseErrors: [] };
+}
+
+describe('resolveCardId', () => {
+  after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+  it('resolves an id saved before a rename to the new id', async () => {
+    const { resolveCardId, updateAliasMap }: CardIds = await import('./cardIds');
+    const other = record('citi-double-cash-card', 'Citi Double Cash® Card', 'https://example.com/double-cash');
+    updateAliasMap([record('chase-sapphire-preferred', 'Chase Sapphire Preferred', 'https://example.com/csp'), other]);
+
+    // Same application URL under a new name and id
+    const renamed = [record('chase-sapphire-preferred-card', 'Chase Sapphire Preferred® Card', 'https://example.com/csp'), other];
+    updateAliasMap(renamed);
+
+    assert.equal(resolveCardId('chase-sapphire-preferred', renamed), 'chase-sapphire-preferred-card');
+    assert.equal(resolveCardId('Chase Sapphire Preferred', renamed), 'chase-sapphire-preferred-card');
+    assert.equal(resolveCardId('citi-double-cash-card', renamed), 'citi-double-cash-card');
+    assert.equal(resolveCardId('retired-card', renamed), null);
+    assert.ok(fs.existsSync(process.env.CARD_ALIASES_FILE!));
+  });
+});
@@ -0,0 +1,153 @@
+import { CardRecord } from '@/types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ALIASES_FILE = path.resolve(process.cwd(), process.env.CARD_ALIASES_FILE || path.join('data', 'card-aliases.json'));
+
+/**
+ * Persisted alias map
+ * `aliases` maps retired ids and card names to the current id
+ * `known` remembers the last name/URL seen for each id so renames can be detected
+ */
+export interface CardAliasMap {
+  aliases: Record<string, string>;
+  known: Record<string, { name: string; url: string }>;
+  updatedAt: string;
+}
+
+/**
+ * Two or more rows that produced the same id
+ */
+export interface IdCollision {
+  id: string;
+  cardNames: string[];
+  rowNumbers: number[];
+  explicit: boolean; // True if the id came from the id column rather than the name
+  assignedIds: string[]; // Ids given to each row after disambiguation
+}
+
+/**
+ * In-memory cache for the alias map
+ */
+let cachedAliasMap: CardAliasMap | null = null;
+
+/**
+ * Generates an id from a card name
+ */
+export function slugifyCardName(name: string): string {
+  return String(name)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Normalizes a name or id for alias lookups
+ */
+function aliasKey(value: string): string {
+  return slugifyCardName(value.replace(/[®™©]/g, ''));
+}
+
+/**
+ * Loads the alias map from disk
+ */
+export function loadAliasMap(): CardAliasMap {
+  if (cachedAliasMap) {
+    return cachedAliasMap;
+  }
+
+  if (fs.existsSync(ALIASES_FILE)) {
+    try {
+      cachedAliasMap = JSON.parse(fs.readFileSync(ALIASES_FILE, 'utf-8')) as CardAliasMap;
+      return cachedAliasMap;
+    } catch (error) {
+      console.warn('Failed to load card aliases from disk:', error);
+    }
+  }
+
+  cachedAliasMap = { aliases: {}, known: {}, updatedAt: new Date().toISOString() };
+  return cachedAliasMap;
+}
+
+/**
+ * Records the current catalog in the alias map
+ * Every card's name maps to its id, and an id that disappeared while another id
+ * took over its application URL is treated as a rename
+ */
+export function updateAliasMap(records: CardRecord[]): CardAliasMap {
+  const previous = loadAliasMap();
+  const aliases = { ...previous.aliases };
+  const known: CardAliasMap['known'] = {};
+  const currentIds = new Set(records.map(record => record.card.id));
+  const idsByUrl = new Map(records.map(record => [String(record.card.url_application).trim(), record.card.id]));
+
+  for (const record of records) {
+    const { id, credit_card_name, url_application } = record.card;
+    aliases[aliasKey(credit_card_name)] = id;
+    known[id] = { name: credit_card_name, url: String(url_application).trim() };
+  }
+
+  for (const [oldId, info] of Object.entries(previous.known)) {
+    if (currentIds.has(oldId)) continue;
+    const renamedTo = idsByUrl.get(info.url);
+    if (renamedTo) {
+      console.log(`Card id ${oldId} appears to have been renamed to ${renamedTo}`);
+      aliases[oldId] = renamedTo;
+      aliases[aliasKey(info.name)] = renamedTo;
+    }
+    // Keep retired cards around so a later rename can still be resolved
+    if (!known[oldId]) {
+      known[oldId] = info;
+    }
+  }
+
+  // Re-point chains (a -> b, b -> c) at the final id, and drop aliases to themselves
+  for (const key of Object.keys(aliases)) {
+    let target = aliases[key];
+    const seen = new Set<string>([key]);
+    while (aliases[target] && aliases[target] !== target && !seen.has(target)) {
+      seen.add(target);
+      target = aliases[target];
+    }
+    if (key === target) {
+      delete aliases[key];
+    } else {
+      aliases[key] = target;
+    }
+  }
+
+  const updated: CardAliasMap = { aliases, known, updatedAt: new Date().toISOString() };
+
+  try {
+    const dataDir = path.dirname(ALIASES_FILE);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    fs.writeFileSync(ALIASES_FILE, JSON.stringify(updated, null, 2));
+  } catch (error) {
+    console.warn('Could not save card aliases to disk:', error);
+  }
+
+  cachedAliasMap = updated;
+  return updated;
+}
+
+/**
+ * Resolves a current id, retired id or card name to the current card id
+ * Returns null if nothing matches
+ */
+export function resolveCardId(idOrName: string, records: CardRecord[]): string | null {
+  const currentIds = new Set(records.map(record => record.card.id));
+  if (currentIds.has(idOrName)) {
+    return idOrName;
+  }
+
+  const aliasMap = loadAliasMap();
+  const key = aliasKey(idOrName);
+  const aliased = aliasMap.aliases[idOrName] || aliasMap.aliases[key];
+  if (aliased && currentIds.has(aliased)) {
+    return aliased;
+  }
+
+  return currentIds.has(key) ? key : null;
+}
@@ -0,0 +1,157 @@
+import Papa from 'papaparse';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A raw catalog row keyed by column name
+ */
+export type CardRow = Record<string, string>;
+
+/**
+ * Where the card catalog is read from
+ * Every adapter returns the same row shape so parsing does not care about the backend
+ */
+export interface CardSource {
+  name: string;
+  loadRows(): Promise<CardRow[]>;
+}
+
+export type CardSourceType = 'google-sheet' | 'csv' | 'json' | 'sqlite';
+
+/**
+ * Configuration for the catalog source
+ */
+const CARD_SOURCE = (process.env.CARD_SOURCE || 'google-sheet') as CardSourceType;
+const CARD_SOURCE_PATH = process.env.CARD_SOURCE_PATH || '';
+const CARD_SOURCE_TABLE = process.env.CARD_SOURCE_TABLE || 'cards';
+const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID || '19ioGC8Oj8ej7QP_MG87FyMuAC3AdgGwRrEuKk5wZHZI';
+
+/**
+ * Fixture catalog used when a file source is selected without a path
+ */
+const FIXTURE_CSV = path.join(process.cwd(), 'data', 'fixtures', 'cards.csv');
+
+/**
+ * Converts any cell value to the string form the CSV export would produce
+ */
+function toRow(record: Record<string, unknown>): CardRow {
+  const row: CardRow = {};
+  for (const [key, value] of Object.entries(record)) {
+    row[key] = value === null || value === undefined ? '' : String(value);
+  }
+  return row;
+}
+
+/**
+ * Parses CSV text with a header row into catalog rows
+ */
+export function parseCSVRows(csvText: string): CardRow[] {
+  const parsed = Papa.parse<CardRow>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+  });
+
+  return parsed.data || [];
+}
+
+/**
+ * Reads the catalog from a public Google Sheet's CSV export
+ */
+export function createGoogleSheetSource(sheetId: string = GOOGLE_SHEET_ID): CardSource {
+  return {
+    name: `google-sheet:${sheetId}`,
+    async loadRows() {
+      const url = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv`;
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch Google Sheet: ${response.statusText}`);
+      }
+
+      return parseCSVRows(await response.text());
+    },
+  };
+}
+
+/**
+ * Reads the catalog from a local CSV file with the same columns as the sheet
+ */
+export function createCsvFileSource(filePath: string): CardSource {
+  return {
+    name: `csv:${filePath}`,
+    async loadRows() {
+      const csvText = await fs.promises.readFile(filePath, 'utf-8');
+      return parseCSVRows(csvText);
+    },
+  };
+}
+
+/**
+ * Reads the catalog from a local JSON file
+ * Accepts either an array of card objects or an object with a `cards` array
+ */
+export function createJsonFileSource(filePath: string): CardSource {
+  return {
+    name: `json:${filePath}`,
+    async loadRows() {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      const parsed = JSON.parse(content);
+      const records = Array.isArray(parsed) ? parsed : parsed?.cards;
+
+      if (!Array.isArray(records)) {
+        throw new Error(`Expected an array of cards in ${filePath}`);
+      }
+
+      return records.map(record => toRow(record));
+    },
+  };
+}
+
+/**
+ * Reads the catalog from a table in a SQLite database
+ * better-sqlite3 is loaded lazily so other sources do not need the native module
+ */
+export function createSqliteSource(filePath: string, table: string = CARD_SOURCE_TABLE): CardSource {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid SQLite table name: ${table}`);
+  }
+
+  return {
+    name: `sqlite:${filePath}#${table}`,
+    async loadRows() {
+      const { default: Database } = await import('better-sqlite3');
+      const db = new Database(filePath, { readonly: true, fileMustExist: true });
+
+      try {
+        const records = db.prepare(`SELECT * FROM ${table}`).all() as Record<string, unknown>[];
+        return records.map(record => toRow(record));
+      } finally {
+        db.close();
+      }
+    },
+  };
+}
+
+/**
+ * Returns the catalog source selected by CARD_SOURCE / CARD_SOURCE_PATH
+ */
+export function getCardSource(): CardSource {
+  switch (CARD_SOURCE) {
+    case 'google-sheet':
+      return createGoogleSheetSource();
+    case 'csv':
+      return createCsvFileSource(CARD_SOURCE_PATH || FIXTURE_CSV);
+    case 'json':
+      if (!CARD_SOURCE_PATH) {
+        throw new Error('CARD_SOURCE_PATH must be set when CARD_SOURCE=json');
+      }
+      return createJsonFileSource(CARD_SOURCE_PATH);
+    case 'sqlite':
+      if (!CARD_SOURCE_PATH) {
+        throw new Error('CARD_SOURCE_PATH must be set when CARD_SOURCE=sqlite');
+      }
+      return createSqliteSource(CARD_SOURCE_PATH);
+    default:
+      throw new Error(`Unknown CARD_SOURCE "${CARD_SOURCE}". Use google-sheet, csv, json or sqlite.`);
+  }
+}
@@ -0,0 +1,107 @@
+import { CardComparison, ComparisonRow, CreditCard, CreditScoreTier } from '@/types';
+import { hasNoForeignTransactionFee } from './constraints';
+import { normalizeCard } from './normalize';
+
+/**
+ * Most cards a comparison holds; more does not fit the table
+ */
+export const MAX_COMPARED_CARDS = 4;
+
+const TIER_ORDER: CreditScoreTier[] = ['limited', 'poor', 'fair', 'good', 'excellent'];
+
+/**
+ * Attributes shown in a comparison, with the column fallbacks used elsewhere for the same data
+ * `rank` returns a number where lower is better, or null when the card cannot be ranked
+ */
+const COMPARED_ATTRIBUTES: Array<{
+  attribute: string;
+  label: string;
+  columns: string[];
+  rank?: (card: CreditCard) => number | null;
+}> = [
+  {
+    attribute: 'annual_fee',
+    label: 'Annual fee',
+    columns: ['annual_fee', 'fee'],
+    rank: card => normalizeCard(card).normalized.annualFee,
+  },
+  { attribute: 'rewards', label: 'Rewards', columns: ['rewards_rate', 'rewards', 'reward_rate'] },
+  { attribute: 'points_multipliers', label: 'Earn rates', columns: ['points_multipliers'] },
+  { attribute: 'intro_offer', label: 'Intro offer', columns: ['intro_offer', 'welcome_bonus', 'sign_up_bonus', 'intro_bonus'] },
+  { attribute: 'perks', label: 'Perks', columns: ['perks', 'benefits', 'card_perks'] },
+  {
+    attribute: 'credit_score',
+    label: 'Credit score needed',
+    columns: ['credit_score_needed', 'credit_score', 'min_credit_score', 'credit_score_required'],
+    rank: card => {
+      const { minCreditScore, creditScoreTier } = normalizeCard(card).normalized;
+      if (minCreditScore !== null) return minCreditScore;
+      const tierRank = TIER_ORDER.indexOf(creditScoreTier);
+      // Place tiers on the score scale so cards with and without numbers compare
+      return tierRank === -1 ? null : 300 + tierRank * 100;
+    },
+  },
+  { attribute: 'intro_apr', label: 'Intro APR', columns: ['intro_apr'] },
+  { attribute: 'apr', label: 'Regular APR', columns: ['apr', 'regular_apr', 'purchase_apr'] },
+  {
+    attribute: 'foreign_transaction_fee',
+    label: 'Foreign transaction fee',
+    columns: ['foreign_transaction_fee'],
+    rank: card => (card.foreign_transaction_fee === undefined ? null : hasNoForeignTransactionFee(card) ? 0 : 1),
+  },
+];
+
+function firstValue(card: CreditCard, columns: string[]): string {
+  for (const column of columns) {
+    const value = card[column];
+    if (value !== undefined && value !== null && String(value).trim()) {
+      return String(value).trim();
+    }
+  }
+  return '';
+}
+
+/**
+ * Indices of the lowest-ranked cards, or undefined when the attribute does not separate them
+ */
+function findBest(cards: CreditCard[], rank: (card: CreditCard) => number | null): number[] | undefined {
+  const ranks = cards.map(rank);
+  const known = ranks.filter((value): value is number => value !== null);
+  if (known.length < 2) return undefined;
+
+  const min = Math.min(...known);
+  if (known.every(value => value === min)) return undefined;
+
+  return ranks.flatMap((value, index) => (value === min ? [index] : []));
+}
+
+/**
+ * Builds an attribute-by-attribute comparison; attributes no card has are left out
+ */
+export function buildComparison(cards: CreditCard[], unresolved: string[] = []): CardComparison {
+  const compared = cards.slice(0, MAX_COMPARED_CARDS);
+  const rows: ComparisonRow[] = [];
+
+  for (const { attribute, label, columns, rank } of COMPARED_ATTRIBUTES) {
+    const values = compared.map(card => firstValue(card, columns));
+    if (values.every(value => !value)) continue;
+
+    const best = rank ? findBest(compared, rank) : undefined;
+    rows.push({
+      attribute,
+      label,
+      values: values.map(value => value || '—'),
+      ...(best ? { best } : {}),
+    });
+  }
+
+  return {
+    cards: compared.map(card => ({
+      id: card.id,
+      credit_card_name: card.credit_card_name,
+      apply_url: String(card.url_application || ''),
+    })),
+    rows,
+    unresolved,
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractConstraints } from './constraints';
+
+function labels(query: string): string[] {
+  return extractConstraints(query).map(constraint => constraint.label);
+}
+
+describe('extractConstraints', () => {
+  describe('issuers', () => {
+    const cases: Array<{ query: string; expected: string[] }> = [
+      { query: 'Show me Chase cards', expected: ['Issued by Chase'] },
+      { query: 'I want an Amex card for dining', expected: ['Issued by American Express'] },
+      { query: 'Chase or Citi cards with no foreign fees', expected: ['Issued by Chase', 'Issued by Citi', 'No foreign transaction fee'] },
+      { query: 'Travel cards only from Capital One', expected: ['Issued by Capital One'] },
+      { query: 'Best travel card, but not Chase', expected: ['Not Chase'] },
+      { query: 'non-Amex travel card', expected: ['Not American Express'] },
+      { query: "I'd rather not get a Capital One card", expected: ['Not Capital One'] },
+      { query: 'I have an Amex card, what else should I get?', expected: [] },
+      { query: 'I already own a Chase card. What pairs well with it?', expected: [] },
+      { query: 'I have a card from Citi, recommend something for groceries', expected: [] },
+      { query: 'I hold a Chase card and want Amex cards', expected: ['Issued by American Express'] },
+    ];
+
+    for (const { query, expected } of cases) {
+      it(`parses "${query}"`, () => {
+        assert.deepEqual(labels(query).filter(label => /Issued by|^Not |foreign/.test(label)), expected);
+      });
+    }
+  });
+
+  describe('card types', () => {
+    const cases: Array<{ query: string; expected: string[] }> = [
+      { query: 'Show me student cards', expected: ['Student card'] },
+      { query: 'Not interested in student cards', expected: ['Not a student card'] },
+      { query: 'No interest in business cards, something for dining', expected: ['Not a business card'] },
+      { query: 'I would rather not have a secured card', expected: ['Not a secured card'] },
+      { query: 'A non-business card for travel', expected: ['Not a business card'] },
+    ];
+
+    for (const { query, expected } of cases) {
+      it(`parses "${query}"`, () => {
+        assert.deepEqual(labels(query).filter(label => /student|business|secured/i.test(label)), expected);
+      });
+    }
+  });
+
+  describe('annual fee', () => {
+    const cases: Array<{ query: string; expected: string[] }> = [
+      { query: 'Cash back card with no annual fee', expected: ['No annual fee'] },
+      { query: 'A $0 annual fee card for groceries', expected: ['No annual fee'] },
+      { query: 'Travel card with no annual fee the first year', expected: [] },
+      { query: 'No annual fee for the 1st year is fine', expected: [] },
+      { query: 'Something with the annual fee waived first year, no annual fee intro', expected: [] },
+      { query: 'No annual fee, and a bonus in the first year', expected: ['No annual fee'] },
+      { query: 'Annual fee under $100', expected: ['Annual fee of $100 or less'] },
+    ];
+
+    for (const { query, expected } of cases) {
+      it(`parses "${query}"`, () => {
+        assert.deepEqual(labels(query).filter(label => /annual fee/i.test(label)), expected);
+      });
+    }
+  });
+});
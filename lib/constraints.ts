@@ -0,0 +1,288 @@
+import { CardConstraint, CardNetwork, CardType, ConversationMessage, CreditCard, CreditScoreTier, NormalizedCard } from '@/types';
+import { KNOWN_ISSUERS, normalizeCard, scoreToTier } from './normalize';
+
+/**
+ * Words that turn a following issuer, network or card type into an exclusion
+ */
+const NEGATION = String.raw`(?:(?:not|no|except|excluding|other than|without|avoid|anything but|don'?t want|do not want|don'?t like|do not like|not interested in|no interest in|(?:i'?d\s+|would\s+)?rather not(?:\s+(?:have|get|use))?)\s+|non-?\s*)(?:an?\s+|any\s+)?`;
+
+/**
+ * Verbs that make a following "<issuer> card" a request rather than a mention
+ */
+const REQUEST = String.raw`(?:want|need|get|find|show(?:\s+me)?|recommend|suggest|looking\s+for|prefer|apply\s+for|interested\s+in|considering)\s+(?:me\s+)?(?:an?\s+|some\s+|any\s+|the\s+|other\s+)?(?:good\s+|best\s+|top\s+|new\s+)?`;
+
+/**
+ * A card the user already holds ("I have an Amex card") is context, not a request
+ */
+const HELD = /\b(have|own|hold|got|carry)\s+(?:\S+\s+){0,3}$/i;
+
+/**
+ * Qualifiers that make a no-fee phrase about the first year only ("no annual fee the first year")
+ */
+const FIRST_YEAR_ONLY = /\b(first|1st)\s+year\b|\byear\s+one\b|\bintro(ductory)?\b|\bwaived\b/i;
+
+/**
+ * Credit tiers from most to least lenient, used to compare a user's tier with a card's requirement
+ */
+const TIER_ORDER: CreditScoreTier[] = ['limited', 'poor', 'fair', 'good', 'excellent'];
+
+/**
+ * Phrases stating the user's credit; `credit` must not be followed by "card" ("a good credit card")
+ */
+const CREDIT_PHRASES: Array<{ tier: CreditScoreTier; pattern: RegExp }> = [
+  { tier: 'limited', pattern: /\b(no|limited|thin)\s+credit(\s+history)?\b(?!\s*cards?)|\bnew to credit\b|\b(re)?build(ing)?\s+(my\s+)?credit\b(?!\s*cards?)|\bfirst credit card\b/i },
+  { tier: 'poor', pattern: /\b(bad|poor)\s+credit\b(?!\s*cards?)/i },
+  { tier: 'fair', pattern: /\b(fair|average|okay|ok|decent)\s+credit\b(?!\s*cards?)/i },
+  { tier: 'good', pattern: /\bgood\s+credit\b(?!\s*cards?)/i },
+  { tier: 'excellent', pattern: /\b(excellent|great|exceptional|perfect)\s+credit\b(?!\s*cards?)/i },
+];
+
+const CARD_TYPE_PATTERNS: Record<CardType, { wants: RegExp; excludes: RegExp; card: RegExp }> = {
+  business: {
+    wants: /\bbusiness\s+(credit\s+)?cards?\b|(?<!travel\s)\bfor\s+(my\s+)?(small\s+)?business\b(?!\s+(travel|trips?))|\bsmall business\b|\bmy company\b|\bllc\b|\bself[- ]employed\b/i,
+    excludes: new RegExp(`\\b${NEGATION}business\\b|\\bpersonal\\s+(use|card)\\b`, 'i'),
+    card: /\bbusiness\b|\bink\b/i,
+  },
+  student: {
+    wants: /\bstudent\s+(credit\s+)?cards?\b/i,
+    excludes: new RegExp(`\\b${NEGATION}student\\b`, 'i'),
+    card: /\bstudents?\b|\bcollege\b/i,
+  },
+  secured: {
+    wants: /\bsecured\s+(credit\s+)?cards?\b/i,
+    excludes: new RegExp(`\\b${NEGATION}secured\\b|\\bunsecured\\b`, 'i'),
+    card: /\bsecured\b|security deposit/i,
+  },
+};
+
+const NETWORK_PATTERNS: Array<{ network: CardNetwork; label: string; source: string }> = [
+  { network: 'visa', label: 'Visa', source: String.raw`visa` },
+  { network: 'mastercard', label: 'Mastercard', source: String.raw`master\s?card` },
+];
+
+/**
+ * Normalized fields per card object, so filtering a catalog parses each card once
+ */
+const normalizedCache = new WeakMap<CreditCard, NormalizedCard>();
+
+function getNormalized(card: CreditCard): NormalizedCard {
+  let normalized = normalizedCache.get(card);
+  if (!normalized) {
+    normalized = normalizeCard(card).normalized;
+    normalizedCache.set(card, normalized);
+  }
+  return normalized;
+}
+
+/**
+ * Returns true if the card states it has no foreign transaction fee
+ */
+export function hasNoForeignTransactionFee(card: CreditCard): boolean {
+  const value = String(card.foreign_transaction_fee ?? '').trim();
+  return /^(none|no|n\/a|\$?0(\.0+)?%?)$/i.test(value);
+}
+
+/**
+ * Builds the credit constraint for a stated score, or for a described tier when there is no score
+ */
+export function creditConstraint(tier: CreditScoreTier, score?: number): CardConstraint {
+  if (score !== undefined) {
+    return { kind: 'credit_tier', value: scoreToTier(score), score, label: `Credit score around ${score}` };
+  }
+  const label = tier === 'limited' ? 'Limited or no credit history' : `${tier[0].toUpperCase()}${tier.slice(1)} credit`;
+  return { kind: 'credit_tier', value: tier, label };
+}
+
+/**
+ * The clause of a message containing a match, bounded by sentence punctuation
+ */
+function clauseAround(text: string, index: number, length: number): string {
+  const before = text.slice(0, index).split(/[.,;!?]/).pop() || '';
+  const after = text.slice(index + length).split(/[.,;!?]/)[0];
+  return `${before}${text.slice(index, index + length)}${after}`;
+}
+
+/**
+ * Constraints stated in a single message
+ * Returns the constraints plus the kinds the message explicitly lifts ("an annual fee is fine")
+ */
+function parseMessage(text: string): { constraints: CardConstraint[]; lifted: CardConstraint['kind'][] } {
+  const constraints: CardConstraint[] = [];
+  const lifted: CardConstraint['kind'][] = [];
+
+  // Annual fee: a fee waived only for the first year is not a $0 fee
+  const noFee = /(\b(no|zero|without(\s+an?)?)|\$0)\s+annual\s+fees?\b|\bno[- ]fee\b|\bannual[- ]fee[- ]free\b/i.exec(text);
+  if (noFee && !FIRST_YEAR_ONLY.test(clauseAround(text, noFee.index, noFee[0].length))) {
+    constraints.push({ kind: 'max_annual_fee', value: 0, label: 'No annual fee' });
+  } else {
+    const match =
+      text.match(/\bannual\s+fee\s+(?:under|below|less than|at most|up to|no more than|of at most|<)\s*\$?(\d[\d,]*)/i) ||
+      text.match(/\b(?:under|below|less than|at most|up to|no more than)\s*\$?(\d[\d,]*)\s+(?:an?\s+)?(?:annual|yearly)\s+fee/i);
+    if (match) {
+      const value = parseInt(match[1].replace(/,/g, ''), 10);
+      constraints.push({ kind: 'max_annual_fee', value, label: `Annual fee of $${value} or less` });
+    } else if (/\b(annual fee is (fine|ok|okay)|(don'?t|do not) mind (an?|paying an?)\s+(annual\s+)?fee|(happy|willing) to pay an? annual fee)\b/i.test(text)) {
+      lifted.push('max_annual_fee');
+    }
+  }
+
+  // Credit: an explicit score wins over a described tier
+  const scoreMatch =
+    text.match(/\b(?:credit\s+)?score\s+(?:is\s+|of\s+)?(?:around\s+|about\s+|~)?([3-8]\d{2})\b/i) ||
+    text.match(/\b([3-8]\d{2})\s+(?:credit\s+)?score\b/i);
+  if (scoreMatch) {
+    const score = parseInt(scoreMatch[1], 10);
+    constraints.push(creditConstraint(scoreToTier(score), score));
+  } else {
+    const phrase = CREDIT_PHRASES.find(({ pattern }) => pattern.test(text));
+    if (phrase) {
+      constraints.push(creditConstraint(phrase.tier));
+    }
+  }
+
+  // Card type
+  for (const [type, patterns] of Object.entries(CARD_TYPE_PATTERNS) as Array<[CardType, typeof CARD_TYPE_PATTERNS[CardType]]>) {
+    if (patterns.excludes.test(text)) {
+      constraints.push({ kind: 'card_type', value: type, exclude: true, label: `Not a ${type} card` });
+    } else if (patterns.wants.test(text)) {
+      constraints.push({ kind: 'card_type', value: type, exclude: false, label: `${type[0].toUpperCase()}${type.slice(1)} card` });
+    }
+  }
+
+  // Issuers: excluded when negated, required only when asked for: "<request verb> <issuer> card(s)" (also
+  // "<issuer> or <issuer> cards"), a message opening with "<issuer> cards", or "only/from/by <issuer>"
+  // A card the user says they have ("I have an Amex card") never becomes a requirement
+  for (const { name, pattern } of KNOWN_ISSUERS) {
+    const negated = new RegExp(`\\b${NEGATION}${pattern.source}`, 'i');
+    const issuerCards = `(?:[a-z.]+(?:\\s+[a-z.]+)?\\s*(?:,|or|and)\\s*)*${pattern.source}(?:\\s*(?:,|or|and)\\s*[a-z.]+(?:\\s+[a-z.]+)?)*\\s+(?:credit\\s+)?cards?\\b`;
+    const wanted = new RegExp(
+      `\\b${REQUEST}${issuerCards}|^\\s*(?:the\\s+)?(?:best\\s+|top\\s+)?${issuerCards}|\\b(?:only|from|by|issued by)\\s+${pattern.source}`,
+      'gi'
+    );
+    if (negated.test(text)) {
+      constraints.push({ kind: 'issuer', value: name, exclude: true, label: `Not ${name}` });
+    } else if (Array.from(text.matchAll(wanted)).some(match => !HELD.test(text.slice(0, match.index)))) {
+      constraints.push({ kind: 'issuer', value: name, exclude: false, label: `Issued by ${name}` });
+    }
+  }
+
+  // Networks
+  for (const { network, label, source } of NETWORK_PATTERNS) {
+    if (new RegExp(`\\b${NEGATION}${source}\\b`, 'i').test(text)) {
+      constraints.push({ kind: 'network', value: network, exclude: true, label: `Not ${label}` });
+    } else if (new RegExp(`\\b${source}\\s+(?:credit\\s+)?cards?\\b|\\bonly\\s+${source}\\b`, 'i').test(text)) {
+      constraints.push({ kind: 'network', value: network, exclude: false, label: `${label} network` });
+    }
+  }
+
+  // Foreign transaction fee
+  if (/\b(no|zero|without|\$0)\s+(foreign\s+)?(transaction|fx)\s+fees?\b|\bno\s+foreign\s+fees?\b/i.test(text)) {
+    constraints.push({ kind: 'no_foreign_transaction_fee', label: 'No foreign transaction fee' });
+  }
+
+  return { constraints, lifted };
+}
+
+/**
+ * Key under which a constraint replaces earlier ones; single-valued kinds share one key
+ */
+function constraintKey(constraint: CardConstraint): string {
+  switch (constraint.kind) {
+    case 'card_type':
+    case 'issuer':
+    case 'network':
+    case 'card_held':
+      return `${constraint.kind}:${constraint.value}`;
+    default:
+      return constraint.kind;
+  }
+}
+
+/**
+ * Extracts hard constraints from the user's messages, oldest first
+ * A later message overrides an earlier one for the same field, so a changed budget or credit
+ * description replaces the old one
+ */
+export function extractConstraints(query: string, conversationHistory?: ConversationMessage[]): CardConstraint[] {
+  const messages = [
+    ...(conversationHistory || []).filter(message => message.role === 'user').map(message => message.content),
+    query,
+  ];
+
+  const byKey = new Map<string, CardConstraint>();
+  for (const message of messages) {
+    const { constraints, lifted } = parseMessage(message);
+    for (const kind of lifted) {
+      byKey.delete(kind);
+    }
+    for (const constraint of constraints) {
+      byKey.set(constraintKey(constraint), constraint);
+    }
+  }
+
+  return Array.from(byKey.values());
+}
+
+/**
+ * Returns true if the card satisfies a single constraint
+ * Cards whose data for the field is missing or unparseable are kept rather than silently dropped
+ */
+export function cardSatisfiesConstraint(card: CreditCard, constraint: CardConstraint): boolean {
+  const normalized = getNormalized(card);
+
+  switch (constraint.kind) {
+    case 'max_annual_fee':
+      return normalized.annualFee === null || normalized.annualFee <= constraint.value;
+
+    case 'credit_tier': {
+      if (constraint.score !== undefined && normalized.minCreditScore !== null) {
+        return normalized.minCreditScore <= constraint.score;
+      }
+      const cardRank = TIER_ORDER.indexOf(normalized.creditScoreTier);
+      return cardRank === -1 || cardRank <= TIER_ORDER.indexOf(constraint.value);
+    }
+
+    case 'card_type': {
+      const text = `${card.credit_card_name} ${card.target_consumer || ''} ${card.card_type || ''}`;
+      const isType = CARD_TYPE_PATTERNS[constraint.value].card.test(text);
+      return constraint.exclude ? !isType : isType;
+    }
+
+    case 'issuer': {
+      if (!normalized.issuer) return true;
+      const isIssuer = normalized.issuer === constraint.value;
+      return constraint.exclude ? !isIssuer : isIssuer;
+    }
+
+    case 'network': {
+      if (normalized.network === 'unknown') return true;
+      const isNetwork = normalized.network === constraint.value;
+      return constraint.exclude ? !isNetwork : isNetwork;
+    }
+
+    case 'no_foreign_transaction_fee':
+      return card.foreign_transaction_fee === undefined || hasNoForeignTransactionFee(card);
+
+    case 'card_held':
+      return card.id !== constraint.value;
+  }
+}
+
+/**
+ * Returns true if the card satisfies every constraint
+ * Several required issuers or networks ("Chase or Citi cards") are alternatives, so one match is enough
+ */
+export function cardMatchesConstraints(card: CreditCard, constraints: CardConstraint[]): boolean {
+  const alternatives = new Map<string, boolean>();
+
+  for (const constraint of constraints) {
+    const satisfied = cardSatisfiesConstraint(card, constraint);
+    if ((constraint.kind === 'issuer' || constraint.kind === 'network') && !constraint.exclude) {
+      alternatives.set(constraint.kind, (alternatives.get(constraint.kind) || false) || satisfied);
+    } else if (!satisfied) {
+      return false;
+    }
+  }
+
+  return Array.from(alternatives.values()).every(Boolean);
+}
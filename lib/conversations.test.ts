@@ -0,0 +1,114 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RecommendationsResponse } from '@/types';
+import {
+  conversationContext,
+  ConversationStore,
+  createConversation,
+  createFileConversationStore,
+  createMemoryConversationStore,
+  createOwnerToken,
+  createSqliteConversationStore,
+  getOwnedConversation,
+  listOwnedConversations,
+  recordConversationTurn,
+  setConversationStore,
+} from './conversations';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-'));
+
+const stores: Array<() => ConversationStore> = [
+  () => createMemoryConversationStore(),
+  () => createFileConversationStore(path.join(tempDir, 'files')),
+  () => createSqliteConversationStore(path.join(tempDir, 'conversations.db')),
+];
+
+function answer(summary: string): RecommendationsResponse {
+  return { recommendations: [], summary, rawModelAnswer: summary };
+}
+
+describe('conversations', () => {
+  after(() => {
+    setConversationStore(null);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  for (const createStore of stores) {
+    const store = createStore();
+    const storeType = store.name.split(':')[0];
+
+    it(`keeps every turn recorded concurrently (${storeType})`, async () => {
+      setConversationStore(store);
+      const ownerToken = createOwnerToken();
+      const conversation = await createConversation(ownerToken);
+
+      // Every request loaded the conversation before any of them answered
+      const messages = Array.from({ length: 8 }, (_, i) => `Question ${i + 1}`);
+      await Promise.all(messages.map(message =>
+        recordConversationTurn(conversation, conversationContext(conversation, message, false), message, answer(message), {})
+      ));
+
+      const stored = await getOwnedConversation(conversation.id, ownerToken);
+      assert.deepEqual(stored?.turns.map(turn => turn.message).sort(), [...messages].sort());
+    });
+
+    it(`serves a conversation only to its owner (${storeType})`, async () => {
+      setConversationStore(store);
+      const ownerToken = createOwnerToken();
+      const conversation = await createConversation(ownerToken);
+
+      assert.equal((await getOwnedConversation(conversation.id, ownerToken))?.id, conversation.id);
+      assert.equal(await getOwnedConversation(conversation.id, createOwnerToken()), null);
+      assert.equal(await getOwnedConversation(conversation.id, undefined), null);
+    });
+
+    it(`never lists another owner's conversations (${storeType})`, async () => {
+      setConversationStore(store);
+      const ownerToken = createOwnerToken();
+      const otherToken = createOwnerToken();
+      const first = await createConversation(ownerToken, { title: 'First' });
+      const other = await createConversation(otherToken, { title: 'Other' });
+      const second = await createConversation(ownerToken, { title: 'Second' });
+      await new Promise(resolve => setTimeout(resolve, 5)); // So the turn is stamped after every creation
+      await recordConversationTurn(first, conversationContext(first, 'Later question', false), 'Later question', answer('Later'), {});
+
+      const listed = await listOwnedConversations(ownerToken);
+      assert.deepEqual(listed.map(conversation => conversation.id), [first.id, second.id]);
+      assert.equal(listed[0].turnCount, 1);
+      assert.ok(listed.every(conversation => !('ownerHash' in conversation)));
+      assert.deepEqual((await listOwnedConversations(otherToken)).map(conversation => conversation.id), [other.id]);
+      assert.deepEqual(await listOwnedConversations(undefined), []);
+    });
+  }
+
+  it('reports the turn each answer was stored in', async () => {
+    setConversationStore(createMemoryConversationStore());
+    let conversation = await createConversation(createOwnerToken());
+    const withCards: RecommendationsResponse = { ...answer('Cards'), recommendations: [{ card_id: 'a', credit_card_name: 'A', apply_url: '', reason: '' }] };
+
+    const record = async (message: string, response: RecommendationsResponse, paging = false) => {
+      const recorded = await recordConversationTurn(conversation, conversationContext(conversation, message, paging), message, response, {});
+      conversation = recorded!.conversation;
+      return recorded!.turn;
+    };
+
+    assert.equal(await record('Travel cards', withCards), 0);
+    assert.equal(await record('What is an annual fee?', answer('A yearly charge')), 1);
+    assert.equal(await record('Travel cards', withCards, true), 0); // "Show more" extends the turn it pages
+    assert.equal(await record('Dining cards', withCards), 2);
+  });
+
+  it('does not recreate a conversation deleted before its turn is recorded', async () => {
+    const store = createMemoryConversationStore();
+    setConversationStore(store);
+    const conversation = await createConversation(createOwnerToken());
+    await store.delete(conversation.id);
+
+    const context = conversationContext(conversation, 'Late question', false);
+    assert.equal(await recordConversationTurn(conversation, context, 'Late question', answer('Late'), {}), null);
+    assert.equal(await store.get(conversation.id), null);
+  });
+});
@@ -0,0 +1,489 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Database } from 'better-sqlite3';
+import { Conversation, ConversationMessage, ConversationSummary, ConversationTurn, Recommendation, RecommendationsResponse, UserProfile } from '@/types';
+
+/**
+ * Server-side conversations, so a page refresh does not lose a user's research
+ * The recommendations routes rebuild the history, shown cards and profile from a stored conversation
+ * when a request names one, and append each answer to it
+ * Each conversation belongs to the browser that started it: the routes only serve it to requests carrying
+ * the owner token from the OWNER_COOKIE cookie, whose hash is stored with it
+ */
+
+/**
+ * A conversation as stored, with the hash of its owner's token; never sent to clients
+ */
+export interface StoredConversation extends Conversation {
+  ownerHash: string;
+}
+
+/**
+ * Where conversations are kept
+ * Every store reads and writes whole conversations, so the routes do not care about the backend
+ * `update` applies a change to the latest stored version with no other write to that id in between,
+ * so concurrent turns are never lost; it resolves null when the conversation no longer exists
+ */
+export interface ConversationStore {
+  name: string;
+  get(id: string): Promise<StoredConversation | null>;
+  list(ownerHash: string): Promise<ConversationSummary[]>; // Only that owner's, most recently updated first
+  save(conversation: StoredConversation): Promise<void>;
+  update(id: string, change: (current: StoredConversation) => StoredConversation): Promise<StoredConversation | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type ConversationStoreType = 'file' | 'sqlite' | 'memory';
+
+/**
+ * Configuration for the conversation store
+ */
+const CONVERSATION_STORE = (process.env.CONVERSATION_STORE || 'file') as ConversationStoreType;
+const CONVERSATION_STORE_PATH = process.env.CONVERSATION_STORE_PATH || '';
+const DEFAULT_CONVERSATIONS_DIR = path.join(process.cwd(), 'data', 'conversations');
+const DEFAULT_CONVERSATIONS_DB = path.join(process.cwd(), 'data', 'conversations.db');
+
+/**
+ * Title until the first question names the conversation, and the longest title taken from a question
+ */
+const UNTITLED = 'New conversation';
+const TITLE_LENGTH = 60;
+
+const CONVERSATION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * httpOnly cookie holding the owner token; one token covers every conversation a browser starts
+ */
+export const OWNER_COOKIE = 'conversation_owner';
+const OWNER_TOKEN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * True for ids this module hands out; anything else is rejected before it reaches a file path or query
+ */
+export function isConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID.test(id);
+}
+
+export function isOwnerToken(token: unknown): token is string {
+  return typeof token === 'string' && OWNER_TOKEN.test(token);
+}
+
+/**
+ * A new owner token: 32 random bytes, base64url
+ */
+export function createOwnerToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function hashOwnerToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isOwnedBy(conversation: StoredConversation, token: string | undefined): boolean {
+  if (!isOwnerToken(token) || typeof conversation.ownerHash !== 'string') return false;
+  const expected = Buffer.from(conversation.ownerHash, 'hex');
+  const actual = Buffer.from(hashOwnerToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * The conversation as clients see it, without the owner hash
+ */
+export function toConversation(stored: StoredConversation): Conversation {
+  const { ownerHash: _ownerHash, ...conversation } = stored;
+  return conversation;
+}
+
+function summarize(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    turnCount: conversation.turns.length,
+  };
+}
+
+function byUpdatedAt(a: ConversationSummary, b: ConversationSummary): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+/**
+ * Runs tasks for the same id one after another, in the order they were queued
+ */
+function createIdQueue(): <T>(id: string, task: () => Promise<T>) => Promise<T> {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const result = (tails.get(id) || Promise.resolve()).then(task);
+    const tail = result.catch(() => undefined);
+    tails.set(id, tail);
+    tail.then(() => {
+      if (tails.get(id) === tail) tails.delete(id);
+    });
+    return result;
+  };
+}
+
+/**
+ * Keeps conversations in memory; for tests and read-only deployments, where nothing survives a restart
+ */
+export function createMemoryConversationStore(): ConversationStore {
+  const conversations = new Map<string, string>();
+
+  return {
+    name: 'memory',
+    async get(id) {
+      const stored = conversations.get(id);
+      return stored ? JSON.parse(stored) : null;
+    },
+    async list(ownerHash) {
+      return Array.from(conversations.values(), stored => JSON.parse(stored) as StoredConversation)
+        .filter(conversation => conversation.ownerHash === ownerHash)
+        .map(summarize)
+        .sort(byUpdatedAt);
+    },
+    async save(conversation) {
+      conversations.set(conversation.id, JSON.stringify(conversation));
+    },
+    async update(id, change) {
+      // Read, change and write happen in one synchronous step, so nothing can interleave
+      const stored = conversations.get(id);
+      if (!stored) return null;
+      const updated = change(JSON.parse(stored));
+      conversations.set(id, JSON.stringify(updated));
+      return updated;
+    },
+    async delete(id) {
+      return conversations.delete(id);
+    },
+  };
+}
+
+/**
+ * Keeps each conversation in its own JSON file
+ */
+export function createFileConversationStore(dir: string): ConversationStore {
+  const fileFor = (id: string) => path.join(dir, `${id}.json`);
+  const queue = createIdQueue();
+
+  const read = async (file: string): Promise<StoredConversation | null> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  // Written beside the file and renamed, so a crash never leaves half a conversation
+  const write = async (conversation: StoredConversation): Promise<void> => {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const file = fileFor(conversation.id);
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(conversation, null, 2));
+    await fs.promises.rename(`${file}.tmp`, file);
+  };
+
+  return {
+    name: `file:${dir}`,
+    async get(id) {
+      return isConversationId(id) ? read(fileFor(id)) : null;
+    },
+    async list(ownerHash) {
+      if (!fs.existsSync(dir)) return [];
+      const files = (await fs.promises.readdir(dir)).filter(file => file.endsWith('.json'));
+      const conversations = await Promise.all(files.map(file => read(path.join(dir, file))));
+      return conversations
+        .filter((conversation): conversation is StoredConversation => conversation?.ownerHash === ownerHash)
+        .map(summarize)
+        .sort(byUpdatedAt);
+    },
+    async save(conversation) {
+      await queue(conversation.id, () => write(conversation));
+    },
+    async update(id, change) {
+      if (!isConversationId(id)) return null;
+      return queue(id, async () => {
+        const current = await read(fileFor(id));
+        if (!current) return null;
+        const updated = change(current);
+        await write(updated);
+        return updated;
+      });
+    },
+    async delete(id) {
+      if (!isConversationId(id)) return false;
+      return queue(id, async () => {
+        try {
+          await fs.promises.unlink(fileFor(id));
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+          throw error;
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Keeps conversations in a SQLite database, one row per conversation
+ * better-sqlite3 is loaded lazily so other stores do not need the native module
+ */
+export function createSqliteConversationStore(filePath: string): ConversationStore {
+  let db: Database | null = null;
+
+  const open = async (): Promise<Database> => {
+    if (db) return db;
+    const { default: Database } = await import('better-sqlite3');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const opened = new Database(filePath);
+    opened.pragma('journal_mode = WAL');
+    opened.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        turn_count INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+    db = opened;
+    return opened;
+  };
+
+  const upsert = (opened: Database, conversation: StoredConversation): void => {
+    opened
+      .prepare(`
+        INSERT INTO conversations (id, title, created_at, updated_at, turn_count, data)
+        VALUES (@id, @title, @createdAt, @updatedAt, @turnCount, @data)
+        ON CONFLICT(id) DO UPDATE SET
+          title = excluded.title,
+          updated_at = excluded.updated_at,
+          turn_count = excluded.turn_count,
+          data = excluded.data
+      `)
+      .run({ ...summarize(conversation), data: JSON.stringify(conversation) });
+  };
+
+  return {
+    name: `sqlite:${filePath}`,
+    async get(id) {
+      const row = (await open()).prepare('SELECT data FROM conversations WHERE id = ?').get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+    async list(ownerHash) {
+      const rows = (await open())
+        .prepare(`
+          SELECT id, title, created_at, updated_at, turn_count FROM conversations
+          WHERE json_extract(data, '$.ownerHash') = ?
+          ORDER BY updated_at DESC
+        `)
+        .all(ownerHash) as Array<{ id: string; title: string; created_at: string; updated_at: string; turn_count: number }>;
+      return rows.map(row => ({
+        id: row.id,
+        title: row.title,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        turnCount: row.turn_count,
+      }));
+    },
+    async save(conversation) {
+      upsert(await open(), conversation);
+    },
+    async update(id, change) {
+      const opened = await open();
+      // An immediate transaction takes the write lock before reading, so other processes wait their turn too
+      return opened.transaction((): StoredConversation | null => {
+        const row = opened.prepare('SELECT data FROM conversations WHERE id = ?').get(id) as { data: string } | undefined;
+        if (!row) return null;
+        const updated = change(JSON.parse(row.data));
+        upsert(opened, updated);
+        return updated;
+      }).immediate();
+    },
+    async delete(id) {
+      return (await open()).prepare('DELETE FROM conversations WHERE id = ?').run(id).changes > 0;
+    },
+  };
+}
+
+let conversationStore: ConversationStore | null = null;
+
+/**
+ * Returns the store selected by CONVERSATION_STORE / CONVERSATION_STORE_PATH
+ */
+export function getConversationStore(): ConversationStore {
+  if (conversationStore) return conversationStore;
+
+  switch (CONVERSATION_STORE) {
+    case 'file':
+      conversationStore = createFileConversationStore(CONVERSATION_STORE_PATH || DEFAULT_CONVERSATIONS_DIR);
+      break;
+    case 'sqlite':
+      conversationStore = createSqliteConversationStore(CONVERSATION_STORE_PATH || DEFAULT_CONVERSATIONS_DB);
+      break;
+    case 'memory':
+      conversationStore = createMemoryConversationStore();
+      break;
+    default:
+      throw new Error(`Unknown CONVERSATION_STORE "${CONVERSATION_STORE}". Use file, sqlite or memory.`);
+  }
+  return conversationStore;
+}
+
+/**
+ * Replaces the store, or restores the configured one with null
+ */
+export function setConversationStore(store: ConversationStore | null): void {
+  conversationStore = store;
+}
+
+/**
+ * Creates and saves an empty conversation owned by the holder of `ownerToken`
+ */
+export async function createConversation(
+  ownerToken: string,
+  options: { title?: string; userProfile?: UserProfile } = {}
+): Promise<StoredConversation> {
+  const now = new Date().toISOString();
+  const conversation: StoredConversation = {
+    id: randomUUID(),
+    title: options.title?.trim().slice(0, TITLE_LENGTH) || UNTITLED,
+    createdAt: now,
+    updatedAt: now,
+    userProfile: options.userProfile || {},
+    turns: [],
+    ownerHash: hashOwnerToken(ownerToken),
+  };
+  await getConversationStore().save(conversation);
+  return conversation;
+}
+
+/**
+ * Loads a conversation for the holder of `ownerToken`; null when it does not exist or belongs to someone else,
+ * so callers cannot tell the two apart
+ */
+export async function getOwnedConversation(id: unknown, ownerToken: string | undefined): Promise<StoredConversation | null> {
+  if (!isConversationId(id)) return null;
+  const conversation = await getConversationStore().get(id);
+  return conversation && isOwnedBy(conversation, ownerToken) ? conversation : null;
+}
+
+/**
+ * Lists the conversations owned by the holder of `ownerToken`, most recently updated first; empty without a valid token
+ */
+export async function listOwnedConversations(ownerToken: string | undefined): Promise<ConversationSummary[]> {
+  if (!isOwnerToken(ownerToken)) return [];
+  return getConversationStore().list(hashOwnerToken(ownerToken));
+}
+
+/**
+ * Deletes a conversation owned by the holder of `ownerToken`; false when there was none to delete
+ */
+export async function deleteOwnedConversation(id: unknown, ownerToken: string | undefined): Promise<boolean> {
+  if (!(await getOwnedConversation(id, ownerToken))) return false;
+  return getConversationStore().delete(id as string);
+}
+
+/**
+ * A turn by index; null when there is none
+ */
+export function findTurn(conversation: Conversation, index: number): ConversationTurn | null {
+  return conversation.turns[index] || null;
+}
+
+/**
+ * What the pipeline needs from a stored conversation to answer its next message
+ */
+export interface ConversationContext {
+  conversationHistory: ConversationMessage[]; // Ends with the message being answered, like the client's history
+  previousRecommendations: Recommendation[];
+  userProfile: UserProfile;
+  pagedTurn: number | null; // Turn a "show more" request adds cards to
+}
+
+/**
+ * Rebuilds the history, shown cards and profile for a message
+ * A "show more" request is answered in the context of the turn it pages, not the turns after it
+ */
+export function conversationContext(conversation: Conversation, message: string, paging: boolean): ConversationContext {
+  let pagedTurn: number | null = null;
+  if (paging) {
+    for (let i = conversation.turns.length - 1; i >= 0 && pagedTurn === null; i--) {
+      const turn = conversation.turns[i];
+      if (turn.message === message && turn.response.recommendations.length > 0) pagedTurn = i;
+    }
+  }
+
+  const earlier = pagedTurn === null ? conversation.turns : conversation.turns.slice(0, pagedTurn);
+  const lastWithCards = [...earlier].reverse().find(turn => turn.response.recommendations.length > 0);
+
+  return {
+    conversationHistory: [
+      ...earlier.flatMap((turn): ConversationMessage[] => [
+        { role: 'user', content: turn.message },
+        { role: 'assistant', content: turn.response.summary || '' },
+      ]),
+      { role: 'user', content: message },
+    ],
+    previousRecommendations: lastWithCards?.response.recommendations || [],
+    userProfile: conversation.userProfile,
+    pagedTurn,
+  };
+}
+
+/**
+ * Adds an answer to a conversation and saves it, returning it with the index of the turn holding the answer;
+ * null when the conversation was deleted meanwhile
+ * Paged answers extend the turn they page; everything else becomes a new turn
+ * The answer is applied to the latest stored version, so turns recorded concurrently are all kept
+ */
+export async function recordConversationTurn(
+  conversation: StoredConversation,
+  context: ConversationContext,
+  message: string,
+  response: RecommendationsResponse,
+  userProfile: UserProfile
+): Promise<{ conversation: StoredConversation; turn: number } | null> {
+  let turn = -1;
+  const updated = await getConversationStore().update(conversation.id, current => {
+    const now = new Date().toISOString();
+    const turns = [...current.turns];
+    const pagedTurn = context.pagedTurn !== null && turns[context.pagedTurn] ? context.pagedTurn : null;
+
+    if (pagedTurn !== null) {
+      const paged = turns[pagedTurn];
+      turns[pagedTurn] = {
+        ...paged,
+        response: {
+          ...paged.response,
+          recommendations: [...paged.response.recommendations, ...response.recommendations],
+          hasMore: response.hasMore && response.recommendations.length > 0,
+        },
+      };
+      turn = pagedTurn;
+    } else {
+      turn = turns.push({ message, response, createdAt: now }) - 1;
+    }
+
+    // Named like the cards panel: the latest recommendation title, or the first question before any cards
+    let title = current.title;
+    if (pagedTurn === null && response.recommendations.length > 0 && response.title) {
+      title = response.title;
+    } else if (title === UNTITLED) {
+      title = message.slice(0, TITLE_LENGTH);
+    }
+
+    return {
+      ...current,
+      title,
+      updatedAt: now,
+      userProfile,
+      turns,
+    };
+  });
+  return updated && { conversation: updated, turn };
+}
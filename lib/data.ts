@@ -1,55 +1,73 @@
-import Papa from 'papaparse';
-import { CreditCard } from '@/types';
+import { CreditCard, CardRecord, Recommendation } from '@/types';
+import { normalizeCard } from './normalize';
+import { CardRow, CardSource, getCardSource } from './cardSources';
+import { IdCollision, resolveCardId, slugifyCardName, updateAliasMap } from './cardIds';
+import { recordSnapshot } from './snapshots';
 
 /**
  * Configuration for data fetching
  */
-const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID || '19ioGC8Oj8ej7QP_MG87FyMuAC3AdgGwRrEuKk5wZHZI';
 const CARD_NAME_COLUMN = process.env.CARD_NAME_COLUMN || 'credit_card_name';
 const CARD_URL_COLUMN = process.env.CARD_URL_COLUMN || 'url_application';
+const CARD_ID_COLUMN = process.env.CARD_ID_COLUMN || 'card_id';
 
 /**
  * In-memory cache for credit card data
  */
-let cachedCards: CreditCard[] | null = null;
+let cachedRecords: CardRecord[] | null = null;
 let cacheTimestamp: number | null = null;
 const CACHE_TTL = 1000 * 60 * 60; // 1 hour
 
 /**
- * Fetches CSV data from Google Sheets and parses it
+ * Fields that describe a card best; used for embeddings and checked by catalog validation
  */
-async function fetchCSVFromGoogleSheets(): Promise<string> {
-  const url = `https://docs.google.com/spreadsheets/d/${GOOGLE_SHEET_ID}/export?format=csv`;
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch Google Sheet: ${response.statusText}`);
-  }
-  
-  return response.text();
+export const PRIORITY_FIELDS = [
+  'target_consumer',
+  'annual_fee',
+  'rewards',
+  'points_multipliers',
+];
+
+/**
+ * A catalog row that could not be turned into a card
+ */
+export interface SkippedRow {
+  rowNumber: number; // 1-based data row, excluding the header
+  reason: 'missing_name' | 'missing_url';
+  cardName?: string;
+  columns: string[];
 }
 
 /**
- * Parses CSV data into CreditCard objects
+ * Result of parsing catalog rows
  */
-function parseCSVToCards(csvText: string): CreditCard[] {
-  const parsed = Papa.parse(csvText, {
-    header: true,
-    skipEmptyLines: true,
-  });
+export interface ParsedCatalog {
+  records: CardRecord[];
+  skippedRows: SkippedRow[];
+  collisions: IdCollision[];
+}
 
-  if (!parsed.data || parsed.data.length === 0) {
-    throw new Error('No data found in CSV');
+/**
+ * Parses catalog rows into card records
+ * Each record keeps the source row and a normalized, typed view of the card
+ */
+export function parseRowsToCards(rows: CardRow[]): ParsedCatalog {
+  if (!rows || rows.length === 0) {
+    throw new Error('No data found in card catalog');
   }
 
-  const cards: CreditCard[] = [];
+  const records: CardRecord[] = [];
+  const skippedRows: SkippedRow[] = [];
+  const rowNumbers: number[] = [];
+  const explicitIds = new Set<string>();
+  const recordsById = new Map<string, CardRecord[]>();
   
-  for (const row of parsed.data as any[]) {
+  rows.forEach((row, index) => {
     // Check for card name (required)
     const cardName = row[CARD_NAME_COLUMN];
     if (!cardName) {
-      console.warn(`Skipping row missing card name:`, Object.keys(row));
-      continue;
+      skippedRows.push({ rowNumber: index + 1, reason: 'missing_name', columns: Object.keys(row) });
+      return;
     }
 
     // Check for URL - try configured column first, then fallback to 'url'
@@ -59,64 +77,167 @@ function parseCSVToCards(csvText: string): CreditCard[] {
     }
     
     if (!cardUrl) {
-      console.warn(`Skipping row missing URL column (tried: ${CARD_URL_COLUMN}, url, URL, application_url, apply_url):`, cardName);
-      continue;
+      skippedRows.push({ rowNumber: index + 1, reason: 'missing_url', cardName, columns: Object.keys(row) });
+      return;
     }
 
-    // Generate a simple ID from the card name
-    const id = String(cardName)
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
+    // Prefer an explicit id column so renames keep the same id; otherwise derive one from the name
+    const explicitId = (row[CARD_ID_COLUMN] || row['id'] || '').trim();
+    const id = explicitId || slugifyCardName(cardName);
+    if (explicitId) {
+      explicitIds.add(id);
+    }
 
     const card: CreditCard = {
+      ...row, // Include all other columns
       id,
       credit_card_name: String(cardName),
       url_application: String(cardUrl),
-      ...row, // Include all other columns
     };
 
-    cards.push(card);
+    const { normalized, parseErrors } = normalizeCard(card);
+
+    const record: CardRecord = {
+      card,
+      normalized,
+      raw: { ...row },
+      parseErrors,
+    };
+    records.push(record);
+    rowNumbers.push(index + 1);
+    recordsById.set(id, [...(recordsById.get(id) || []), record]);
+  });
+
+  // Disambiguate colliding ids so no card silently shadows another, and report them
+  const collisions: IdCollision[] = [];
+  const usedIds = new Set(recordsById.keys());
+  recordsById.forEach((duplicates, id) => {
+    if (duplicates.length < 2) return;
+
+    const assignedIds = [id];
+    for (const duplicate of duplicates.slice(1)) {
+      let suffix = 2;
+      while (usedIds.has(`${id}-${suffix}`)) suffix++;
+      duplicate.card.id = `${id}-${suffix}`;
+      usedIds.add(duplicate.card.id);
+      assignedIds.push(duplicate.card.id);
+    }
+
+    collisions.push({
+      id,
+      cardNames: duplicates.map(duplicate => duplicate.card.credit_card_name),
+      rowNumbers: duplicates.map(duplicate => rowNumbers[records.indexOf(duplicate)]),
+      explicit: explicitIds.has(id),
+      assignedIds,
+    });
+  });
+
+  return { records, skippedRows, collisions };
+}
+
+/**
+ * Loads and parses rows from a source, reporting collisions and unparsed fields
+ */
+async function loadCardRecords(cardSource: CardSource): Promise<CardRecord[]> {
+  const rows = await cardSource.loadRows();
+  const { records, skippedRows, collisions } = parseRowsToCards(rows);
+
+  for (const collision of collisions) {
+    console.warn(`Card id "${collision.id}" is shared by ${collision.cardNames.join(', ')}; assigned ${collision.assignedIds.join(', ')}`);
+  }
+
+  const parseErrorCount = records.reduce((count, record) => count + record.parseErrors.length, 0);
+  if (skippedRows.length > 0 || parseErrorCount > 0) {
+    console.warn(`Card catalog has ${skippedRows.length} skipped row(s) and ${parseErrorCount} unparsed field(s). Run npm run lint-catalog for details.`);
   }
 
-  return cards;
+  return records;
 }
 
 /**
- * Fetches and parses credit card data from Google Sheets
+ * Fetches and parses card records (card, normalized fields, raw row) from the configured source
  * Uses in-memory cache to avoid re-fetching on every request
+ * An explicit source is read as-is: it never touches the cache, alias map or snapshots, and never falls back
  */
-export async function getCreditCards(forceRefresh = false): Promise<CreditCard[]> {
+export async function getCardRecords(forceRefresh = false, source?: CardSource): Promise<CardRecord[]> {
+  if (source) {
+    return loadCardRecords(source);
+  }
+
   // Return cached data if available and not expired
   if (
     !forceRefresh &&
-    cachedCards &&
+    cachedRecords &&
     cacheTimestamp &&
     Date.now() - cacheTimestamp < CACHE_TTL
   ) {
-    return cachedCards;
+    return cachedRecords;
   }
 
   try {
-    const csvText = await fetchCSVFromGoogleSheets();
-    const cards = parseCSVToCards(csvText);
+    const cardSource = getCardSource();
+    const records = await loadCardRecords(cardSource);
+    updateAliasMap(records);
+    await recordSnapshot(records.map(record => record.card), cardSource.name);
     
     // Update cache
-    cachedCards = cards;
+    cachedRecords = records;
     cacheTimestamp = Date.now();
     
-    return cards;
+    return records;
   } catch (error) {
     // If we have cached data, return it even if expired
-    if (cachedCards) {
+    if (cachedRecords) {
       console.warn('Failed to refresh data, using stale cache:', error);
-      return cachedCards;
+      return cachedRecords;
     }
     
     throw error;
   }
 }
 
+/**
+ * Fetches and parses credit card data from the configured source
+ */
+export async function getCreditCards(forceRefresh = false, source?: CardSource): Promise<CreditCard[]> {
+  const records = await getCardRecords(forceRefresh, source);
+  return records.map(record => record.card);
+}
+
+/**
+ * Maps saved card ids to the current catalog's ids, following renames recorded in the alias map
+ * Ids that match no card are kept as given, so lookups still treat them as unknown
+ */
+export async function resolveCardIds(ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const records = await getCardRecords();
+  return ids.map(id => resolveCardId(id, records) || id);
+}
+
+/**
+ * Version of the cardToText format
+ * Bump this whenever cardToText changes so stored embeddings are regenerated
+ */
+export const CARD_TEXT_FORMAT_VERSION = 1;
+
+/**
+ * Builds a recommendation from catalog data, reading each field from its usual column names
+ */
+export function cardToRecommendation(card: CreditCard, reason: string): Recommendation {
+  return {
+    card_id: card.id,
+    credit_card_name: card.credit_card_name,
+    apply_url: String(card.url_application || card.url || ''),
+    reason,
+    intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
+    application_fee: String(card.application_fee || card.app_fee || ''),
+    credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
+    annual_fee: String(card.annual_fee || card.fee || ''),
+    rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
+    perks: String(card.perks || card.benefits || card.card_perks || ''),
+  };
+}
+
 /**
  * Creates a text representation of a credit card for embedding
  * Combines relevant fields into a searchable string
@@ -129,14 +250,7 @@ export function cardToText(card: CreditCard): string {
   parts.push(card.credit_card_name);
   
   // Include only the most critical fields for maximum speed
-  const priorityFields = [
-    'target_consumer',
-    'annual_fee',
-    'rewards',
-    'points_multipliers',
-  ];
-  
-  for (const field of priorityFields) {
+  for (const field of PRIORITY_FIELDS) {
     if (card[field] && String(card[field]).trim()) {
       const value = String(card[field]).trim();
       // Aggressive truncation for speed: 100 chars max
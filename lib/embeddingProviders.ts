@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { getOpenAIClient } from './llm';
+
+/**
+ * Turns text into vectors for retrieval
+ * Stores record `name` and `model` so vectors from different providers are never mixed
+ */
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Configuration for embeddings
+ */
+const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || 'openai';
+const OPENAI_EMBEDDINGS_MODEL = process.env.EMBEDDINGS_MODEL || 'text-embedding-3-small';
+const LOCAL_EMBEDDING_DIMENSIONS = parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '512', 10);
+
+/**
+ * Embeds text with the OpenAI embeddings API
+ */
+export function createOpenAIEmbeddingProvider(model: string = OPENAI_EMBEDDINGS_MODEL): EmbeddingProvider {
+  return {
+    name: 'openai',
+    model,
+    async embed(texts: string[]) {
+      const openai = getOpenAIClient();
+      const response = await openai.embeddings.create({
+        model,
+        input: texts,
+      });
+      return response.data.map(item => item.embedding);
+    },
+  };
+}
+
+/**
+ * Splits text into word unigrams and character trigrams
+ * Trigrams keep partial matches ("hotel" vs "hotels") close together
+ */
+function extractFeatures(text: string): string[] {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[®™©]/g, '')
+    .replace(/[^a-z0-9$%.]+/g, ' ')
+    .trim();
+  const words = normalized.split(/\s+/).filter(Boolean);
+  const features: string[] = [];
+
+  for (const word of words) {
+    features.push(`w:${word}`);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      features.push(`c:${padded.slice(i, i + 3)}`);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Embeds text locally with hashed word and character n-gram counts
+ * Deterministic and needs no network, so retrieval works offline and in tests
+ */
+export function createLocalEmbeddingProvider(dimensions: number = LOCAL_EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const counts = new Map<string, number>();
+    for (const feature of extractFeatures(text)) {
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+    }
+
+    counts.forEach((count, feature) => {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      // Sublinear term frequency; words weigh more than individual trigrams
+      const weight = (1 + Math.log(count)) * (feature.startsWith('w:') ? 2 : 1);
+      vector[bucket] += sign * weight;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  };
+
+  return {
+    name: 'local',
+    model: `hashed-ngrams-${dimensions}`,
+    async embed(texts: string[]) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/**
+ * Returns the provider selected by EMBEDDING_PROVIDER (openai or local)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  switch (EMBEDDING_PROVIDER) {
+    case 'openai':
+      return createOpenAIEmbeddingProvider();
+    case 'local':
+      return createLocalEmbeddingProvider();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${EMBEDDING_PROVIDER}". Use openai or local.`);
+  }
+}
@@ -1,81 +1,258 @@
-import OpenAI from 'openai';
 import { CreditCard, CardEmbedding, EmbeddingsStore } from '@/types';
-import { getCreditCards, cardToText } from './data';
+import { getCreditCards, cardToText, CARD_TEXT_FORMAT_VERSION } from './data';
+import { getEmbeddingProvider } from './embeddingProviders';
+import { createVectorIndex, normalizeVector, VectorIndex, VectorIndexType } from './vectorIndex';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
 /**
- * Lazy-loaded OpenAI client to ensure environment variables are loaded first
+ * Embeddings are stored as compact metadata JSON plus a packed little-endian Float32 matrix
+ * The pretty-printed embeddings.json from older versions is still read and migrated
  */
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set. Please check your .env.local file.');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+const EMBEDDINGS_META_FILE = path.join(process.cwd(), 'data', 'embeddings.meta.json');
+const EMBEDDINGS_VECTORS_FILE = path.join(process.cwd(), 'data', 'embeddings.bin');
+const LEGACY_EMBEDDINGS_FILE = path.join(process.cwd(), 'data', 'embeddings.json');
+const VECTOR_INDEX = (process.env.VECTOR_INDEX || 'flat') as VectorIndexType;
+const HNSW_EF_SEARCH = parseInt(process.env.HNSW_EF_SEARCH || '64', 10);
+
+/**
+ * What the legacy embeddings.json stored: OpenAI text-embedding-3-small vectors of the original cardToText,
+ * with no provider, model, text format or hashes recorded
+ */
+const LEGACY_PROVIDER = 'openai';
+const LEGACY_MODEL = 'text-embedding-3-small';
+const LEGACY_TEXT_FORMAT_VERSION = 1;
+
+interface LegacyCardEmbedding {
+  cardId: string;
+  embedding: number[];
+  card: CreditCard;
 }
 
-const EMBEDDINGS_MODEL = 'text-embedding-3-small';
-const EMBEDDINGS_FILE = path.join(process.cwd(), 'data', 'embeddings.json');
+interface LegacyEmbeddingsStore {
+  cards: CreditCard[];
+  embeddings: LegacyCardEmbedding[];
+  generatedAt: string;
+}
+
+/**
+ * Store metadata written next to the vectors; entry order matches the matrix rows
+ */
+interface EmbeddingsMeta extends Omit<EmbeddingsStore, 'embeddings'> {
+  entries: Array<{ cardId: string; textHash: string }>;
+}
 
 /**
- * In-memory cache for embeddings
+ * In-memory cache for embeddings and the index built over them
  */
 let cachedEmbeddings: EmbeddingsStore | null = null;
+let cachedIndex: { store: EmbeddingsStore; index: VectorIndex } | null = null;
+
+/**
+ * Embeddings of the last few queries, so the response cache and retrieval embed a query once
+ */
+const RECENT_QUERY_EMBEDDINGS = 100;
+const recentQueryEmbeddings = new Map<string, number[]>();
+
+/**
+ * Hashes the text a card is embedded from
+ */
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Returns true if a store's vectors can be reused with the current provider, model and text format
+ */
+function isStoreCompatible(store: EmbeddingsStore): boolean {
+  const provider = getEmbeddingProvider();
+  return (
+    store.provider === provider.name &&
+    store.model === provider.model &&
+    store.textFormatVersion === CARD_TEXT_FORMAT_VERSION
+  );
+}
+
+/**
+ * Reads the binary store, falling back to the legacy JSON store
+ */
+function readStoreFromDisk(): EmbeddingsStore | null {
+  if (fs.existsSync(EMBEDDINGS_META_FILE) && fs.existsSync(EMBEDDINGS_VECTORS_FILE)) {
+    try {
+      const meta = JSON.parse(fs.readFileSync(EMBEDDINGS_META_FILE, 'utf-8')) as EmbeddingsMeta;
+      const buffer = fs.readFileSync(EMBEDDINGS_VECTORS_FILE);
+      // Copy into an aligned buffer; Node may hand back a pooled, unaligned slice
+      const matrix = new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+      const { entries, ...rest } = meta;
+
+      if (matrix.length !== entries.length * meta.dimensions) {
+        throw new Error(`Expected ${entries.length * meta.dimensions} floats in ${EMBEDDINGS_VECTORS_FILE}, found ${matrix.length}`);
+      }
+
+      const cardsById = new Map(meta.cards.map(card => [card.id, card]));
+      const embeddings: CardEmbedding[] = entries
+        .map((entry, row) => ({
+          cardId: entry.cardId,
+          textHash: entry.textHash,
+          card: cardsById.get(entry.cardId)!,
+          embedding: matrix.subarray(row * meta.dimensions, (row + 1) * meta.dimensions),
+        }))
+        .filter(cardEmbedding => !!cardEmbedding.card);
+
+      return { ...rest, embeddings };
+    } catch (error) {
+      console.warn('Failed to load embeddings from disk:', error);
+      return null;
+    }
+  }
+
+  if (fs.existsSync(LEGACY_EMBEDDINGS_FILE)) {
+    try {
+      const legacy = JSON.parse(fs.readFileSync(LEGACY_EMBEDDINGS_FILE, 'utf-8')) as LegacyEmbeddingsStore;
+      const embeddings: CardEmbedding[] = (legacy.embeddings || []).map(cardEmbedding => ({
+        cardId: cardEmbedding.cardId,
+        card: cardEmbedding.card,
+        embedding: normalizeVector(cardEmbedding.embedding),
+        textHash: hashText(cardToText(cardEmbedding.card)),
+      }));
+      const store: EmbeddingsStore = {
+        cards: legacy.cards || [],
+        embeddings,
+        generatedAt: legacy.generatedAt,
+        provider: LEGACY_PROVIDER,
+        model: LEGACY_MODEL,
+        textFormatVersion: LEGACY_TEXT_FORMAT_VERSION,
+        dimensions: embeddings[0]?.embedding.length || 0,
+      };
+      console.log(`Read legacy embeddings from ${LEGACY_EMBEDDINGS_FILE}`);
+
+      // Migrate once, so the next load reads the binary store
+      try {
+        writeStoreToDisk(store);
+        console.log(`Migrated legacy embeddings to ${EMBEDDINGS_VECTORS_FILE}`);
+      } catch (error) {
+        console.warn('Could not save migrated embeddings to disk:', error);
+      }
+      return store;
+    } catch (error) {
+      console.warn('Failed to load embeddings from disk:', error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Writes the store as metadata JSON plus a packed Float32 matrix
+ */
+function writeStoreToDisk(store: EmbeddingsStore): void {
+  const { embeddings, ...rest } = store;
+  const matrix = new Float32Array(embeddings.length * store.dimensions);
+  embeddings.forEach((cardEmbedding, row) => {
+    matrix.set(cardEmbedding.embedding, row * store.dimensions);
+  });
+
+  const meta: EmbeddingsMeta = {
+    ...rest,
+    entries: embeddings.map(cardEmbedding => ({ cardId: cardEmbedding.cardId, textHash: cardEmbedding.textHash })),
+  };
+
+  const dataDir = path.dirname(EMBEDDINGS_META_FILE);
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+  fs.writeFileSync(EMBEDDINGS_VECTORS_FILE, Buffer.from(matrix.buffer, matrix.byteOffset, matrix.byteLength));
+  fs.writeFileSync(EMBEDDINGS_META_FILE, JSON.stringify(meta));
+}
 
 /**
  * Generates embeddings for all credit cards
+ * Only new or changed cards are embedded; unchanged cards reuse their stored vectors
+ * and removed cards are dropped. Pass full = true to re-embed everything.
  */
-export async function generateEmbeddings(): Promise<EmbeddingsStore> {
+export async function generateEmbeddings(full = false): Promise<EmbeddingsStore> {
   const cards = await getCreditCards(true); // Force refresh
+  const provider = getEmbeddingProvider();
   
-  console.log(`Generating embeddings for ${cards.length} cards...`);
+  // Reuse vectors from the previous store when the model and text format still match
+  const previousStore = full ? null : cachedEmbeddings || readStoreFromDisk();
+  const reusable = new Map<string, CardEmbedding>();
+  if (previousStore && isStoreCompatible(previousStore)) {
+    for (const cardEmbedding of previousStore.embeddings) {
+      if (cardEmbedding.textHash) {
+        reusable.set(cardEmbedding.cardId, cardEmbedding);
+      }
+    }
+  } else if (previousStore) {
+    console.log(
+      `Embeddings store was built with ${previousStore.provider || 'openai'}/${previousStore.model || 'an unknown model'} (text format v${previousStore.textFormatVersion ?? '?'}); regenerating all cards with ${provider.name}/${provider.model}`
+    );
+  }
   
-  const embeddings: CardEmbedding[] = [];
+  const embeddingsById = new Map<string, CardEmbedding>();
+  const toEmbed: Array<{ card: CreditCard; text: string; textHash: string }> = [];
+  
+  for (const card of cards) {
+    const text = cardToText(card);
+    const textHash = hashText(text);
+    const previous = reusable.get(card.id);
+    
+    if (previous && previous.textHash === textHash) {
+      embeddingsById.set(card.id, { ...previous, card });
+    } else {
+      toEmbed.push({ card, text, textHash });
+    }
+  }
+  
+  const removedCount = Array.from(reusable.keys()).filter(id => !cards.some(card => card.id === id)).length;
+  console.log(
+    `Embedding ${toEmbed.length} new or changed cards (reusing ${embeddingsById.size}, dropping ${removedCount} removed)...`
+  );
   
   // Process in batches to avoid rate limits
   const batchSize = 100;
-  for (let i = 0; i < cards.length; i += batchSize) {
-    const batch = cards.slice(i, i + batchSize);
-    const texts = batch.map(card => cardToText(card));
+  for (let i = 0; i < toEmbed.length; i += batchSize) {
+    const batch = toEmbed.slice(i, i + batchSize);
     
     try {
-      const openai = getOpenAIClient();
-      const response = await openai.embeddings.create({
-        model: EMBEDDINGS_MODEL,
-        input: texts,
-      });
+      const vectors = await provider.embed(batch.map(item => item.text));
       
       for (let j = 0; j < batch.length; j++) {
-        embeddings.push({
-          cardId: batch[j].id,
-          embedding: response.data[j].embedding,
-          card: batch[j],
+        embeddingsById.set(batch[j].card.id, {
+          cardId: batch[j].card.id,
+          embedding: normalizeVector(vectors[j]),
+          card: batch[j].card,
+          textHash: batch[j].textHash,
         });
       }
       
-      console.log(`Processed ${Math.min(i + batchSize, cards.length)}/${cards.length} cards`);
+      console.log(`Processed ${Math.min(i + batchSize, toEmbed.length)}/${toEmbed.length} cards`);
     } catch (error) {
       console.error(`Error generating embeddings for batch ${i}:`, error);
       throw error;
     }
   }
   
+  // Keep catalog order
+  const embeddings = cards
+    .map(card => embeddingsById.get(card.id))
+    .filter((cardEmbedding): cardEmbedding is CardEmbedding => !!cardEmbedding);
+  
   const store: EmbeddingsStore = {
     cards,
     embeddings,
     generatedAt: new Date().toISOString(),
+    provider: provider.name,
+    model: provider.model,
+    textFormatVersion: CARD_TEXT_FORMAT_VERSION,
+    dimensions: embeddings[0]?.embedding.length || 0,
   };
   
   // Save to disk for local dev
   try {
-    const dataDir = path.dirname(EMBEDDINGS_FILE);
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
-    fs.writeFileSync(EMBEDDINGS_FILE, JSON.stringify(store, null, 2));
-    console.log(`Saved embeddings to ${EMBEDDINGS_FILE}`);
+    writeStoreToDisk(store);
+    console.log(`Saved embeddings to ${EMBEDDINGS_VECTORS_FILE}`);
   } catch (error) {
     console.warn('Could not save embeddings to disk:', error);
   }
@@ -96,79 +273,96 @@ export async function loadEmbeddings(forceRegenerate = false): Promise<Embedding
   }
   
   // Try to load from disk first
-  if (!forceRegenerate && fs.existsSync(EMBEDDINGS_FILE)) {
-    try {
-      const fileContent = fs.readFileSync(EMBEDDINGS_FILE, 'utf-8');
-      const store = JSON.parse(fileContent) as EmbeddingsStore;
-      
-      // Validate structure
-      if (store.cards && store.embeddings && store.embeddings.length > 0) {
+  if (!forceRegenerate) {
+    const store = readStoreFromDisk();
+    
+    // Validate structure, and that query embeddings will be comparable with the stored ones
+    if (store && store.cards && store.embeddings && store.embeddings.length > 0) {
+      if (isStoreCompatible(store)) {
         cachedEmbeddings = store;
         console.log(`Loaded ${store.embeddings.length} embeddings from disk`);
         return store;
       }
-    } catch (error) {
-      console.warn('Failed to load embeddings from disk:', error);
+      console.warn('Embeddings on disk were built with a different model or text format, regenerating...');
     }
   }
   
   // Generate new embeddings
   console.log('Generating new embeddings...');
-  return generateEmbeddings();
+  return generateEmbeddings(forceRegenerate);
 }
 
 /**
- * Computes cosine similarity between two vectors
+ * Returns the vector index for a store, building it on first use
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same length');
+function getVectorIndex(store: EmbeddingsStore): VectorIndex {
+  if (cachedIndex && cachedIndex.store === store) {
+    return cachedIndex.index;
   }
+
+  const matrix = new Float32Array(store.embeddings.length * store.dimensions);
+  store.embeddings.forEach((cardEmbedding, row) => {
+    matrix.set(cardEmbedding.embedding, row * store.dimensions);
+  });
+
+  const index = createVectorIndex(VECTOR_INDEX, matrix, store.dimensions, { efSearch: HNSW_EF_SEARCH });
+  cachedIndex = { store, index };
+  return index;
+}
+
+/**
+ * A card returned by vector search with its cosine similarity to the query
+ */
+export interface SimilarCard {
+  cardEmbedding: CardEmbedding;
+  similarity: number;
+}
+
+/**
+ * Finds the top N most similar cards to a query embedding, with their scores
+ * Cards rejected by `filter` are skipped before ranking
+ */
+export async function searchSimilarCards(
+  queryEmbedding: ArrayLike<number>,
+  topN: number = 20,
+  filter?: (card: CreditCard) => boolean
+): Promise<SimilarCard[]> {
+  const store = await loadEmbeddings();
+  const index = getVectorIndex(store);
+  const accept = filter ? (row: number) => filter(store.embeddings[row].card) : undefined;
   
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
+  // Vectors are stored pre-normalized, so scoring is a plain dot product
+  const results = index.search(normalizeVector(queryEmbedding), topN, accept);
   
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  return results.map(result => ({ cardEmbedding: store.embeddings[result.index], similarity: result.score }));
 }
 
 /**
  * Finds the top N most similar cards to a query embedding
  */
 export async function findSimilarCards(
-  queryEmbedding: number[],
-  topN: number = 20
+  queryEmbedding: ArrayLike<number>,
+  topN: number = 20,
+  filter?: (card: CreditCard) => boolean
 ): Promise<CardEmbedding[]> {
-  const store = await loadEmbeddings();
-  
-  // Compute similarity scores
-  const similarities = store.embeddings.map(cardEmbedding => ({
-    cardEmbedding,
-    similarity: cosineSimilarity(queryEmbedding, cardEmbedding.embedding),
-  }));
-  
-  // Sort by similarity (descending) and take top N
-  similarities.sort((a, b) => b.similarity - a.similarity);
-  
-  return similarities.slice(0, topN).map(item => item.cardEmbedding);
+  const results = await searchSimilarCards(queryEmbedding, topN, filter);
+  return results.map(result => result.cardEmbedding);
 }
 
 /**
  * Generates an embedding for a user query
  */
 export async function embedQuery(query: string): Promise<number[]> {
-  const openai = getOpenAIClient();
-  const response = await openai.embeddings.create({
-    model: EMBEDDINGS_MODEL,
-    input: query,
-  });
-  
-  return response.data[0].embedding;
+  const provider = getEmbeddingProvider();
+  const key = `${provider.name}:${provider.model}:${query}`;
+  const cached = recentQueryEmbeddings.get(key);
+  if (cached) return cached;
+
+  const [embedding] = await provider.embed([query]);
+  recentQueryEmbeddings.set(key, embedding);
+  if (recentQueryEmbeddings.size > RECENT_QUERY_EMBEDDINGS) {
+    recentQueryEmbeddings.delete(recentQueryEmbeddings.keys().next().value as string);
+  }
+  return embedding;
 }
 
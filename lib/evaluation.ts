@@ -0,0 +1,273 @@
+import { performance } from 'perf_hooks';
+import { ConversationMessage, QueryIntent, Recommendation } from '@/types';
+import { generateRecommendations } from './rag';
+import { findCandidateCards } from './retrieval';
+import { extractConstraints } from './constraints';
+import { loadEmbeddings } from './embeddings';
+import { slugifyCardName } from './cardIds';
+import { ChatRequest, createMockChatProvider, MockChatScript, setChatProvider } from './llm';
+import { clearResponseCache } from './responseCache';
+
+/**
+ * Offline evaluation of the recommendation pipeline against a golden dataset
+ */
+
+/**
+ * A labeled query; card names are matched ignoring case and trademark symbols
+ */
+export interface EvalCase {
+  id: string;
+  query: string;
+  conversationHistory?: ConversationMessage[];
+  previousCards?: string[]; // Cards already on screen, for questions about them
+  expectedIntent: QueryIntent;
+  acceptableCards?: string[]; // Cards that are a good answer; recall and validity are skipped without them
+  replies?: Record<string, string>; // Recorded model output per call label, used instead of the mock default
+}
+
+/**
+ * Where model replies come from: mock and recorded replies, the configured provider, or that provider's
+ * requests answered from OpenAI recordings
+ */
+export type EvalMode = 'mock' | 'live' | 'replay';
+
+export interface EvalCaseResult {
+  id: string;
+  intent: QueryIntent | null;
+  intentCorrect: boolean;
+  retrieved: string[]; // Top-k candidate names from retrieval alone
+  recall: number | null; // Share of acceptable cards in the top k (out of at most k)
+  recommended: string[];
+  validity: number | null; // Share of recommended cards that are acceptable
+  latencyMs: number;
+  error?: string;
+}
+
+export interface EvalSummary {
+  mode: EvalMode;
+  k: number;
+  cases: number;
+  intentAccuracy: number;
+  recallAtK: number | null; // Mean over cases with acceptable cards
+  cardValidityRate: number | null; // Valid recommended cards over all recommended cards
+  latency: { meanMs: number; p50Ms: number; p95Ms: number };
+}
+
+export interface EvalReport {
+  summary: EvalSummary;
+  results: EvalCaseResult[];
+}
+
+export interface EvalComparison {
+  deltas: { intentAccuracy: number; recallAtK: number | null; cardValidityRate: number | null; meanLatencyMs: number };
+  regressions: string[]; // "<case id>: <what got worse>"
+  improvements: string[];
+}
+
+function cardKey(name: string): string {
+  return slugifyCardName(name.replace(/[®™©]/g, ''));
+}
+
+/**
+ * Mock reply for the recommend call: the first candidates in the order retrieval and ranking gave them
+ * This isolates everything around the model, so a score change means the pipeline changed
+ */
+function recommendFromCandidates(request: ChatRequest): string {
+  const prompt = request.messages.map(message => message.content).join('\n');
+  const count = parseInt(/exactly (\d+) cards?/.exec(prompt)?.[1] || '3', 10);
+  const candidates = Array.from(prompt.matchAll(/^\d+\. ([^|\n]+?) \|.*\| (\S+)$/gm))
+    .slice(0, count)
+    .map(match => ({ credit_card_name: match[1], apply_url: match[2], reason: 'Matches the request.' }));
+
+  return JSON.stringify({
+    summary: ['Here are some options.', ...candidates.map(card => `- **[${card.credit_card_name}](${card.apply_url})** - ${card.reason}`), 'Compare them before applying.'].join('\n\n'),
+    cards: candidates,
+  });
+}
+
+/**
+ * Replies for labels a case has not recorded; the intent default is the classifier's fallback
+ */
+const DEFAULT_REPLIES: MockChatScript = {
+  intent: JSON.stringify({ intent: 'recommend', card_names: [], clarifying_question: null, reason: 'Mock default' }),
+  recommend: recommendFromCandidates,
+  title: 'Evaluation Cards',
+  default: JSON.stringify({ summary: 'Mock answer.', cards: [] }),
+};
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Fails early when the dataset names cards the loaded catalog does not have,
+ * which usually means the embeddings were built from a different catalog
+ */
+async function checkDatasetCards(cases: EvalCase[]): Promise<void> {
+  const store = await loadEmbeddings();
+  const known = new Set(store.embeddings.map(({ card }) => cardKey(card.credit_card_name)));
+  const missing = new Set<string>();
+  for (const evalCase of cases) {
+    for (const name of [...(evalCase.acceptableCards || []), ...(evalCase.previousCards || [])]) {
+      if (!known.has(cardKey(name))) missing.add(name);
+    }
+  }
+  if (missing.size > 0) {
+    throw new Error(
+      `The golden dataset names cards that are not in the loaded catalog: ${Array.from(missing).join(', ')}. ` +
+      'Build embeddings from the catalog the dataset was labeled against (CARD_SOURCE=csv for the fixture).'
+    );
+  }
+}
+
+async function runCase(evalCase: EvalCase, k: number, mode: EvalMode): Promise<EvalCaseResult> {
+  const mocked = mode === 'mock';
+  if (mocked) {
+    setChatProvider(createMockChatProvider({ ...DEFAULT_REPLIES, ...evalCase.replies }));
+  }
+  // Every case runs the full pipeline, even when an earlier case asked something similar
+  clearResponseCache();
+
+  const acceptable = new Set((evalCase.acceptableCards || []).map(cardKey));
+  const previousRecommendations: Recommendation[] | undefined = evalCase.previousCards?.map(name => ({
+    credit_card_name: name,
+    apply_url: '',
+    reason: '',
+  }));
+
+  const result: EvalCaseResult = {
+    id: evalCase.id,
+    intent: null,
+    intentCorrect: false,
+    retrieved: [],
+    recall: null,
+    recommended: [],
+    validity: null,
+    latencyMs: 0,
+  };
+
+  try {
+    if (acceptable.size > 0) {
+      const constraints = extractConstraints(evalCase.query, evalCase.conversationHistory);
+      const candidates = await findCandidateCards(evalCase.query, k, constraints);
+      result.retrieved = candidates.map(({ cardEmbedding }) => cardEmbedding.card.credit_card_name);
+      const found = result.retrieved.filter(name => acceptable.has(cardKey(name))).length;
+      result.recall = found / Math.min(acceptable.size, k);
+    }
+
+    const start = performance.now();
+    const response = await generateRecommendations(
+      evalCase.query,
+      undefined,
+      evalCase.conversationHistory,
+      previousRecommendations
+    );
+    result.latencyMs = performance.now() - start;
+
+    result.intent = response.intent || null;
+    result.intentCorrect = response.intent === evalCase.expectedIntent;
+    result.recommended = response.recommendations.map(rec => rec.credit_card_name);
+    if (acceptable.size > 0 && result.recommended.length > 0) {
+      result.validity = result.recommended.filter(name => acceptable.has(cardKey(name))).length / result.recommended.length;
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    if (mocked) setChatProvider(null);
+  }
+
+  return result;
+}
+
+/**
+ * Runs every case through generateRecommendations, with mock and recorded replies unless another mode is set
+ * Replay mode expects the OpenAI transport to be replaying already; the script sets it up before loading modules
+ * Recall is measured on retrieval alone (the top k candidates for the query's constraints)
+ */
+export async function runEvaluation(cases: EvalCase[], options: { k: number; mode?: EvalMode }): Promise<EvalReport> {
+  const mode = options.mode ?? 'mock';
+  await checkDatasetCards(cases);
+
+  const results: EvalCaseResult[] = [];
+  for (const evalCase of cases) {
+    results.push(await runCase(evalCase, options.k, mode));
+  }
+
+  const latencies = results.map(result => result.latencyMs).sort((a, b) => a - b);
+  const recalls = results.flatMap(result => (result.recall === null ? [] : [result.recall]));
+  const judged = results.filter(result => result.validity !== null);
+  const recommendedCount = judged.reduce((sum, result) => sum + result.recommended.length, 0);
+  const validCount = judged.reduce((sum, result) => sum + result.validity! * result.recommended.length, 0);
+
+  return {
+    summary: {
+      mode,
+      k: options.k,
+      cases: results.length,
+      intentAccuracy: results.filter(result => result.intentCorrect).length / Math.max(results.length, 1),
+      recallAtK: mean(recalls),
+      cardValidityRate: recommendedCount > 0 ? validCount / recommendedCount : null,
+      latency: {
+        meanMs: mean(latencies) ?? 0,
+        p50Ms: percentile(latencies, 0.5),
+        p95Ms: percentile(latencies, 0.95),
+      },
+    },
+    results,
+  };
+}
+
+function delta(current: number | null, baseline: number | null): number | null {
+  return current === null || baseline === null ? null : current - baseline;
+}
+
+/**
+ * Compares a run with a saved baseline, case by case; latency is reported but never counts as a regression
+ */
+export function compareWithBaseline(current: EvalReport, baseline: EvalReport): EvalComparison {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  const baselineResults = new Map(baseline.results.map(result => [result.id, result]));
+
+  for (const result of current.results) {
+    const before = baselineResults.get(result.id);
+    if (!before) continue;
+
+    if (before.intentCorrect !== result.intentCorrect) {
+      (result.intentCorrect ? improvements : regressions).push(
+        `${result.id}: intent ${before.intent ?? 'none'} -> ${result.intent ?? 'none'}`
+      );
+    }
+    const recallChange = delta(result.recall, before.recall);
+    if (recallChange) {
+      (recallChange > 0 ? improvements : regressions).push(
+        `${result.id}: recall@${current.summary.k} ${before.recall!.toFixed(2)} -> ${result.recall!.toFixed(2)}`
+      );
+    }
+    const validityChange = delta(result.validity, before.validity);
+    if (validityChange) {
+      (validityChange > 0 ? improvements : regressions).push(
+        `${result.id}: validity ${before.validity!.toFixed(2)} -> ${result.validity!.toFixed(2)}`
+      );
+    }
+    if (result.error && !before.error) {
+      regressions.push(`${result.id}: error ${result.error}`);
+    }
+  }
+
+  return {
+    deltas: {
+      intentAccuracy: current.summary.intentAccuracy - baseline.summary.intentAccuracy,
+      recallAtK: delta(current.summary.recallAtK, baseline.summary.recallAtK),
+      cardValidityRate: delta(current.summary.cardValidityRate, baseline.summary.cardValidityRate),
+      meanLatencyMs: current.summary.latency.meanMs - baseline.summary.latency.meanMs,
+    },
+    regressions,
+    improvements,
+  };
+}
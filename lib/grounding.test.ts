@@ -0,0 +1,128 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CreditCard } from '@/types';
+import { groundSummary } from './grounding';
+import { createMockChatProvider, setChatProvider } from './llm';
+
+const preferred = {
+  id: 'chase-sapphire-preferred-card',
+  credit_card_name: 'Chase Sapphire Preferred® Card',
+  url_application: 'https://creditcards.chase.com/rewards-credit-cards/sapphire/preferred',
+  issuer: 'Chase',
+  annual_fee: '$95',
+  rewards: 'Points',
+  points_multipliers: '5x on travel purchased through Chase Travel, 3x on dining, 2x on all other travel, 1x on all other purchases',
+  intro_offer: '60,000 bonus points after $4,000 spend in 3 months',
+} as CreditCard;
+
+const savorOne = {
+  id: 'capital-one-savorone-cash-rewards',
+  credit_card_name: 'Capital One SavorOne Cash Rewards',
+  url_application: 'https://www.capitalone.com/credit-cards/savorone-dining-rewards/',
+  issuer: 'Capital One',
+  annual_fee: '$0',
+  rewards: 'Cash back',
+  points_multipliers: '3% on dining, 3% on entertainment, 3% on popular streaming services, 3% at grocery stores, 1% on all other purchases',
+  intro_offer: '$200 cash bonus after $500 spend in 3 months',
+} as CreditCard;
+
+describe('groundSummary', () => {
+  after(() => setChatProvider(null));
+
+  const corrections: Array<{ name: string; summary: string; cards: CreditCard[]; expected: string; kinds: string[] }> = [
+    {
+      name: 'a wrong annual fee',
+      summary: 'The Chase Sapphire Preferred has a $150 annual fee.',
+      cards: [preferred],
+      expected: 'The Chase Sapphire Preferred has a $95 annual fee.',
+      kinds: ['annual_fee'],
+    },
+    {
+      name: 'a claim of no annual fee',
+      summary: 'The Chase Sapphire Preferred comes with no annual fee.',
+      cards: [preferred],
+      expected: 'The Chase Sapphire Preferred comes with a $95 annual fee.',
+      kinds: ['annual_fee'],
+    },
+    {
+      name: 'a wrong earn rate',
+      summary: 'The Chase Sapphire Preferred earns 4x on dining.',
+      cards: [preferred],
+      expected: 'The Chase Sapphire Preferred earns 3x on dining.',
+      kinds: ['multiplier'],
+    },
+    {
+      name: 'a wrong points bonus',
+      summary: 'New cardholders get 80,000 bonus points.',
+      cards: [preferred],
+      expected: 'New cardholders get 60,000 bonus points.',
+      kinds: ['intro_bonus'],
+    },
+    {
+      name: 'a wrong cash bonus',
+      summary: 'SavorOne offers a $300 cash bonus.',
+      cards: [savorOne],
+      expected: 'SavorOne offers a $200 cash bonus.',
+      kinds: ['intro_bonus'],
+    },
+    {
+      name: 'each claim against the card it is about',
+      summary: 'The Chase Sapphire Preferred earns 3x on dining.\n\nThe Capital One SavorOne Cash Rewards earns 5% on dining, with a $39 annual fee.',
+      cards: [preferred, savorOne],
+      expected: 'The Chase Sapphire Preferred earns 3x on dining.\n\nThe Capital One SavorOne Cash Rewards earns 3% on dining, with a $0 annual fee.',
+      kinds: ['annual_fee', 'multiplier'],
+    },
+  ];
+
+  for (const { name, summary, cards, expected, kinds } of corrections) {
+    it(`corrects ${name}`, async () => {
+      const { summary: grounded, report } = await groundSummary(summary, cards, 'correct');
+      assert.equal(grounded, expected);
+      assert.deepEqual(report?.issues.map(issue => issue.kind).sort(), kinds);
+      assert.ok(report?.issues.every(issue => issue.resolution === 'corrected'));
+    });
+  }
+
+  it('leaves claims that match the catalog alone', async () => {
+    const summary = 'The Chase Sapphire Preferred has a $95 annual fee, earns 3x on dining, and offers 60,000 bonus points.';
+    const { summary: grounded, report } = await groundSummary(summary, [preferred], 'correct');
+    assert.equal(grounded, summary);
+    assert.equal(report?.checkedClaims, 3);
+    assert.deepEqual(report?.issues, []);
+  });
+
+  it('annotates instead of rewriting in annotate mode', async () => {
+    const { summary: grounded, report } = await groundSummary('The Chase Sapphire Preferred has a $150 annual fee.', [preferred], 'annotate');
+    assert.equal(grounded, 'The Chase Sapphire Preferred has a $150 annual fee _(card terms: $95)_.');
+    assert.deepEqual(report?.issues.map(issue => issue.resolution), ['annotated']);
+  });
+
+  it('keeps a regenerated summary that fixes the claims', async () => {
+    const provider = createMockChatProvider({
+      grounding: JSON.stringify({ summary: 'The Chase Sapphire Preferred has a $95 annual fee.' }),
+    });
+    setChatProvider(provider);
+
+    const { summary: grounded, report } = await groundSummary('The Chase Sapphire Preferred has a $150 annual fee.', [preferred], 'regenerate');
+    assert.equal(grounded, 'The Chase Sapphire Preferred has a $95 annual fee.');
+    assert.equal(report?.regenerated, true);
+    assert.deepEqual(report?.issues.map(issue => issue.resolution), ['regenerated']);
+    assert.match(provider.calls[0].messages[1].content, /says "\$150 annual fee", card terms say "\$95"/);
+  });
+
+  it('falls back to correcting when the regenerated summary is no better', async () => {
+    setChatProvider(createMockChatProvider({
+      grounding: JSON.stringify({ summary: 'The Chase Sapphire Preferred has a $200 annual fee.' }),
+    }));
+
+    const { summary: grounded, report } = await groundSummary('The Chase Sapphire Preferred has a $150 annual fee.', [preferred], 'regenerate');
+    assert.equal(grounded, 'The Chase Sapphire Preferred has a $95 annual fee.');
+    assert.equal(report?.regenerated, false);
+    assert.deepEqual(report?.issues.map(issue => issue.resolution), ['corrected']);
+  });
+
+  it('does nothing when grounding is off', async () => {
+    const summary = 'The Chase Sapphire Preferred has a $150 annual fee.';
+    assert.deepEqual(await groundSummary(summary, [preferred], 'off'), { summary, report: null });
+  });
+});
@@ -0,0 +1,442 @@
+import { CategoryMultiplier, CreditCard, GroundingClaimKind, GroundingIssue, GroundingMode, GroundingReport, SpendCategory } from '@/types';
+import { categorize, normalizeCard } from './normalize';
+import { PARENT_CATEGORIES } from './rewardsValue';
+import { chatComplete } from './llm';
+import { PromptSelection, renderPrompt } from './prompts';
+
+const GROUNDING_MODES: GroundingMode[] = ['off', 'annotate', 'correct', 'regenerate'];
+
+/**
+ * How contradicted claims are handled (default: correct)
+ */
+export const GROUNDING_MODE: GroundingMode = GROUNDING_MODES.includes(process.env.GROUNDING_MODE as GroundingMode)
+  ? (process.env.GROUNDING_MODE as GroundingMode)
+  : 'correct';
+
+const FEE_COLUMNS = ['annual_fee', 'fee'];
+const REWARDS_COLUMNS = ['points_multipliers', 'rewards_rate', 'rewards', 'reward_rate'];
+const INTRO_COLUMNS = ['intro_offer', 'welcome_bonus', 'sign_up_bonus', 'intro_bonus'];
+
+const AMOUNT = String.raw`(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)`;
+
+/**
+ * "No annual fee", "annual fee: none"; these claim a fee of $0
+ */
+const NO_FEE_PATTERN = /\bno annual fee\b|\bannual fee\b[\s*:]*(?:is\s+)?(?:none|free)\b/gi;
+
+/**
+ * "$95 annual fee", "$0 intro annual fee", "annual fee of $95", "**Annual fee:** $95"
+ */
+const FEE_PATTERNS = [
+  new RegExp(String.raw`\$\s*${AMOUNT}\s*(?:intro(?:ductory)?\s+)?annual fee\b`, 'gi'),
+  new RegExp(String.raw`\bannual fee\b[\s*:]*(?:is\s+|of\s+)?(?:only\s+|just\s+)?\$\s*${AMOUNT}`, 'gi'),
+];
+
+/**
+ * "3x on dining", "6% cash back at U.S. supermarkets", "4x Membership Rewards points at restaurants"
+ * The category text stops at the next rate, so "3x on dining and 2x on travel" is two claims
+ */
+const MULTIPLIER_PATTERN = new RegExp(
+  String.raw`${AMOUNT}\s*(x|%)(?!\w)(?:\s+(?:cash\s*back|back|bonus|(?:membership|ultimate|thankyou)\s+rewards|rewards|points?|miles?)){0,2}(?:\s+per\s+dollar(?:\s+spent)?)?\s+(?:on|at|for|in)\s+((?:(?!\d+(?:\.\d+)?\s*(?:x|%)(?!\w))[^.;,\n()])+)`,
+  'gi'
+);
+
+/**
+ * "60,000 bonus points", "75k miles", "$200 cash bonus", "$250 statement credit"
+ */
+const POINTS_BONUS_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+k)\s+(?:(?:bonus|welcome|(?:membership|ultimate|thankyou)\s+rewards|rewards)\s+)*(points?|miles?)\b/gi;
+const CASH_BONUS_PATTERN = new RegExp(
+  String.raw`\$\s*${AMOUNT}\s+(?:cash\s+)?(?:back\s+)?(?:welcome\s+|sign-?up\s+)?(?:bonus|statement credit)\b`,
+  'gi'
+);
+
+/**
+ * A summary claim that disagrees with the catalog, with where it sits in the summary
+ */
+interface Contradiction {
+  card: CreditCard;
+  kind: GroundingClaimKind;
+  claimed: string;
+  expected: string;
+  start: number;
+  end: number;
+  // Span of the wrong number and its catalog value, when the catalog gives a single answer
+  fix: { start: number; end: number; text: string } | null;
+}
+
+interface Segment {
+  card: CreditCard;
+  start: number;
+  end: number;
+}
+
+function field(card: CreditCard, columns: string[]): string {
+  for (const column of columns) {
+    const value = card[column];
+    if (value !== undefined && value !== null && String(value).trim()) return String(value).trim();
+  }
+  return '';
+}
+
+function parseAmount(text: string): number {
+  const value = parseFloat(text.replace(/,/g, ''));
+  return /k$/i.test(text) ? value * 1000 : value;
+}
+
+function amountsIn(text: string): number[] {
+  return Array.from(text.matchAll(/\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?/g)).map(match => parseAmount(match[0]));
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Names a summary may use for a card: the full name, the name without "Card" or "from <issuer>", and "Amex" for American Express
+ */
+function cardAliases(card: CreditCard): string[] {
+  const name = card.credit_card_name.replace(/[®™©]/g, ' ').replace(/\s+/g, ' ').trim();
+  const aliases = new Set([name]);
+  const short = name.replace(/^the\s+/i, '').replace(/\s+from\s+.+$/i, '').replace(/\s+(credit\s+)?card$/i, '').trim();
+  if (short.split(' ').length >= 2) aliases.add(short);
+  for (const alias of Array.from(aliases)) {
+    if (/american express/i.test(alias)) aliases.add(alias.replace(/american express/i, 'Amex'));
+  }
+  return Array.from(aliases);
+}
+
+/**
+ * Splits the summary into the stretches that talk about each card
+ * A stretch starts at a mention of the card (by name or application link) and ends at the next mention
+ * of another card or the next blank line; with a single card the whole summary is about it
+ */
+function segmentByCard(summary: string, cards: CreditCard[]): Segment[] {
+  if (cards.length === 1) return [{ card: cards[0], start: 0, end: summary.length }];
+
+  // Trademark symbols become spaces so positions still line up with the summary
+  const text = summary.replace(/[®™©]/g, ' ');
+  const mentions: Array<{ card: CreditCard; start: number; end: number }> = [];
+
+  for (const card of cards) {
+    for (const alias of cardAliases(card)) {
+      const pattern = new RegExp(`(?<!\\w)${alias.split(' ').map(escapeRegExp).join('\\s+')}(?!\\w)`, 'gi');
+      for (const match of Array.from(text.matchAll(pattern))) {
+        mentions.push({ card, start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+    const url = String(card.url_application || '');
+    if (url) {
+      for (let index = summary.indexOf(url); index !== -1; index = summary.indexOf(url, index + url.length)) {
+        mentions.push({ card, start: index, end: index + url.length });
+      }
+    }
+  }
+
+  // The longest mention wins where names overlap ("Venture X" inside "Capital One Venture X Rewards")
+  mentions.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: typeof mentions = [];
+  for (const mention of mentions) {
+    const previous = kept[kept.length - 1];
+    if (previous && mention.start < previous.end) continue;
+    kept.push(mention);
+  }
+
+  const segments: Segment[] = [];
+  kept.forEach((mention, index) => {
+    const last = segments[segments.length - 1];
+    if (last && last.card === mention.card && mention.start < last.end) return;
+
+    const nextOther = kept.slice(index + 1).find(other => other.card !== mention.card);
+    const blankLine = summary.slice(mention.end).search(/\n\s*\n/);
+    const end = Math.min(
+      nextOther ? nextOther.start : summary.length,
+      blankLine === -1 ? summary.length : mention.end + blankLine
+    );
+    segments.push({ card: mention.card, start: mention.start, end });
+  });
+
+  return segments;
+}
+
+/**
+ * Rates a card earns in a category or the broader/narrower categories around it
+ */
+function relatedMultipliers(multipliers: CategoryMultiplier[], category: SpendCategory): CategoryMultiplier[] {
+  return multipliers.filter(
+    multiplier =>
+      multiplier.category === category ||
+      (PARENT_CATEGORIES[category] || []).includes(multiplier.category) ||
+      (PARENT_CATEGORIES[multiplier.category] || []).includes(category)
+  );
+}
+
+/**
+ * Checks one card's stretch of the summary; returns the number of claims found and those that disagree
+ */
+function checkSegment(summary: string, segment: Segment): { checked: number; contradictions: Contradiction[] } {
+  const { card, start: offset } = segment;
+  const text = summary.slice(segment.start, segment.end);
+  const { normalized } = normalizeCard(card);
+  const feeText = field(card, FEE_COLUMNS);
+  const introText = field(card, INTRO_COLUMNS);
+  const recordAmounts = amountsIn(Object.values(card).join(' '));
+
+  const contradictions: Contradiction[] = [];
+  const claimed: Array<[number, number]> = [];
+  let checked = 0;
+
+  const claim = (match: RegExpMatchArray): boolean => {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (claimed.some(([from, to]) => start < to && end > from)) return false;
+    claimed.push([start, end]);
+    checked++;
+    return true;
+  };
+
+  const contradict = (
+    kind: GroundingClaimKind,
+    match: RegExpMatchArray,
+    expected: string,
+    fix: { start: number; end: number; text: string } | null
+  ) => {
+    const start = offset + match.index!;
+    contradictions.push({
+      card,
+      kind,
+      claimed: match[0].replace(/\*/g, '').trim(),
+      expected,
+      start,
+      end: start + match[0].trimEnd().length,
+      fix: fix && { start: offset + fix.start, end: offset + fix.end, text: fix.text },
+    });
+  };
+
+  // A fee counts as grounded when it is the ongoing fee or any amount the fee terms state ("$0 intro ..., then $95")
+  if (normalized.annualFee !== null) {
+    const feeAmounts = amountsIn(feeText);
+    const feeMatches = (amount: number) => amount === normalized.annualFee || feeAmounts.includes(amount);
+
+    for (const match of Array.from(text.matchAll(NO_FEE_PATTERN))) {
+      if (!claim(match) || feeMatches(0)) continue;
+      contradict('annual_fee', match, feeText, {
+        start: match.index!,
+        end: match.index! + match[0].length,
+        text: /^no\b/i.test(match[0]) ? `a $${formatAmount(normalized.annualFee)} annual fee` : `annual fee: $${formatAmount(normalized.annualFee)}`,
+      });
+    }
+
+    for (const pattern of FEE_PATTERNS) {
+      for (const match of Array.from(text.matchAll(pattern))) {
+        if (!claim(match) || feeMatches(parseAmount(match[1]))) continue;
+        const numberStart = match.index! + match[0].lastIndexOf(match[1]);
+        contradict('annual_fee', match, feeText, {
+          start: numberStart,
+          end: numberStart + match[1].length,
+          text: formatAmount(normalized.annualFee),
+        });
+      }
+    }
+  }
+
+  // Earn rates are checked only where the summary names a category the catalog can be compared on
+  const base = normalized.multipliers.find(multiplier => multiplier.category === 'everything');
+  for (const match of Array.from(text.matchAll(MULTIPLIER_PATTERN))) {
+    const category = categorize(match[3]);
+    if (!category || category === 'rotating' || normalized.multipliers.length === 0) continue;
+    if (!claim(match)) continue;
+
+    const rate = parseAmount(match[1]);
+    const related = relatedMultipliers(normalized.multipliers, category);
+    const rates = related.length > 0 ? related : base && rate > base.rate ? [base] : [];
+    if (rates.length === 0 || rates.some(multiplier => multiplier.rate === rate)) continue;
+
+    const distinct = Array.from(new Set(rates.map(multiplier => multiplier.rate)));
+    const numberStart = match.index!;
+    contradict(
+      'multiplier',
+      match,
+      rates.map(multiplier => multiplier.label).join('; '),
+      distinct.length === 1 ? { start: numberStart, end: numberStart + match[1].length, text: String(distinct[0]) } : null
+    );
+  }
+
+  // Bonus amounts found anywhere on the record count, so "10,000 anniversary miles" is not read as a wrong bonus
+  if (introText) {
+    const bonusChecks: Array<{ pattern: RegExp; offered: number[] }> = [
+      { pattern: POINTS_BONUS_PATTERN, offered: Array.from(introText.matchAll(POINTS_BONUS_PATTERN)).map(m => parseAmount(m[1])) },
+      { pattern: CASH_BONUS_PATTERN, offered: Array.from(introText.matchAll(CASH_BONUS_PATTERN)).map(m => parseAmount(m[1])) },
+    ];
+
+    for (const { pattern, offered } of bonusChecks) {
+      for (const match of Array.from(text.matchAll(pattern))) {
+        if (!claim(match)) continue;
+        const amount = parseAmount(match[1]);
+        if (offered.length === 0 || offered.includes(amount) || recordAmounts.includes(amount)) continue;
+
+        const numberStart = match.index! + match[0].indexOf(match[1]);
+        contradict(
+          'intro_bonus',
+          match,
+          introText,
+          offered.length === 1 ? { start: numberStart, end: numberStart + match[1].length, text: formatAmount(offered[0]) } : null
+        );
+      }
+    }
+  }
+
+  return { checked, contradictions };
+}
+
+/**
+ * Pulls annual fees, earn rates and intro bonuses out of a summary and checks each against the catalog
+ * record of the card the surrounding text is about
+ */
+function verifySummary(summary: string, cards: CreditCard[]): { checked: number; contradictions: Contradiction[] } {
+  let checked = 0;
+  const contradictions: Contradiction[] = [];
+  for (const segment of segmentByCard(summary, cards)) {
+    const result = checkSegment(summary, segment);
+    checked += result.checked;
+    contradictions.push(...result.contradictions);
+  }
+  return { checked, contradictions };
+}
+
+/**
+ * Rewrites wrong numbers in place, or marks the claim with the catalog text when there is no single right number
+ * Works from the end of the summary so earlier positions stay valid
+ */
+function applyFixes(
+  summary: string,
+  contradictions: Contradiction[],
+  mode: 'annotate' | 'correct'
+): { summary: string; resolutions: Map<Contradiction, 'corrected' | 'annotated'> } {
+  const resolutions = new Map<Contradiction, 'corrected' | 'annotated'>();
+  let result = summary;
+
+  for (const contradiction of [...contradictions].sort((a, b) => b.start - a.start)) {
+    if (mode === 'correct' && contradiction.fix) {
+      const { start, end, text } = contradiction.fix;
+      result = result.slice(0, start) + text + result.slice(end);
+      resolutions.set(contradiction, 'corrected');
+    } else {
+      result = `${result.slice(0, contradiction.end)} _(card terms: ${contradiction.expected})_${result.slice(contradiction.end)}`;
+      resolutions.set(contradiction, 'annotated');
+    }
+  }
+
+  return { summary: result, resolutions };
+}
+
+function cardFacts(card: CreditCard): string {
+  return [
+    card.credit_card_name,
+    `Annual fee: ${field(card, FEE_COLUMNS) || 'not listed'}`,
+    `Earn rates: ${field(card, REWARDS_COLUMNS) || 'not listed'}`,
+    `Intro offer: ${field(card, INTRO_COLUMNS) || 'not listed'}`,
+  ].join('\n');
+}
+
+/**
+ * Asks the model to fix the listed errors and nothing else; null when the call fails
+ */
+async function regenerateSummary(
+  summary: string,
+  contradictions: Contradiction[],
+  prompts?: PromptSelection
+): Promise<string | null> {
+  const cards = Array.from(new Set(contradictions.map(contradiction => contradiction.card)));
+  const errors = contradictions
+    .map(contradiction => `- ${contradiction.card.credit_card_name}: says "${contradiction.claimed}", card terms say "${contradiction.expected}"`)
+    .join('\n');
+
+  try {
+    const prompt = renderPrompt('grounding', {
+      summary,
+      errors,
+      cardTerms: cards.map(cardFacts).join('\n\n'),
+    }, prompts);
+    const { content } = await chatComplete({
+      label: 'grounding',
+      messages: [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+      ],
+      temperature: 0,
+      maxTokens: 1000,
+      json: true,
+    });
+    const parsed = JSON.parse(content || '{}');
+    return typeof parsed.summary === 'string' && parsed.summary.trim() ? parsed.summary : null;
+  } catch (error) {
+    console.error('Error regenerating summary for grounding:', error);
+    return null;
+  }
+}
+
+function toIssue(contradiction: Contradiction, resolution: GroundingIssue['resolution']): GroundingIssue {
+  return {
+    cardId: contradiction.card.id,
+    credit_card_name: contradiction.card.credit_card_name,
+    kind: contradiction.kind,
+    claimed: contradiction.claimed,
+    expected: contradiction.expected,
+    resolution,
+  };
+}
+
+/**
+ * Checks a generated summary against the catalog records of the cards it may mention and repairs what disagrees
+ * Returns the summary to show and a report for the response metadata (null when grounding is off)
+ */
+export async function groundSummary(
+  summary: string,
+  cards: CreditCard[],
+  mode: GroundingMode = GROUNDING_MODE,
+  prompts?: PromptSelection
+): Promise<{ summary: string; report: GroundingReport | null }> {
+  if (mode === 'off' || !summary || cards.length === 0) {
+    return { summary, report: null };
+  }
+
+  const first = verifySummary(summary, cards);
+  const issues: GroundingIssue[] = [];
+  let current = summary;
+  let remaining = first.contradictions;
+  let regenerated = false;
+
+  if (mode === 'regenerate' && remaining.length > 0) {
+    const rewritten = await regenerateSummary(summary, remaining, prompts);
+    const second = rewritten ? verifySummary(rewritten, cards) : null;
+    // Keep the rewrite only when it actually fixed something
+    if (rewritten && second && second.contradictions.length < remaining.length) {
+      const stillWrong = new Set(second.contradictions.map(c => `${c.card.id}:${c.kind}:${c.expected}`));
+      issues.push(
+        ...remaining.filter(c => !stillWrong.has(`${c.card.id}:${c.kind}:${c.expected}`)).map(c => toIssue(c, 'regenerated'))
+      );
+      current = rewritten;
+      remaining = second.contradictions;
+      regenerated = true;
+    }
+  }
+
+  if (remaining.length > 0) {
+    const fixed = applyFixes(current, remaining, mode === 'annotate' ? 'annotate' : 'correct');
+    current = fixed.summary;
+    issues.push(...remaining.map(contradiction => toIssue(contradiction, fixed.resolutions.get(contradiction)!)));
+  }
+
+  if (issues.length > 0) {
+    console.warn(`Grounding found ${issues.length} of ${first.checked} claims disagreeing with the catalog:`, issues);
+  }
+
+  return {
+    summary: current,
+    report: { mode, checkedClaims: first.checked, issues, regenerated },
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Recommendation } from '@/types';
+import { extractRequestedCount, preCheckIntent } from './intent';
+
+const shownCards: Recommendation[] = [
+  { credit_card_name: 'Chase Sapphire Preferred® Card', apply_url: 'https://example.com/csp', reason: '' },
+  { credit_card_name: 'Capital One Venture Rewards', apply_url: 'https://example.com/venture', reason: '' },
+];
+
+describe('preCheckIntent', () => {
+  const cases: Array<{ query: string; previous?: Recommendation[]; intent: string | null }> = [
+    { query: 'What are the best travel cards?', intent: 'recommend' },
+    { query: 'Recommend a card for groceries', intent: 'recommend' },
+    { query: 'cash back for gas', intent: 'recommend' },
+    { query: 'What is an annual fee?', intent: 'general' },
+    { query: 'How does a balance transfer work?', intent: 'general' },
+    { query: 'What is the annual fee of the Chase Sapphire Preferred?', intent: 'general' },
+    { query: 'Sapphire vs Venture', intent: null }, // Card or concept comparison: the classifier decides
+    { query: 'cash back versus points', intent: null },
+    { query: 'Chase Sapphire travel perks', intent: null }, // Names an issuer, may be a specific card
+    { query: 'Do any of these have lounge access?', previous: shownCards, intent: 'about_previous' },
+    { query: 'Compare these cards', previous: shownCards, intent: 'compare' },
+    { query: 'Do any of these have lounge access?', intent: null }, // Nothing on screen to refer to
+  ];
+
+  for (const { query, previous, intent } of cases) {
+    it(`routes "${query}"${previous ? ' with cards shown' : ''} to ${intent ?? 'the classifier'}`, () => {
+      assert.equal(preCheckIntent(query, previous)?.intent ?? null, intent);
+    });
+  }
+
+  it('compares the cards already shown', () => {
+    assert.deepEqual(preCheckIntent('Compare these cards', shownCards)?.cardNames, shownCards.map(card => card.credit_card_name));
+  });
+});
+
+describe('extractRequestedCount', () => {
+  const cases: Array<{ query: string; count: number | null }> = [
+    { query: 'top 5 travel cards', count: 5 },
+    { query: 'Give me four travel options', count: 4 },
+    { query: 'show me 2 cash back cards', count: 2 },
+    { query: '10 best cards for students', count: 10 },
+    { query: 'I have 2 cards, what should I add?', count: null },
+    { query: 'I own three cards already', count: null },
+    { query: 'cards with a $0 annual fee', count: null },
+    { query: 'earns 5 points per dollar', count: null },
+    { query: 'best travel card', count: null },
+  ];
+
+  for (const { query, count } of cases) {
+    it(`reads ${count ?? 'no count'} from "${query}"`, () => {
+      assert.equal(extractRequestedCount(query), count);
+    });
+  }
+});
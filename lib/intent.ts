@@ -0,0 +1,249 @@
+import { ConversationMessage, IntentClassification, QueryIntent, Recommendation } from '@/types';
+import { extractConstraints } from './constraints';
+import { KNOWN_ISSUERS } from './normalize';
+import { ChatMessage, chatComplete } from './llm';
+import { PromptSelection, renderPrompt } from './prompts';
+
+const INTENTS: QueryIntent[] = ['recommend', 'specific_card', 'about_previous', 'compare', 'general', 'clarify'];
+
+/**
+ * Phrases that refer back to cards already on screen
+ */
+const PREVIOUS_CARD_PATTERNS = [
+  /these cards/i,
+  /any of these/i,
+  /these recommendations/i,
+  /the cards above/i,
+  /the cards you showed/i,
+  /the cards you recommended/i,
+  /which of these/i,
+  /do these cards/i,
+  /do any of these/i,
+  /are these cards/i,
+  /the recommended cards/i,
+  /the cards you mentioned/i,
+];
+
+/**
+ * Definition, explanation and how-to openers ("What is an annual fee?")
+ */
+const CONCEPT_QUESTION_PATTERNS = [
+  /^what is\s+(an|a|the)?\s+/i,
+  /^what's\s+(an|a|the)?\s+/i,
+  /^what are\s+/i,
+  /^how do\s+/i,
+  /^how does\s+/i,
+  /^how can\s+/i,
+  /^explain\s+/i,
+  /^can you explain\s+/i,
+  /^tell me about\s+/i,
+  /^what does\s+/i,
+];
+
+/**
+ * Questions about a detail of a card rather than a request to see cards
+ */
+const INFORMATION_QUESTION_PATTERNS = [
+  /what is the\s+.*\s+of\s+/i,
+  /what's the\s+.*\s+of\s+/i,
+  /how does\s+.*\s+work/i,
+  /what does\s+.*\s+mean/i,
+];
+
+const CONCEPT_KEYWORDS = [
+  'mean', 'means', 'meaning', 'work', 'works', 'explain', 'definition', 'define', 'is', 'are', 'does', 'do',
+];
+
+/**
+ * Words that mean the user wants cards even when the question is phrased as "what is ..."
+ */
+const RECOMMENDATION_SEEKING_WORDS = [
+  'best', 'recommend', 'suggest', 'should i', 'which', 'what card', 'card for',
+];
+
+const RECOMMENDATION_KEYWORDS = [
+  'best', 'recommend', 'suggest', 'show me', 'give me', 'which', 'what card',
+  'find', 'looking for', 'need', 'want', 'help me find',
+];
+
+/**
+ * Spending and profile topics that mean the user wants cards, unless a card or issuer is named
+ */
+const TOPIC_KEYWORDS = [
+  'card for', 'travel', 'groceries', 'gas', 'cash back', 'points', 'rewards', 'annual fee',
+  'starter', 'good credit', 'bad credit', 'student', 'business',
+];
+
+/**
+ * Comparisons are left to the classifier: "Sapphire vs Venture" compares cards,
+ * "cash back vs points" compares concepts
+ */
+const COMPARISON_PATTERN = /\b(vs\.?|versus|compare|comparison|difference between)\b/i;
+
+/**
+ * Fast regex routing for queries whose intent is unambiguous
+ * Returns null when the classifier call is needed
+ */
+export function preCheckIntent(
+  userQuery: string,
+  previousRecommendations?: Recommendation[]
+): Omit<IntentClassification, 'constraints'> | null {
+  const query = userQuery.trim();
+  const queryLower = query.toLowerCase();
+
+  if (previousRecommendations && previousRecommendations.length > 0 && PREVIOUS_CARD_PATTERNS.some(pattern => pattern.test(query))) {
+    if (COMPARISON_PATTERN.test(query) && previousRecommendations.length >= 2) {
+      const cardNames = previousRecommendations.map(rec => rec.credit_card_name);
+      return { intent: 'compare', cardNames, source: 'rules', reason: 'Compares the cards already shown' };
+    }
+    return { intent: 'about_previous', cardNames: [], source: 'rules', reason: 'Refers to the cards already shown' };
+  }
+
+  if (COMPARISON_PATTERN.test(query)) {
+    return null;
+  }
+
+  const seeksRecommendation = RECOMMENDATION_SEEKING_WORDS.some(word => queryLower.includes(word));
+
+  if (!seeksRecommendation && INFORMATION_QUESTION_PATTERNS.some(pattern => pattern.test(query))) {
+    return { intent: 'general', cardNames: [], source: 'rules', reason: 'Asks for a detail, not for cards' };
+  }
+
+  if (
+    !seeksRecommendation &&
+    CONCEPT_QUESTION_PATTERNS.some(pattern => pattern.test(query)) &&
+    CONCEPT_KEYWORDS.some(keyword => new RegExp(`\\b${keyword}\\b`).test(queryLower))
+  ) {
+    return { intent: 'general', cardNames: [], source: 'rules', reason: 'Definition or how-to question' };
+  }
+
+  if (RECOMMENDATION_KEYWORDS.some(keyword => queryLower.includes(keyword))) {
+    return { intent: 'recommend', cardNames: [], source: 'rules', reason: 'Contains recommendation keywords' };
+  }
+
+  // A named issuer may mean a specific card ("Chase Sapphire travel perks"), which needs the classifier
+  const namesIssuer = KNOWN_ISSUERS.some(({ pattern }) => pattern.test(query));
+  if (!namesIssuer && TOPIC_KEYWORDS.some(keyword => queryLower.includes(keyword))) {
+    return { intent: 'recommend', cardNames: [], source: 'rules', reason: 'Asks about a spending or credit topic' };
+  }
+
+  return null;
+}
+
+/**
+ * Asks the model for the intent and mentioned card names in a single call
+ */
+async function classifyWithModel(
+  userQuery: string,
+  conversationHistory?: ConversationMessage[],
+  previousRecommendations?: Recommendation[],
+  prompts?: PromptSelection
+): Promise<Omit<IntentClassification, 'constraints'>> {
+  const previousCards = (previousRecommendations || []).map(rec => rec.credit_card_name);
+
+  const prompt = renderPrompt('intent', {
+    userQuery,
+    previousCards: previousCards.length > 0 ? previousCards.join('; ') : 'none',
+  }, prompts);
+
+  const messages: ChatMessage[] = [{ role: 'system', content: prompt.system }];
+
+  if (conversationHistory && conversationHistory.length > 0) {
+    conversationHistory.slice(-4).forEach(msg => {
+      messages.push({ role: msg.role, content: msg.content });
+    });
+  }
+
+  messages.push({ role: 'user', content: prompt.user });
+
+  const { content } = await chatComplete({
+    label: 'intent',
+    messages,
+    temperature: 0.1,
+    maxTokens: 150,
+    json: true,
+  });
+
+  const responseText = content || '{}';
+  const response = JSON.parse(responseText);
+
+  let intent: QueryIntent = INTENTS.includes(response.intent) ? response.intent : 'recommend';
+  const cardNames: string[] = Array.isArray(response.card_names)
+    ? response.card_names.filter((name: unknown) => typeof name === 'string' && name.trim()).map((name: string) => name.trim())
+    : [];
+
+  // Downgrade intents whose entities are missing
+  if (intent === 'specific_card' && cardNames.length === 0) intent = 'recommend';
+  if (intent === 'compare' && cardNames.length < 2) intent = 'general';
+  if (intent === 'about_previous' && previousCards.length === 0) intent = 'recommend';
+
+  const clarifyingQuestion = typeof response.clarifying_question === 'string' && response.clarifying_question.trim()
+    ? response.clarifying_question.trim()
+    : undefined;
+  if (intent === 'clarify' && !clarifyingQuestion) intent = 'recommend';
+
+  return {
+    intent,
+    cardNames,
+    ...(intent === 'clarify' ? { clarifyingQuestion } : {}),
+    source: 'llm',
+    reason: typeof response.reason === 'string' ? response.reason : undefined,
+  };
+}
+
+/**
+ * Decides how to answer a message: regex pre-check first, then one classifier call
+ * Constraints are always extracted so every route can use them
+ */
+export async function classifyIntent(
+  userQuery: string,
+  conversationHistory?: ConversationMessage[],
+  previousRecommendations?: Recommendation[],
+  prompts?: PromptSelection
+): Promise<IntentClassification> {
+  const constraints = extractConstraints(userQuery, conversationHistory);
+
+  const preCheck = preCheckIntent(userQuery, previousRecommendations);
+  if (preCheck) {
+    return { ...preCheck, constraints };
+  }
+
+  try {
+    const classification = await classifyWithModel(userQuery, conversationHistory, previousRecommendations, prompts);
+    return { ...classification, constraints };
+  } catch (error) {
+    console.error('Error classifying intent:', error);
+    console.warn('Defaulting to recommend');
+    return { intent: 'recommend', cardNames: [], constraints, source: 'fallback' };
+  }
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const COUNT = String.raw`(\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+/**
+ * "top 5", "5 best cards", "give me four travel options"; "I have 2 cards" states a fact, not a request
+ */
+const REQUESTED_COUNT_PATTERNS = [
+  new RegExp(String.raw`\btop\s+${COUNT}\b`, 'i'),
+  new RegExp(String.raw`(?<![$\d.,])\b${COUNT}\s+(?:[a-z-]+\s+){0,2}?(?:cards|options|picks|recommendations|suggestions|choices)\b`, 'i'),
+];
+
+/**
+ * Number of cards the message asks for, or null when it does not say
+ */
+export function extractRequestedCount(userQuery: string): number | null {
+  for (const pattern of REQUESTED_COUNT_PATTERNS) {
+    const match = pattern.exec(userQuery);
+    if (!match) continue;
+    if (/\b(have|own|hold|got|carry)\s+$/i.test(userQuery.slice(0, match.index))) continue;
+
+    const value = match[1].toLowerCase();
+    const count = NUMBER_WORDS[value] ?? parseInt(value, 10);
+    if (count > 0) return count;
+  }
+  return null;
+}
@@ -0,0 +1,87 @@
+/**
+ * BM25 keyword search over tokenized documents
+ * Complements embedding search for exact terms such as brand names and fee phrases
+ */
+
+export interface KeywordSearchResult {
+  index: number;
+  score: number;
+}
+
+export interface KeywordIndex {
+  size: number;
+  search(queryTokens: string[], topN: number, accept?: (index: number) => boolean): KeywordSearchResult[];
+}
+
+export interface Bm25Options {
+  k1?: number; // Term frequency saturation
+  b?: number; // Length normalization strength (0 = none, 1 = full)
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'best', 'by', 'can', 'card', 'cards', 'credit', 'do', 'for',
+  'from', 'good', 'has', 'have', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'to',
+  'want', 'what', 'which', 'with', 'you',
+]);
+
+/**
+ * Lowercases, strips symbols and stopwords, and folds simple plurals ("hotels" -> "hotel")
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[®™©]/g, '')
+    .replace(/[^a-z0-9%]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !STOPWORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Builds a BM25 index; documents are token lists in store order
+ */
+export function createKeywordIndex(documents: string[][], options: Bm25Options = {}): KeywordIndex {
+  const k1 = options.k1 ?? 1.2;
+  const b = options.b ?? 0.75;
+  const size = documents.length;
+  const averageLength = size > 0 ? documents.reduce((sum, tokens) => sum + tokens.length, 0) / size : 0;
+
+  // term -> postings of [document index, term frequency]
+  const postings = new Map<string, Array<[number, number]>>();
+  documents.forEach((tokens, index) => {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    counts.forEach((count, term) => {
+      const list = postings.get(term) || [];
+      list.push([index, count]);
+      postings.set(term, list);
+    });
+  });
+
+  return {
+    size,
+    search(queryTokens: string[], topN: number, accept?: (index: number) => boolean) {
+      const scores = new Map<number, number>();
+
+      for (const term of Array.from(new Set(queryTokens))) {
+        const list = postings.get(term);
+        if (!list) continue;
+
+        const idf = Math.log(1 + (size - list.length + 0.5) / (list.length + 0.5));
+        for (const [index, frequency] of list) {
+          if (accept && !accept(index)) continue;
+          const lengthRatio = averageLength > 0 ? documents[index].length / averageLength : 1;
+          const weight = (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * lengthRatio));
+          scores.set(index, (scores.get(index) || 0) + idf * weight);
+        }
+      }
+
+      return Array.from(scores.entries())
+        .map(([index, score]) => ({ index, score }))
+        .sort((x, y) => y.score - x.score)
+        .slice(0, topN);
+    },
+  };
+}
@@ -0,0 +1,320 @@
+import OpenAI from 'openai';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { getOpenAIFetch, getTransportMode } from './openaiTransport';
+
+/**
+ * Chat completion providers and the shared OpenAI client
+ * Every model call goes through here, so timeouts, usage accounting and test doubles live in one place
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  label: string; // Call site name ("intent", "recommend", "title", ...), used for usage stats and mock scripts
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object response
+  model?: string; // Overrides the provider's model
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  usage: ChatUsage | null; // Null when the provider does not report usage
+}
+
+export interface ChatProvider {
+  name: string;
+  model: string;
+  complete(request: ChatRequest): Promise<ChatResult>;
+  // Calls onDelta with each piece of content as it arrives and resolves with the full result
+  stream(request: ChatRequest, onDelta: (text: string) => void): Promise<ChatResult>;
+}
+
+/**
+ * Configuration for chat completions
+ */
+const CHAT_PROVIDER = process.env.CHAT_PROVIDER || 'openai';
+// Use gpt-3.5-turbo for faster inference (can switch to gpt-4o-mini for better quality)
+const CHAT_MODEL = process.env.CHAT_MODEL || 'gpt-3.5-turbo';
+const CHAT_BASE_URL = process.env.CHAT_BASE_URL;
+const CHAT_TIMEOUT_MS = parseInt(process.env.CHAT_TIMEOUT_MS || '30000', 10);
+const CHAT_MOCK_FILE = process.env.CHAT_MOCK_FILE;
+
+/**
+ * Lazy-loaded OpenAI client to ensure environment variables are loaded first
+ * Replayed requests never reach the API, so they need no key
+ */
+export function getOpenAIClient() {
+  const replaying = getTransportMode() === 'replay';
+  if (!process.env.OPENAI_API_KEY && !replaying) {
+    throw new Error('OPENAI_API_KEY is not set. Please check your .env.local file.');
+  }
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY || 'replay',
+    fetch: getOpenAIFetch(),
+  });
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): ChatUsage | null {
+  return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : null;
+}
+
+/**
+ * Chats through the OpenAI API or any server that implements it (vLLM, Ollama, LM Studio, ...)
+ */
+export function createOpenAIChatProvider(options: {
+  name?: string;
+  model?: string;
+  baseURL?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+} = {}): ChatProvider {
+  const model = options.model || CHAT_MODEL;
+  const name = options.name || (options.baseURL ? 'openai-compatible' : 'openai');
+  let client: OpenAI | null = null;
+
+  const getClient = () => {
+    if (!client) {
+      const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+      if (!apiKey && !options.baseURL && getTransportMode() !== 'replay') {
+        throw new Error('OPENAI_API_KEY is not set. Please check your .env.local file.');
+      }
+      client = new OpenAI({
+        // Local servers and replayed fixtures ignore the key, but the SDK requires one
+        apiKey: apiKey || 'not-needed',
+        baseURL: options.baseURL,
+        timeout: options.timeoutMs ?? CHAT_TIMEOUT_MS,
+        fetch: getOpenAIFetch(),
+      });
+    }
+    return client;
+  };
+
+  const params = (request: ChatRequest) => ({
+    model: request.model || model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    name,
+    model,
+    async complete(request: ChatRequest) {
+      const completion = await getClient().chat.completions.create(params(request));
+      const result = {
+        content: completion.choices[0]?.message?.content || '',
+        model: completion.model || request.model || model,
+        usage: toUsage(completion.usage),
+      };
+      recordUsage(request.label, result.usage);
+      return result;
+    },
+    async stream(request: ChatRequest, onDelta: (text: string) => void) {
+      const stream = await getClient().chat.completions.create({
+        ...params(request),
+        stream: true,
+        // Compatible servers may reject stream options they do not know
+        ...(options.baseURL ? {} : { stream_options: { include_usage: true } }),
+      });
+
+      let content = '';
+      let usage: ChatUsage | null = null;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content || '';
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        usage = toUsage(chunk.usage) || usage;
+      }
+
+      recordUsage(request.label, usage);
+      return { content, model: request.model || model, usage };
+    },
+  };
+}
+
+/**
+ * A scripted reply: fixed text, or text computed from the request
+ */
+export type MockReply = string | ((request: ChatRequest) => string);
+
+/**
+ * Replies per call label; a list is used in order and its last entry repeats
+ * `default` answers labels the script does not mention
+ */
+export type MockChatScript = Record<string, MockReply | MockReply[]>;
+
+/**
+ * Answers from a script instead of a model, for tests and offline runs
+ * `calls` records every request so tests can inspect the prompts
+ */
+export function createMockChatProvider(script: MockChatScript): ChatProvider & { calls: ChatRequest[] } {
+  const calls: ChatRequest[] = [];
+  const positions = new Map<string, number>();
+
+  const reply = (request: ChatRequest): string => {
+    calls.push(request);
+    const entry = script[request.label] ?? script.default;
+    if (entry === undefined) {
+      throw new Error(`Mock chat provider has no reply for "${request.label}"`);
+    }
+
+    let next: MockReply;
+    if (Array.isArray(entry)) {
+      const position = positions.get(request.label) || 0;
+      positions.set(request.label, position + 1);
+      next = entry[Math.min(position, entry.length - 1)];
+    } else {
+      next = entry;
+    }
+    return typeof next === 'function' ? next(request) : next;
+  };
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    calls,
+    async complete(request: ChatRequest) {
+      const content = reply(request);
+      recordUsage(request.label, null);
+      return { content, model: 'mock', usage: null };
+    },
+    async stream(request: ChatRequest, onDelta: (text: string) => void) {
+      const content = reply(request);
+      // Small chunks so streaming consumers see more than one delta
+      for (let i = 0; i < content.length; i += 16) {
+        onDelta(content.slice(i, i + 16));
+      }
+      recordUsage(request.label, null);
+      return { content, model: 'mock', usage: null };
+    },
+  };
+}
+
+/**
+ * Reads a mock script from a JSON file of { "<label>": "reply" | ["reply", ...] }
+ */
+function loadMockScript(filePath: string): MockChatScript {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  return JSON.parse(readFileSync(resolved, 'utf-8'));
+}
+
+let overrideProvider: ChatProvider | null = null;
+let cachedProvider: ChatProvider | null = null;
+
+/**
+ * Replaces the configured provider, e.g. with a mock in tests; pass null to restore it
+ */
+export function setChatProvider(provider: ChatProvider | null) {
+  overrideProvider = provider;
+}
+
+/**
+ * Returns the provider selected by CHAT_PROVIDER (openai, openai-compatible or mock)
+ */
+export function getChatProvider(): ChatProvider {
+  if (overrideProvider) return overrideProvider;
+  if (cachedProvider) return cachedProvider;
+
+  switch (CHAT_PROVIDER) {
+    case 'openai':
+      cachedProvider = createOpenAIChatProvider({ baseURL: CHAT_BASE_URL });
+      break;
+    case 'openai-compatible':
+      if (!CHAT_BASE_URL) {
+        throw new Error('CHAT_BASE_URL is required when CHAT_PROVIDER is openai-compatible.');
+      }
+      cachedProvider = createOpenAIChatProvider({ baseURL: CHAT_BASE_URL, apiKey: process.env.CHAT_API_KEY });
+      break;
+    case 'mock':
+      if (!CHAT_MOCK_FILE) {
+        throw new Error('CHAT_MOCK_FILE is required when CHAT_PROVIDER is mock.');
+      }
+      cachedProvider = createMockChatProvider(loadMockScript(CHAT_MOCK_FILE));
+      break;
+    default:
+      throw new Error(`Unknown CHAT_PROVIDER "${CHAT_PROVIDER}". Use openai, openai-compatible or mock.`);
+  }
+
+  return cachedProvider;
+}
+
+/**
+ * Describes why chat calls cannot work with the current configuration, or null when they can
+ */
+export function getChatConfigError(): string | null {
+  if (overrideProvider) return null;
+  if (CHAT_PROVIDER === 'openai' && !process.env.OPENAI_API_KEY && getTransportMode() !== 'replay') {
+    return 'OPENAI_API_KEY is not set';
+  }
+  if (CHAT_PROVIDER === 'openai-compatible' && !CHAT_BASE_URL) {
+    return 'CHAT_BASE_URL is not set';
+  }
+  if (CHAT_PROVIDER === 'mock' && !CHAT_MOCK_FILE) {
+    return 'CHAT_MOCK_FILE is not set';
+  }
+  return null;
+}
+
+/**
+ * Shorthand for a single completion through the configured provider
+ */
+export function chatComplete(request: ChatRequest): Promise<ChatResult> {
+  return getChatProvider().complete(request);
+}
+
+/**
+ * Shorthand for a streamed completion through the configured provider
+ */
+export function chatStream(request: ChatRequest, onDelta: (text: string) => void): Promise<ChatResult> {
+  return getChatProvider().stream(request, onDelta);
+}
+
+/**
+ * Token usage per call label since the process started (or since the last reset)
+ */
+export interface UsageStats {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  byLabel: Record<string, { calls: number; promptTokens: number; completionTokens: number }>;
+}
+
+const usageStats: UsageStats = { calls: 0, promptTokens: 0, completionTokens: 0, byLabel: {} };
+
+function recordUsage(label: string, usage: ChatUsage | null) {
+  const entry = usageStats.byLabel[label] || (usageStats.byLabel[label] = { calls: 0, promptTokens: 0, completionTokens: 0 });
+  usageStats.calls++;
+  entry.calls++;
+  if (usage) {
+    usageStats.promptTokens += usage.promptTokens;
+    usageStats.completionTokens += usage.completionTokens;
+    entry.promptTokens += usage.promptTokens;
+    entry.completionTokens += usage.completionTokens;
+  }
+}
+
+export function getUsageStats(): UsageStats {
+  return JSON.parse(JSON.stringify(usageStats));
+}
+
+export function resetUsageStats() {
+  usageStats.calls = 0;
+  usageStats.promptTokens = 0;
+  usageStats.completionTokens = 0;
+  usageStats.byLabel = {};
+}
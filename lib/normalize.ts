@@ -0,0 +1,349 @@
+import {
+  CreditCard,
+  NormalizedCard,
+  FieldParseError,
+  CategoryMultiplier,
+  CreditScoreTier,
+  RewardType,
+  CardNetwork,
+  SpendCategory,
+  AprRange,
+} from '@/types';
+
+/**
+ * Candidate column names for each normalized field, in priority order
+ * Mirrors the fallbacks already used when building recommendations
+ */
+const FIELD_COLUMNS = {
+  annualFee: ['annual_fee', 'fee'],
+  apr: ['apr', 'regular_apr', 'purchase_apr'],
+  introApr: ['intro_apr', 'intro_apr_period'],
+  creditScore: ['credit_score_needed', 'credit_score', 'min_credit_score', 'credit_score_required'],
+  rewards: ['rewards_rate', 'rewards', 'reward_rate'],
+  multipliers: ['points_multipliers', 'rewards_rate', 'rewards', 'reward_rate'],
+  issuer: ['issuer', 'bank'],
+  network: ['network', 'card_network'],
+};
+
+/**
+ * Issuers recognised in card names when there is no issuer column
+ */
+export const KNOWN_ISSUERS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'American Express', pattern: /\b(american express|amex)\b/i },
+  { name: 'Chase', pattern: /\bchase\b/i },
+  { name: 'Capital One', pattern: /\bcapital one\b/i },
+  { name: 'Citi', pattern: /\bciti(bank)?\b/i },
+  { name: 'Discover', pattern: /\bdiscover\b/i },
+  { name: 'Bank of America', pattern: /\bbank of america\b/i },
+  { name: 'Wells Fargo', pattern: /\bwells fargo\b/i },
+  { name: 'U.S. Bank', pattern: /\bu\.?s\.? bank\b/i },
+  { name: 'Barclays', pattern: /\bbarclays\b/i },
+  { name: 'Synchrony', pattern: /\bsynchrony\b/i },
+  { name: 'Goldman Sachs', pattern: /\b(goldman sachs|apple card)\b/i },
+];
+
+/**
+ * Keywords mapped to spending categories, checked in order
+ */
+const CATEGORY_KEYWORDS: Array<{ category: SpendCategory; pattern: RegExp }> = [
+  { category: 'rotating', pattern: /rotating|quarterly|activat/i },
+  { category: 'flights', pattern: /flight|airfare|airline/i },
+  { category: 'hotels', pattern: /hotel/i },
+  { category: 'dining', pattern: /dining|restaurant|takeout|food delivery/i },
+  { category: 'groceries', pattern: /grocer|supermarket/i },
+  { category: 'gas', pattern: /\bgas\b|fuel|ev charging/i },
+  { category: 'streaming', pattern: /streaming|subscription/i },
+  { category: 'drugstores', pattern: /drugstore|pharmac/i },
+  { category: 'transit', pattern: /transit|rideshare|commut/i },
+  { category: 'online_shopping', pattern: /online|amazon/i },
+  { category: 'travel', pattern: /travel|rental car|cruise/i },
+  { category: 'everything', pattern: /every|all (other )?purchases|everything|other purchases|all spend/i },
+];
+
+/**
+ * Returns the first non-empty value among the candidate columns
+ */
+function firstField(card: CreditCard, columns: string[]): { field: string; value: string } | null {
+  for (const field of columns) {
+    const value = card[field];
+    if (value !== undefined && value !== null && String(value).trim()) {
+      return { field, value: String(value).trim() };
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses dollar amounts such as "$95", "$0 intro, then $95" or "No annual fee"
+ */
+export function parseAnnualFee(value: string): number | null {
+  const lower = value.toLowerCase();
+  const amounts = Array.from(value.matchAll(/\$?\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?)/g)).map(m =>
+    parseFloat(m[1].replace(/,/g, ''))
+  );
+
+  // "$0 the first year, then $95" - the ongoing fee is what matters
+  const thenMatch = value.match(/then\s+\$?\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?)/i);
+  if (thenMatch) {
+    return parseFloat(thenMatch[1].replace(/,/g, ''));
+  }
+
+  if (amounts.length > 0) {
+    return amounts[0];
+  }
+
+  if (/\b(no|none|free|waived)\b/.test(lower)) {
+    return 0;
+  }
+
+  return null;
+}
+
+/**
+ * Parses APR text such as "20.24% - 28.24% Variable" or "21.49%"
+ */
+export function parseApr(value: string): AprRange | null {
+  const percents = Array.from(value.matchAll(/(\d+(?:\.\d+)?)\s*%/g)).map(m => parseFloat(m[1]));
+  // Intro 0% rates belong to intro_apr, not the regular range
+  const rates = percents.filter(p => p > 0);
+
+  if (rates.length === 0) {
+    return null;
+  }
+
+  return {
+    min: Math.min(...rates),
+    max: Math.max(...rates),
+  };
+}
+
+/**
+ * Parses the length of an intro APR offer in months, e.g. "0% for 15 months"
+ * Returns 0 when the card explicitly has no intro APR
+ */
+export function parseIntroAprMonths(value: string): number | null {
+  const months = value.match(/(\d+)\s*(?:billing\s+cycles|months?|mos?\.?)\b/i);
+  if (months) {
+    return parseInt(months[1], 10);
+  }
+
+  if (/^(n\/?a|none|no|-)$/i.test(value.trim())) {
+    return 0;
+  }
+
+  return null;
+}
+
+/**
+ * Maps a numeric FICO score to a tier
+ */
+export function scoreToTier(score: number): CreditScoreTier {
+  if (score >= 740) return 'excellent';
+  if (score >= 670) return 'good';
+  if (score >= 580) return 'fair';
+  return 'poor';
+}
+
+/**
+ * Parses credit score requirements such as "690+", "670-739" or "Good to Excellent"
+ * The lowest mentioned score or tier wins since that is the entry requirement
+ */
+export function parseCreditScore(value: string): { minScore: number | null; tier: CreditScoreTier } | null {
+  const scores = Array.from(value.matchAll(/\b([3-8]\d{2})\b/g)).map(m => parseInt(m[1], 10));
+  if (scores.length > 0) {
+    const minScore = Math.min(...scores);
+    return { minScore, tier: scoreToTier(minScore) };
+  }
+
+  const lower = value.toLowerCase();
+  const tiersByLeniency: Array<{ tier: CreditScoreTier; pattern: RegExp }> = [
+    { tier: 'limited', pattern: /no credit|limited|new to credit|building|secured/ },
+    { tier: 'poor', pattern: /poor|bad/ },
+    { tier: 'fair', pattern: /fair|average/ },
+    { tier: 'good', pattern: /good/ },
+    { tier: 'excellent', pattern: /excellent|exceptional/ },
+  ];
+
+  for (const { tier, pattern } of tiersByLeniency) {
+    if (pattern.test(lower)) {
+      return { minScore: null, tier };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Works out whether a card earns cash back, points or miles
+ */
+export function parseRewardType(...texts: string[]): RewardType {
+  const combined = texts.join(' ').toLowerCase();
+  if (/\bmiles?\b/.test(combined)) return 'miles';
+  if (/cash\s*back|cashback|% back|\d+(\.\d+)?%/.test(combined)) return 'cash_back';
+  if (/\bpoints?\b|\d+(\.\d+)?\s*x\b/.test(combined)) return 'points';
+  return 'unknown';
+}
+
+/**
+ * Finds the issuer from an explicit column value or the card name
+ */
+export function parseIssuer(cardName: string, issuerValue?: string): string | null {
+  const source = issuerValue || cardName;
+  for (const { name, pattern } of KNOWN_ISSUERS) {
+    if (pattern.test(source)) {
+      return name;
+    }
+  }
+  return issuerValue || null;
+}
+
+/**
+ * Finds the payment network from an explicit column value, the card name or the issuer
+ */
+export function parseNetwork(cardName: string, issuer: string | null, networkValue?: string): CardNetwork {
+  const source = `${networkValue || ''} ${cardName}`.toLowerCase();
+  if (/mastercard|master card/.test(source)) return 'mastercard';
+  if (/\bvisa\b/.test(source)) return 'visa';
+  if (/american express|\bamex\b/.test(source) || issuer === 'American Express') return 'amex';
+  if (/discover/.test(source) || issuer === 'Discover') return 'discover';
+  return 'unknown';
+}
+
+/**
+ * Maps free text describing where a multiplier applies to a category
+ */
+export function categorize(text: string): SpendCategory | null {
+  for (const { category, pattern } of CATEGORY_KEYWORDS) {
+    if (pattern.test(text)) {
+      return category;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses a spend cap such as "on up to $6,000 per year" or "up to $1,500 each quarter" as a yearly amount
+ */
+function parseAnnualSpendCap(clause: string): number | null {
+  const match = clause.match(/up to \$\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?)\s*(k\b)?(?:\s*(?:per|a|each|every)\s+(year|quarter|month))?/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1].replace(/,/g, '')) * (match[2] ? 1000 : 1);
+  const period = (match[3] || 'year').toLowerCase();
+  return period === 'quarter' ? amount * 4 : period === 'month' ? amount * 12 : amount;
+}
+
+/**
+ * Parses per-category earn rates such as "3x on dining, 2x on travel" or "5% cash back on groceries"
+ * A portal-only rate does not hide a later general rate for the same category
+ * ("5x on travel through Chase Travel, 2x on all other travel")
+ */
+export function parseMultipliers(value: string): CategoryMultiplier[] {
+  const multipliers: CategoryMultiplier[] = [];
+  const seen = new Set<string>();
+
+  // Split on list separators so each clause yields at most one multiplier; "$6,000" is not a separator
+  const clauses = value.split(/[;\n•|]|,(?!\d{3})|\band\b(?=\s*\d)/i).map(c => c.trim()).filter(Boolean);
+
+  for (const clause of clauses) {
+    const match = clause.match(/(\d+(?:\.\d+)?)\s*(x|%)/i);
+    if (!match) continue;
+
+    const rate = parseFloat(match[1]);
+    const unit = match[2] === '%' ? 'percent' : 'x';
+    const category = categorize(clause.slice((match.index || 0) + match[0].length)) || categorize(clause);
+    const portalOnly = /\b(through|via)\b.*\btravel\b|\bportal\b/i.test(clause);
+    const key = `${category}:${portalOnly}`;
+    if (!category || seen.has(key) || rate <= 0) continue;
+
+    seen.add(key);
+    multipliers.push({ category, rate, unit, label: clause, portalOnly, annualSpendCap: parseAnnualSpendCap(clause) });
+  }
+
+  return multipliers;
+}
+
+/**
+ * Builds the normalized view of a card and collects fields that failed to parse
+ * Missing columns are not errors; values that are present but unparseable are
+ */
+export function normalizeCard(card: CreditCard): { normalized: NormalizedCard; parseErrors: FieldParseError[] } {
+  const parseErrors: FieldParseError[] = [];
+  const fail = (field: string, value: string, reason: string) => {
+    parseErrors.push({ field, value, reason });
+  };
+
+  const feeField = firstField(card, FIELD_COLUMNS.annualFee);
+  let annualFee: number | null = null;
+  if (feeField) {
+    annualFee = parseAnnualFee(feeField.value);
+    if (annualFee === null) fail(feeField.field, feeField.value, 'No dollar amount found');
+  }
+
+  const aprField = firstField(card, FIELD_COLUMNS.apr);
+  let apr: AprRange | null = null;
+  if (aprField) {
+    apr = parseApr(aprField.value);
+    if (!apr) fail(aprField.field, aprField.value, 'No APR percentage found');
+  }
+
+  const introAprField = firstField(card, FIELD_COLUMNS.introApr);
+  let introAprMonths: number | null = null;
+  if (introAprField) {
+    introAprMonths = parseIntroAprMonths(introAprField.value);
+    if (introAprMonths === null) fail(introAprField.field, introAprField.value, 'No intro period length found');
+  }
+
+  const scoreField = firstField(card, FIELD_COLUMNS.creditScore);
+  let minCreditScore: number | null = null;
+  let creditScoreTier: CreditScoreTier = 'unknown';
+  if (scoreField) {
+    const score = parseCreditScore(scoreField.value);
+    if (score) {
+      minCreditScore = score.minScore;
+      creditScoreTier = score.tier;
+    } else {
+      fail(scoreField.field, scoreField.value, 'No credit score or tier found');
+    }
+  }
+
+  const rewardsField = firstField(card, FIELD_COLUMNS.rewards);
+  const multipliersField = firstField(card, FIELD_COLUMNS.multipliers);
+  const rewardType = parseRewardType(
+    card.credit_card_name,
+    rewardsField?.value || '',
+    multipliersField?.value || ''
+  );
+
+  let multipliers: CategoryMultiplier[] = [];
+  if (multipliersField) {
+    multipliers = parseMultipliers(multipliersField.value);
+    if (multipliers.length === 0 && /\d/.test(multipliersField.value)) {
+      fail(multipliersField.field, multipliersField.value, 'No category multipliers recognised');
+    }
+  }
+
+  const issuerField = firstField(card, FIELD_COLUMNS.issuer);
+  const issuer = parseIssuer(card.credit_card_name, issuerField?.value);
+
+  const networkField = firstField(card, FIELD_COLUMNS.network);
+  const network = parseNetwork(card.credit_card_name, issuer, networkField?.value);
+  if (networkField && network === 'unknown') {
+    fail(networkField.field, networkField.value, 'Unrecognised card network');
+  }
+
+  return {
+    normalized: {
+      annualFee,
+      apr,
+      introAprMonths,
+      minCreditScore,
+      creditScoreTier,
+      rewardType,
+      issuer,
+      network,
+      multipliers,
+    },
+    parseErrors,
+  };
+}
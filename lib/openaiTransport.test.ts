@@ -0,0 +1,110 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import OpenAI from 'openai';
+
+// Replay mode is read when the modules load, so it is set before they are imported
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-fixtures-'));
+process.env.OPENAI_TRANSPORT = 'replay';
+process.env.OPENAI_FIXTURES_DIR = fixturesDir;
+process.env.OPENAI_API_KEY = '';
+process.env.CHAT_PROVIDER = 'openai';
+process.env.CHAT_MODEL = 'gpt-test';
+process.env.EMBEDDING_PROVIDER = 'openai';
+process.env.EMBEDDINGS_MODEL = 'embedding-test';
+
+type Transport = typeof import('./openaiTransport');
+type Fetch = Parameters<Transport['createRecordReplayFetch']>[0]['fetch'];
+
+const EMBEDDING = [0.25, -0.5, 1];
+
+/**
+ * Stands in for the API; answers compressed-looking responses, like the real one behind a proxy
+ */
+const fakeNetwork = (async (url: RequestInfo, init?: RequestInit) => {
+  const body = JSON.parse(String(init?.body));
+  const payload = new URL(String(url)).pathname.endsWith('/embeddings')
+    ? {
+        object: 'list',
+        model: body.model,
+        data: [{ object: 'embedding', index: 0, embedding: Buffer.from(new Float32Array(EMBEDDING).buffer).toString('base64') }],
+        usage: { prompt_tokens: 1, total_tokens: 1 },
+      }
+    : {
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Recorded answer' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      };
+  return new Response(JSON.stringify(payload), {
+    status: 200,
+    headers: { 'content-type': 'application/json', 'content-encoding': 'gzip', 'content-length': '7' },
+  });
+}) as unknown as Fetch;
+
+let transport: Transport;
+
+describe('record/replay transport', () => {
+  before(async () => {
+    transport = await import('./openaiTransport');
+  });
+
+  after(() => {
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('records a response without the encoding headers of the original', async () => {
+    const record = transport.createRecordReplayFetch({ mode: 'record', dir: fixturesDir, fetch: fakeNetwork });
+    const response = await record('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'gpt-test', messages: [] }),
+    });
+
+    assert.equal(response.headers.get('content-encoding'), null);
+    assert.equal(response.headers.get('content-length'), null);
+    assert.equal(response.headers.get('content-type'), 'application/json');
+    assert.equal((await response.json()).choices[0].message.content, 'Recorded answer');
+    assert.equal(fs.readdirSync(fixturesDir).filter(file => file.startsWith('chat-completions-')).length, 1);
+  });
+
+  it('replays chat and embedding calls with no key or network', async () => {
+    // Record the exact calls the providers make, through the same client
+    const client = new OpenAI({
+      apiKey: 'recording',
+      fetch: transport.createRecordReplayFetch({ mode: 'record', dir: fixturesDir, fetch: fakeNetwork }),
+    });
+    await client.chat.completions.create({
+      model: 'gpt-test',
+      messages: [{ role: 'user', content: 'Which card is best for travel?' }],
+      temperature: 0,
+      max_tokens: 50,
+    });
+    await client.embeddings.create({ model: 'embedding-test', input: ['lounge access'] });
+
+    const { chatComplete } = await import('./llm');
+    const { embedQuery } = await import('./embeddings');
+
+    const result = await chatComplete({
+      label: 'test',
+      messages: [{ role: 'user', content: 'Which card is best for travel?' }],
+      temperature: 0,
+      maxTokens: 50,
+    });
+    assert.equal(result.content, 'Recorded answer');
+    assert.deepEqual(result.usage, { promptTokens: 3, completionTokens: 2 });
+
+    assert.deepEqual(await embedQuery('lounge access'), EMBEDDING);
+  });
+
+  it('fails a request that was never recorded', async () => {
+    const { chatComplete } = await import('./llm');
+    await assert.rejects(
+      chatComplete({ label: 'test', messages: [{ role: 'user', content: 'Never recorded' }] }),
+      /No recorded response/
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ClientOptions } from 'openai';
+import { canonicalJSON } from './snapshots';
+
+/**
+ * Record/replay transport for the OpenAI client
+ * In record mode every successful request/response pair is saved to a fixture file keyed by a hash of the
+ * normalized request; in replay mode those fixtures answer instead of the network, so no API key is needed
+ */
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+type Fetch = NonNullable<ClientOptions['fetch']>;
+
+/**
+ * Configuration for the transport
+ */
+const OPENAI_TRANSPORT = (process.env.OPENAI_TRANSPORT || 'live') as TransportMode;
+const OPENAI_FIXTURES_DIR = path.resolve(process.cwd(), process.env.OPENAI_FIXTURES_DIR || path.join('data', 'fixtures', 'openai'));
+
+/**
+ * A saved exchange; the request is kept so fixtures can be read and pruned by hand
+ */
+interface Fixture {
+  request: { method: string; path: string; body: unknown };
+  response: { status: number; contentType: string; body: string };
+}
+
+/**
+ * The request as it is keyed: method, path and the JSON body with sorted keys
+ * Host and headers are left out, so the same call matches across base URLs and API keys
+ */
+function normalizeRequest(url: string, init?: RequestInit): Fixture['request'] {
+  const { pathname } = new URL(url);
+  let body: unknown = init?.body ?? null;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Not JSON, keyed as text
+    }
+  }
+  return { method: (init?.method || 'GET').toUpperCase(), path: pathname, body };
+}
+
+/**
+ * Fixture file for a request: "<endpoint>-<hash>.json", e.g. chat-completions-3f2a....json
+ */
+function fixturePath(dir: string, request: Fixture['request']): string {
+  const hash = createHash('sha256').update(canonicalJSON(request)).digest('hex').slice(0, 16);
+  const endpoint = request.path.replace(/^\/(v\d+\/)?/, '').replace(/[^a-z0-9]+/gi, '-') || 'root';
+  return path.join(dir, `${endpoint}-${hash}.json`);
+}
+
+/**
+ * Wraps fetch for the OpenAI client; streamed responses are saved as their raw event text and replayed whole
+ */
+export function createRecordReplayFetch(options: { mode: 'record' | 'replay'; dir?: string; fetch?: Fetch }): Fetch {
+  const dir = options.dir || OPENAI_FIXTURES_DIR;
+  const baseFetch: Fetch = options.fetch || (globalThis.fetch as unknown as Fetch);
+
+  return (async (url: RequestInfo, init?: RequestInit) => {
+    const request = normalizeRequest(String(url), init);
+    const file = fixturePath(dir, request);
+
+    if (options.mode === 'replay') {
+      if (!fs.existsSync(file)) {
+        // 404 rather than a thrown error, which the client would retry as a connection failure
+        const message = `No recorded response for ${request.method} ${request.path} (${path.basename(file)}). Record it with OPENAI_TRANSPORT=record.`;
+        return new Response(JSON.stringify({ error: { message, type: 'replay_miss' } }), {
+          status: 404,
+          headers: { 'content-type': 'application/json' },
+        });
+      }
+      const fixture: Fixture = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      return new Response(fixture.response.body, {
+        status: fixture.response.status,
+        headers: { 'content-type': fixture.response.contentType },
+      });
+    }
+
+    const response = await baseFetch(url, init);
+    const body = await response.text();
+    const contentType = response.headers.get('content-type') || 'application/json';
+
+    // Errors and rate limits are not worth replaying
+    if (response.ok) {
+      const fixture: Fixture = { request, response: { status: response.status, contentType, body } };
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+    }
+
+    // The body was read decoded, so the original encoding and length no longer describe it
+    const headers = new Headers(response.headers);
+    headers.delete('content-encoding');
+    headers.delete('content-length');
+    return new Response(body, { status: response.status, headers });
+  }) as Fetch;
+}
+
+/**
+ * Mode selected by OPENAI_TRANSPORT (live, record or replay)
+ */
+export function getTransportMode(): TransportMode {
+  if (!['live', 'record', 'replay'].includes(OPENAI_TRANSPORT)) {
+    throw new Error(`Unknown OPENAI_TRANSPORT "${OPENAI_TRANSPORT}". Use live, record or replay.`);
+  }
+  return OPENAI_TRANSPORT;
+}
+
+/**
+ * fetch for new OpenAI clients: undefined when live, so the client uses its own
+ */
+export function getOpenAIFetch(): Fetch | undefined {
+  const mode = getTransportMode();
+  return mode === 'live' ? undefined : createRecordReplayFetch({ mode });
+}
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractProfileUpdates, namesCardProduct } from './profile';
+
+describe('extractProfileUpdates cardsHeld', () => {
+  const cases: Array<{ text: string; cardsHeld: string[] | undefined }> = [
+    { text: 'I already have the Chase Sapphire Preferred and an Amex Gold', cardsHeld: ['Chase Sapphire Preferred', 'Amex Gold'] },
+    { text: "I've got a Capital One Venture card", cardsHeld: ['Capital One Venture'] },
+    { text: 'I have a Chase card', cardsHeld: undefined }, // An issuer alone names no card
+    { text: 'I already have an Amex', cardsHeld: undefined },
+    { text: 'I have no credit cards', cardsHeld: undefined },
+  ];
+
+  for (const { text, cardsHeld } of cases) {
+    it(`reads ${JSON.stringify(text)}`, () => {
+      assert.deepEqual(extractProfileUpdates(text).cardsHeld, cardsHeld);
+    });
+  }
+});
+
+describe('namesCardProduct', () => {
+  it('rejects issuer-only names kept in older profiles', () => {
+    assert.deepEqual(['Chase', 'Amex', 'Citi Double Cash', 'Blue Cash Preferred'].filter(namesCardProduct), ['Citi Double Cash', 'Blue Cash Preferred']);
+  });
+});
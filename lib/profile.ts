@@ -0,0 +1,247 @@
+import { CardConstraint, ConversationMessage, CreditScoreTier, IncomeBracket, MonthlySpend, TravelFrequency, UserProfile } from '@/types';
+import { creditConstraint, extractConstraints } from './constraints';
+import { scoreToTier } from './normalize';
+import { describeSpend, extractMonthlySpend, SPEND_CATEGORIES } from './rewardsValue';
+
+const CREDIT_TIERS: CreditScoreTier[] = ['excellent', 'good', 'fair', 'poor', 'limited'];
+const INCOME_BRACKETS: IncomeBracket[] = ['under_25k', '25k_50k', '50k_100k', '100k_150k', '150k_plus'];
+const TRAVEL_FREQUENCIES: TravelFrequency[] = ['rarely', 'occasionally', 'frequently'];
+
+const INCOME_LABELS: Record<IncomeBracket, string> = {
+  under_25k: 'under $25k',
+  '25k_50k': '$25k-$50k',
+  '50k_100k': '$50k-$100k',
+  '100k_150k': '$100k-$150k',
+  '150k_plus': '$150k+',
+};
+
+/**
+ * Income phrases: "I make $85k", "my salary is 120,000 a year", "$60k income"
+ */
+const INCOME_PATTERNS = [
+  /\b(?:i\s+(?:make|earn)|making|earning|(?:my\s+)?(?:income|salary)\s+(?:is\s+)?(?:of\s+)?)\s*(?:about|around|roughly|approximately|~)?\s*\$?\s*(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k\b|thousand)?([^.,;!?]{0,20})/i,
+  /\$\s*(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k\b|thousand)?([^.,;!?]{0,12})\s+(?:income|salary)\b/i,
+];
+
+const TRAVEL_PATTERNS: Array<{ frequency: TravelFrequency; pattern: RegExp }> = [
+  { frequency: 'rarely', pattern: /\b(rarely|never|hardly ever|don'?t|do not)\s+(travel|fly)\b|\b(travel|fly)\s+(rarely|never|very little)\b/i },
+  { frequency: 'frequently', pattern: /\b(travel|fly)\s+(a lot|often|frequently|constantly|all the time|every (week|month)|monthly|weekly|for work)\b|\bfrequent\s+(traveler|traveller|flyer|flier)\b|\broad warrior\b/i },
+  { frequency: 'occasionally', pattern: /\b(travel|fly)\s+(occasionally|sometimes|a few times a year|once or twice a year|once a year)\b|\boccasional\s+(traveler|traveller|trips?)\b/i },
+];
+
+/**
+ * Product names that make an "I have ..." statement name a card
+ * An issuer alone ("a Chase card", "an Amex") names no product, and would match an arbitrary card of that issuer
+ */
+const CARD_PRODUCT_PATTERN = /\b(sapphire|freedom|venture|savor(one)?|quicksilver|double cash|custom cash|blue cash|active cash|autograph|strata|premier|bilt|ink|reflect|discover it|(amex|american express)\s+(gold|platinum|green)|(gold|platinum) card)\b/i;
+
+const HOLDING_PATTERN = /\b(?:i\s+(?:already\s+|currently\s+)?(?:have|own|hold|carry)|i'?ve\s+(?:already\s+)?got|my\s+current\s+cards?\s+(?:is|are))\s+(?:the\s+|an?\s+|my\s+)?([^.;!?]+)/gi;
+
+function incomeBracket(income: number): IncomeBracket {
+  if (income < 25000) return 'under_25k';
+  if (income < 50000) return '25k_50k';
+  if (income < 100000) return '50k_100k';
+  if (income < 150000) return '100k_150k';
+  return '150k_plus';
+}
+
+function parseIncome(text: string): IncomeBracket | undefined {
+  for (const pattern of INCOME_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    let amount = parseFloat(match[1].replace(/,/g, '')) * (match[2] ? 1000 : 1);
+    const rest = match[3] || '';
+    if (/\b(an?|per)\s+hour\b|\/\s*h(ou)?r\b/i.test(rest)) continue;
+    if (/\b(a|per|each)\s+month\b|\/\s*mo(nth)?\b|\bmonthly\b/i.test(rest)) amount *= 12;
+    // A bare "I make 85" is too ambiguous to count as income
+    if (amount < 1000) continue;
+
+    return incomeBracket(amount);
+  }
+  return undefined;
+}
+
+/**
+ * True when a held-card name names a product rather than only an issuer
+ */
+export function namesCardProduct(name: string): boolean {
+  return CARD_PRODUCT_PATTERN.test(name);
+}
+
+/**
+ * Cards named in statements like "I already have the Chase Sapphire Preferred and an Amex Gold"
+ */
+function parseCardsHeld(text: string): string[] {
+  const cards: string[] = [];
+  for (const match of Array.from(text.matchAll(HOLDING_PATTERN))) {
+    for (const part of match[1].split(/,|\band\b|&|\bplus\b/i)) {
+      const name = part
+        .trim()
+        .replace(/^(the|an?|my)\s+/i, '')
+        .replace(/\s+(already|currently|right now|now)$/i, '')
+        .replace(/\s+(credit\s+)?cards?$/i, '')
+        .trim();
+      if (name && namesCardProduct(part) && !/^(no|any|zero)\b/i.test(name)) {
+        cards.push(name);
+      }
+    }
+  }
+  return cards;
+}
+
+/**
+ * Profile facts stated in a single message
+ */
+export function extractProfileUpdates(text: string): UserProfile {
+  const updates: UserProfile = {};
+
+  const credit = extractConstraints(text).find(
+    (constraint): constraint is Extract<CardConstraint, { kind: 'credit_tier' }> => constraint.kind === 'credit_tier'
+  );
+  if (credit?.score !== undefined) {
+    updates.creditScore = credit.score;
+  } else if (credit) {
+    updates.creditTier = credit.value;
+  }
+
+  const income = parseIncome(text);
+  if (income) updates.incomeBracket = income;
+
+  const cardsHeld = parseCardsHeld(text);
+  if (cardsHeld.length > 0) updates.cardsHeld = cardsHeld;
+
+  const travel = TRAVEL_PATTERNS.find(({ pattern }) => pattern.test(text));
+  if (travel) updates.travelFrequency = travel.frequency;
+
+  const monthlySpend = extractMonthlySpend(text);
+  if (monthlySpend) updates.monthlySpend = monthlySpend;
+
+  return updates;
+}
+
+/**
+ * Applies newer facts over an existing profile
+ * A stated score and a described tier replace each other; held cards and spend categories accumulate
+ */
+export function mergeProfile(profile: UserProfile, updates: UserProfile): UserProfile {
+  const merged: UserProfile = { ...profile };
+
+  if (updates.creditScore !== undefined) {
+    merged.creditScore = updates.creditScore;
+    delete merged.creditTier;
+  } else if (updates.creditTier) {
+    merged.creditTier = updates.creditTier;
+    delete merged.creditScore;
+  }
+
+  if (updates.incomeBracket) merged.incomeBracket = updates.incomeBracket;
+  if (updates.travelFrequency) merged.travelFrequency = updates.travelFrequency;
+
+  if (updates.cardsHeld && updates.cardsHeld.length > 0) {
+    const cards = [...(profile.cardsHeld || [])];
+    for (const card of updates.cardsHeld) {
+      if (!cards.some(existing => existing.toLowerCase() === card.toLowerCase())) {
+        cards.push(card);
+      }
+    }
+    merged.cardsHeld = cards;
+  }
+
+  if (updates.monthlySpend) {
+    merged.monthlySpend = { ...(profile.monthlySpend || {}), ...updates.monthlySpend };
+  }
+
+  return merged;
+}
+
+/**
+ * Builds the profile after the latest message
+ * The client's profile is the starting point when given, since it carries the user's corrections;
+ * without one the profile is rebuilt from the user's earlier messages
+ */
+export function buildUserProfile(
+  query: string,
+  conversationHistory?: ConversationMessage[],
+  existing?: UserProfile
+): UserProfile {
+  let profile: UserProfile = existing ? { ...existing } : {};
+
+  if (!existing) {
+    for (const message of conversationHistory || []) {
+      if (message.role === 'user') {
+        profile = mergeProfile(profile, extractProfileUpdates(message.content));
+      }
+    }
+  }
+
+  return mergeProfile(profile, extractProfileUpdates(query));
+}
+
+/**
+ * Keeps only well-formed fields from a client-supplied profile
+ */
+export function sanitizeProfile(value: unknown): UserProfile | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const input = value as Record<string, unknown>;
+  const profile: UserProfile = {};
+
+  if (typeof input.creditScore === 'number' && input.creditScore >= 300 && input.creditScore <= 850) {
+    profile.creditScore = Math.round(input.creditScore);
+  } else if (CREDIT_TIERS.includes(input.creditTier as CreditScoreTier)) {
+    profile.creditTier = input.creditTier as CreditScoreTier;
+  }
+
+  if (INCOME_BRACKETS.includes(input.incomeBracket as IncomeBracket)) {
+    profile.incomeBracket = input.incomeBracket as IncomeBracket;
+  }
+
+  if (TRAVEL_FREQUENCIES.includes(input.travelFrequency as TravelFrequency)) {
+    profile.travelFrequency = input.travelFrequency as TravelFrequency;
+  }
+
+  if (Array.isArray(input.cardsHeld)) {
+    const cards = input.cardsHeld.filter((card): card is string => typeof card === 'string' && card.trim().length > 0);
+    if (cards.length > 0) profile.cardsHeld = cards.map(card => card.trim());
+  }
+
+  if (input.monthlySpend && typeof input.monthlySpend === 'object') {
+    const spend: MonthlySpend = {};
+    for (const category of SPEND_CATEGORIES) {
+      const amount = (input.monthlySpend as Record<string, unknown>)[category];
+      if (typeof amount === 'number' && isFinite(amount) && amount > 0) spend[category] = amount;
+    }
+    if (Object.keys(spend).length > 0) profile.monthlySpend = spend;
+  }
+
+  return profile;
+}
+
+/**
+ * The credit constraint the profile implies, if any
+ */
+export function profileCreditConstraint(profile: UserProfile): CardConstraint | null {
+  if (profile.creditScore !== undefined) {
+    return creditConstraint(scoreToTier(profile.creditScore), profile.creditScore);
+  }
+  if (profile.creditTier && profile.creditTier !== 'unknown') {
+    return creditConstraint(profile.creditTier);
+  }
+  return null;
+}
+
+/**
+ * One line per known fact, for prompts
+ */
+export function describeProfile(profile: UserProfile): string[] {
+  const lines: string[] = [];
+  if (profile.creditScore !== undefined) lines.push(`Credit score: ${profile.creditScore}`);
+  else if (profile.creditTier) lines.push(`Credit: ${profile.creditTier}`);
+  if (profile.incomeBracket) lines.push(`Income: ${INCOME_LABELS[profile.incomeBracket]} a year`);
+  if (profile.travelFrequency) lines.push(`Travels ${profile.travelFrequency}`);
+  if (profile.cardsHeld && profile.cardsHeld.length > 0) lines.push(`Already has: ${profile.cardsHeld.join(', ')}`);
+  if (profile.monthlySpend && Object.keys(profile.monthlySpend).length > 0) {
+    lines.push(`Monthly spending: ${describeSpend(profile.monthlySpend)}`);
+  }
+  return lines;
+}
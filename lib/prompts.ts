@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { PromptUsage } from '@/types';
+
+/**
+ * Versioned prompt templates, loaded from PROMPTS_DIR (default prompts/)
+ * Each prompt has a directory per version holding system.txt and/or user.txt;
+ * registry.json names the version in use and optional A/B splits between versions
+ *
+ * Templates use {{name}} for a variable and {{#name}}...{{/name}} for text shown only when the variable is set
+ */
+const PROMPTS_DIR = path.resolve(process.cwd(), process.env.PROMPTS_DIR || 'prompts');
+
+/**
+ * Variables each prompt is rendered with
+ */
+export interface PromptVariables {
+  intent: { userQuery: string; previousCards: string };
+  recommend: {
+    userQuery: string;
+    cards: string;
+    count: number;
+    cardNoun: string; // "card" or "cards", to agree with count
+    requirements: string;
+    profile: string;
+    spending: string;
+    showingMore: boolean;
+  };
+  specific_card: { userQuery: string; card: string };
+  comparison: { userQuery: string; cards: string; attributes: string };
+  general_answer: Record<string, never>;
+  about_previous: { userQuery: string; cards: string };
+  about_previous_retry: { request: string };
+  title: { userQuery: string };
+  grounding: { summary: string; errors: string; cardTerms: string };
+  suggestions: { userQuestion: string; cardNames: string; reasons: string; summary: string };
+}
+
+export type PromptId = keyof PromptVariables;
+
+type PromptValue = string | number | boolean;
+
+export interface RenderedPrompt extends PromptUsage {
+  system: string; // Empty when the version has no system.txt
+  user: string; // Empty when the version has no user.txt
+}
+
+interface RegistryEntry {
+  version: string;
+  split?: Record<string, number>; // Version -> share of traffic, for A/B tests
+}
+
+/**
+ * Per-request prompt choices and the prompts the request has used
+ */
+export interface PromptSelection {
+  variants: Record<string, string>; // Prompt id -> version requested by the caller
+  seed: string; // Keeps split assignment stable for everything sharing the seed
+  used: PromptUsage[];
+}
+
+// Prompts are edited in place during development, so files are only cached in production
+const CACHE_FILES = process.env.NODE_ENV === 'production';
+const fileCache = new Map<string, string | null>();
+
+function readPromptFile(filePath: string): string | null {
+  if (CACHE_FILES && fileCache.has(filePath)) return fileCache.get(filePath)!;
+  // Editors add a final newline that is not part of the prompt
+  const text = existsSync(filePath) ? readFileSync(filePath, 'utf-8').replace(/\r?\n$/, '') : null;
+  if (CACHE_FILES) fileCache.set(filePath, text);
+  return text;
+}
+
+function loadRegistry(): Record<string, RegistryEntry> {
+  const text = readPromptFile(path.join(PROMPTS_DIR, 'registry.json'));
+  if (text === null) {
+    throw new Error(`Prompt registry not found in ${PROMPTS_DIR}. Set PROMPTS_DIR or restore prompts/registry.json.`);
+  }
+  return JSON.parse(text);
+}
+
+/**
+ * Versions available for a prompt, from its directory
+ */
+export function listPromptVersions(id: string): string[] {
+  const dir = path.join(PROMPTS_DIR, id);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * Starts a request's prompt selection; the seed is usually the conversation's first message
+ */
+export function createPromptSelection(variants: Record<string, string> = {}, seed: string = ''): PromptSelection {
+  return { variants, seed: seed || Math.random().toString(36), used: [] };
+}
+
+/**
+ * Checks requested variants against the registry; returns an error message or null
+ */
+export function validatePromptVariants(variants: unknown): string | null {
+  if (variants === undefined) return null;
+  if (!variants || typeof variants !== 'object' || Array.isArray(variants)) {
+    return 'promptVariants must map prompt ids to versions';
+  }
+  const registry = loadRegistry();
+  for (const [id, version] of Object.entries(variants)) {
+    if (!(id in registry) || typeof version !== 'string' || !listPromptVersions(id).includes(version)) {
+      return `Unknown prompt version ${id}@${String(version)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Picks a version from a split by hashing the seed, so one conversation stays on one variant
+ */
+function pickFromSplit(id: string, split: Record<string, number>, seed: string): string | null {
+  const entries = Object.entries(split).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return null;
+
+  const bucket = createHash('sha256').update(`${id}:${seed}`).digest().readUInt32BE(0) / 0x100000000 * total;
+  let cumulative = 0;
+  for (const [version, weight] of entries) {
+    cumulative += weight;
+    if (bucket < cumulative) return version;
+  }
+  return entries[entries.length - 1][0];
+}
+
+function chooseVersion(id: PromptId, selection?: PromptSelection): string {
+  const requested = selection?.variants[id];
+  if (requested) return requested;
+
+  const entry = loadRegistry()[id];
+  if (!entry) {
+    throw new Error(`Prompt "${id}" is not in the prompt registry.`);
+  }
+  return (selection && entry.split && pickFromSplit(id, entry.split, selection.seed)) || entry.version;
+}
+
+function fillTemplate(template: string, variables: Record<string, PromptValue>, name: string): string {
+  const valueOf = (key: string): PromptValue => {
+    if (!(key in variables)) {
+      throw new Error(`Prompt ${name} uses {{${key}}}, which it is not given.`);
+    }
+    return variables[key];
+  };
+
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, key: string, body: string) => (valueOf(key) ? body : ''))
+    .replace(/\{\{(\w+)\}\}/g, (_, key: string) => String(valueOf(key)));
+}
+
+/**
+ * Renders a prompt at the version the selection or registry chooses, and records it on the selection
+ */
+export function renderPrompt<Id extends PromptId>(
+  id: Id,
+  variables: PromptVariables[Id],
+  selection?: PromptSelection
+): RenderedPrompt {
+  const version = chooseVersion(id, selection);
+  const dir = path.join(PROMPTS_DIR, id, version);
+  const system = readPromptFile(path.join(dir, 'system.txt'));
+  const user = readPromptFile(path.join(dir, 'user.txt'));
+  if (system === null && user === null) {
+    throw new Error(`Prompt ${id}@${version} has no system.txt or user.txt in ${dir}.`);
+  }
+
+  const name = `${id}@${version}`;
+  const values = variables as Record<string, PromptValue>;
+  if (selection && !selection.used.some(usage => usage.id === id && usage.version === version)) {
+    selection.used.push({ id, version });
+  }
+
+  return {
+    id,
+    version,
+    system: system === null ? '' : fillTemplate(system, values, name),
+    user: user === null ? '' : fillTemplate(user, values, name),
+  };
+}
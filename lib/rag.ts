@@ -1,38 +1,154 @@
-import OpenAI from 'openai';
-import { Recommendation, RecommendationsResponse, CardEmbedding } from '@/types';
-import { embedQuery, findSimilarCards, loadEmbeddings } from './embeddings';
-import { cardToText } from './data';
+import { Recommendation, RecommendationExplanation, RecommendationsResponse, CardConstraint, CardEmbedding, CardValueEstimate, ComparisonResponse, CreditCard, IntentClassification, PipelineStage, UserProfile } from '@/types';
+import { loadEmbeddings } from './embeddings';
+import { findCandidateCards, matchQueryFields, RankedCard } from './retrieval';
+import { classifyIntent, extractRequestedCount } from './intent';
+import { cardSatisfiesConstraint, extractConstraints } from './constraints';
+import { buildComparison, MAX_COMPARED_CARDS } from './comparison';
+import { compareEstimates, describeSpend, estimateCardValue } from './rewardsValue';
+import { buildUserProfile, describeProfile, namesCardProduct, profileCreditConstraint } from './profile';
+import { KNOWN_ISSUERS } from './normalize';
+import { cardToRecommendation, cardToText, resolveCardIds } from './data';
+import { createJsonStringFieldReader } from './streaming';
+import { ChatMessage, chatComplete, chatStream } from './llm';
+import { groundSummary } from './grounding';
+import { createPromptSelection, PromptSelection, renderPrompt } from './prompts';
+import { isResponseCacheEnabled, lookupCachedResponse, prepareCacheQuery, storeCachedResponse } from './responseCache';
+import { canonicalJSON } from './snapshots';
+
+const TOP_N_CARDS = parseInt(process.env.TOP_N_CARDS || '8', 10); // Reduced to 8 for maximum speed
 
 /**
- * Lazy-loaded OpenAI client to ensure environment variables are loaded first
+ * Cards recommended when the request and message do not ask for a number, and the most one answer returns
  */
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set. Please check your .env.local file.');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+export const DEFAULT_RECOMMENDATION_COUNT = 3;
+export const MAX_RECOMMENDATION_COUNT = 10;
+
+/**
+ * How many cards to recommend, and which were already shown when paging with "show more"
+ */
+export interface RecommendationOptions {
+  count?: number;
+  excludeCardIds?: string[];
+  promptVariants?: Record<string, string>; // Prompt id -> version, overriding the registry
 }
 
-// Use gpt-3.5-turbo for faster inference (can switch to gpt-4o-mini for better quality)
-const CHAT_MODEL = process.env.CHAT_MODEL || 'gpt-3.5-turbo';
-const TOP_N_CARDS = parseInt(process.env.TOP_N_CARDS || '8', 10); // Reduced to 8 for maximum speed
+/**
+ * Callbacks for reporting progress while a response is generated
+ */
+export interface PipelineObserver {
+  onStage?: (stage: PipelineStage, message: string) => void;
+  onSummaryDelta?: (text: string) => void;
+}
+
+const STAGE_MESSAGES: Record<PipelineStage, string> = {
+  classifying: 'Understanding your question',
+  retrieving: 'Searching the card catalog',
+  generating: 'Writing your answer',
+  finalizing: 'Checking the details',
+};
+
+function reportStage(observer: PipelineObserver | undefined, stage: PipelineStage) {
+  observer?.onStage?.(stage, STAGE_MESSAGES[stage]);
+}
+
+/**
+ * Runs a JSON-mode chat completion and returns the raw JSON text
+ * With a summary listener the completion is streamed and the decoded "summary" field is passed on as it arrives
+ */
+async function createJsonCompletion(
+  params: {
+    label: string;
+    messages: ChatMessage[];
+    temperature: number;
+    maxTokens: number;
+  },
+  onSummaryDelta?: (text: string) => void
+): Promise<string> {
+  if (!onSummaryDelta) {
+    const { content } = await chatComplete({ ...params, json: true });
+    return content;
+  }
+
+  const summaryReader = createJsonStringFieldReader('summary', onSummaryDelta);
+  const { content } = await chatStream({ ...params, json: true }, delta => summaryReader.push(delta));
+  return content;
+}
 
 /**
  * Formats candidate cards for the LLM context
  * Ultra-compact format for maximum speed
  */
-function formatCardsForContext(cards: CardEmbedding[]): string {
+function formatCardsForContext(cards: CardEmbedding[], estimates?: Map<string, CardValueEstimate>): string {
   return cards
     .map((cardEmbedding, index) => {
       const card = cardEmbedding.card;
       const text = cardToText(card);
-      return `${index + 1}. ${card.credit_card_name} | ${text} | ${card.url_application}`;
+      const estimate = estimates?.get(card.id);
+      const value = estimate ? ` | ${formatValueEstimate(estimate)}` : '';
+      return `${index + 1}. ${card.credit_card_name} | ${text}${value} | ${card.url_application}`;
     })
     .join('\n');
 }
 
+/**
+ * States an estimate in dollars ("Est. net value: $656 first year, $456/yr after")
+ */
+function formatValueEstimate(estimate: CardValueEstimate): string {
+  const dollars = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString()}`;
+  return `Est. net value: ${dollars(estimate.firstYearValue)} first year, ${dollars(estimate.ongoingValue)}/yr after`;
+}
+
+/**
+ * Adds the computed dollar estimate to a recommendation
+ */
+function withValueEstimate(recommendation: Recommendation, estimate?: CardValueEstimate): Recommendation {
+  if (!estimate) return recommendation;
+  return {
+    ...recommendation,
+    estimated_first_year_value: estimate.firstYearValue,
+    estimated_annual_value: estimate.ongoingValue,
+  };
+}
+
+/**
+ * Describes where retrieval placed a candidate and what it matched, so odd picks can be traced
+ */
+function explainCandidate(
+  rankedCard: RankedCard,
+  candidateRank: number,
+  candidateCount: number,
+  rankedBy: RecommendationExplanation['rankedBy'],
+  constraints: CardConstraint[],
+  userQuery: string
+): RecommendationExplanation {
+  const card = rankedCard.cardEmbedding.card;
+  return {
+    candidateRank,
+    candidateCount,
+    rankedBy,
+    similarity: rankedCard.similarity,
+    vectorRank: rankedCard.vectorRank,
+    keywordRank: rankedCard.keywordRank,
+    retrievalScore: rankedCard.score,
+    satisfiedConstraints: constraints
+      .filter(constraint => cardSatisfiesConstraint(card, constraint))
+      .map(constraint => constraint.label),
+    matchedFields: matchQueryFields(userQuery, card),
+  };
+}
+
+/**
+ * Shortens a card name for titles ("Chase Sapphire Preferred® Card" -> "Sapphire Preferred")
+ */
+function shortCardName(name: string): string {
+  const withoutMarks = name.replace(/[®™©]/g, '').replace(/\s+(credit\s+)?card$/i, '').trim();
+  const issuer = KNOWN_ISSUERS.find(({ pattern }) => pattern.test(withoutMarks));
+  const shortened = issuer
+    ? withoutMarks.replace(issuer.pattern, '').replace(/^\s*(the\s+)?/i, '').replace(/\s+from\s*$/i, '').trim()
+    : withoutMarks;
+  return shortened || withoutMarks;
+}
+
 /**
  * Normalizes a card name for fuzzy matching
  */
@@ -73,22 +189,28 @@ function calculateNameSimilarity(str1: string, str2: string): number {
 
 /**
  * Finds a specific card by name using fuzzy matching
+ * Ties go to the card whose name length is closest to the query ("Venture" prefers Venture over Venture X);
+ * cards in `excludeIds` are skipped so several names never resolve to the same card
  */
-async function findCardByName(cardName: string): Promise<CardEmbedding | null> {
+async function findCardByName(cardName: string, excludeIds: Set<string> = new Set()): Promise<CardEmbedding | null> {
   const store = await loadEmbeddings();
-  const queryNormalized = normalizeCardName(cardName);
+  const queryNormalized = normalizeCardName(cardName).replace(/\bamex\b/g, 'american express');
   
   // Find the best matching card
   let bestMatch: CardEmbedding | null = null;
   let bestScore = 0;
+  let bestLengthGap = Infinity;
   
   for (const cardEmbedding of store.embeddings) {
+    if (excludeIds.has(cardEmbedding.cardId)) continue;
     const cardNameNormalized = normalizeCardName(cardEmbedding.card.credit_card_name);
     const similarity = calculateNameSimilarity(queryNormalized, cardNameNormalized);
+    const lengthGap = Math.abs(cardNameNormalized.length - queryNormalized.length);
     
-    if (similarity > bestScore) {
+    if (similarity > bestScore || (similarity === bestScore && similarity > 0 && lengthGap < bestLengthGap)) {
       bestScore = similarity;
       bestMatch = cardEmbedding;
+      bestLengthGap = lengthGap;
     }
   }
   
@@ -101,88 +223,15 @@ async function findCardByName(cardName: string): Promise<CardEmbedding | null> {
   return null;
 }
 
-/**
- * Detects if the user is asking about a specific card by name
- * Returns the card name if detected, null otherwise
- */
-async function detectSpecificCardQuery(userQuery: string): Promise<string | null> {
-  const openai = getOpenAIClient();
-  
-  // First, try to extract card name using LLM
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    {
-      role: 'system',
-      content: `You are a credit card assistant. Analyze the user's question to determine if they are asking about a SPECIFIC credit card by name AND want to see card information/recommendations.
-
-CRITICAL: Only return is_specific_card: true if:
-1. The user is EXPLICITLY asking about ONE specific card by its exact name
-2. AND they want to see information about that card (not just asking a general question that happens to mention a card name)
-
-Return JSON: {"is_specific_card": true/false, "card_name": "extracted card name or null"}
-
-Examples that ARE specific card queries (is_specific_card: true):
-- "Tell me about the Chase Sapphire Preferred" → {"is_specific_card": true, "card_name": "Chase Sapphire Preferred"}
-- "What are the benefits of Amex Platinum?" → {"is_specific_card": true, "card_name": "Amex Platinum"}
-- "Chase Freedom Unlimited details" → {"is_specific_card": true, "card_name": "Chase Freedom Unlimited"}
-- "Information about the Capital One Venture card" → {"is_specific_card": true, "card_name": "Capital One Venture"}
-- "Show me the Chase Sapphire Preferred" → {"is_specific_card": true, "card_name": "Chase Sapphire Preferred"}
-
-Examples that are NOT specific card queries (is_specific_card: false):
-- "What's the best travel card?" → {"is_specific_card": false, "card_name": null}
-- "Show me cards with no annual fee" → {"is_specific_card": false, "card_name": null}
-- "What are the best cards for travel?" → {"is_specific_card": false, "card_name": null}
-- "Recommend cards for groceries" → {"is_specific_card": false, "card_name": null}
-- "Which card should I get?" → {"is_specific_card": false, "card_name": null}
-- "Compare travel cards" → {"is_specific_card": false, "card_name": null}
-- "Show me the best Chase cards" → {"is_specific_card": false, "card_name": null} (asking for multiple cards)
-- "What is the annual fee of Chase Sapphire?" → {"is_specific_card": false, "card_name": null} (asking for information, not to see the card)
-- "How does the Chase Sapphire Preferred work?" → {"is_specific_card": false, "card_name": null} (asking how something works)
-- "What does APR mean for the Amex Platinum?" → {"is_specific_card": false, "card_name": null} (asking for definition/explanation)
-
-IMPORTANT: 
-- If the question asks for recommendations, comparisons, or multiple cards, return is_specific_card: false
-- If the question is asking "what is", "how does", "what does", "explain", "tell me about" (a concept/term), return is_specific_card: false even if a card name is mentioned
-- Only return true if the user wants to SEE information about a specific card, not if they're asking a general question that mentions a card`,
-    },
-    {
-      role: 'user',
-      content: userQuery,
-    },
-  ];
-  
-  try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
-      temperature: 0.1,
-      max_tokens: 100,
-      response_format: { type: 'json_object' },
-    });
-    
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    const response = JSON.parse(responseText);
-    
-    if (response.is_specific_card && response.card_name) {
-      console.log('Detected specific card query:', response.card_name);
-      return response.card_name;
-    }
-    
-    return null;
-  } catch (error) {
-    console.error('Error detecting specific card query:', error);
-    return null;
-  }
-}
-
 /**
  * Generates a detailed response about a specific card
  */
 async function generateSpecificCardResponse(
   card: CardEmbedding,
   userQuery: string,
+  prompts: PromptSelection,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<RecommendationsResponse> {
-  const openai = getOpenAIClient();
   const cardData = card.card;
   
   // Build a comprehensive description of the card
@@ -207,19 +256,9 @@ async function generateSpecificCardResponse(
   
   const cardContext = cardDetails.join('\n');
   
+  const prompt = renderPrompt('specific_card', { userQuery, card: cardContext }, prompts);
   const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    {
-      role: 'system',
-      content: `You are a helpful credit card assistant. The user is asking about a SPECIFIC credit card. Provide detailed, helpful information about this card.
-
-Return JSON: {
-  "summary": "A detailed markdown-formatted response about the card that:\n1. Starts with a brief acknowledgment (1 sentence)\n2. Provides comprehensive information about the card including key features, benefits, fees, rewards, and requirements\n3. Includes the card name as a markdown link: [Card Name](application_url)\n4. Ends with a brief closing (1 sentence)\n\nUse markdown formatting: **bold** for emphasis, bullet points (-), proper line breaks. Be informative and helpful.",
-  "card_name": "exact card name from the data",
-  "apply_url": "application URL from the data"
-}
-
-IMPORTANT: Include ALL relevant information about the card. Make it comprehensive and helpful.`,
-    },
+    { role: 'system', content: prompt.system },
   ];
   
   if (conversationHistory && conversationHistory.length > 0) {
@@ -232,28 +271,25 @@ IMPORTANT: Include ALL relevant information about the card. Make it comprehensiv
     });
   }
   
-  messages.push({
-    role: 'user',
-    content: `User question: ${userQuery}\n\nCard information:\n${cardContext}\n\nProvide detailed information about this card based on the user's question.`,
-  });
+  messages.push({ role: 'user', content: prompt.user });
   
   try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
+    const responseText = await createJsonCompletion({
+      label: 'specific_card',
+      messages,
       temperature: 0.3,
-      max_tokens: 600,
-      response_format: { type: 'json_object' },
-    });
-    
-    const responseText = completion.choices[0]?.message?.content || '{}';
+      maxTokens: 600,
+    }) || '{}';
     const response = JSON.parse(responseText);
     
+    // Check the fees, earn rates and bonus the summary states against the card's record
+    const grounded = response.summary ? await groundSummary(response.summary, [cardData], undefined, prompts) : null;
+    
     // Create recommendation object for the specific card
     const recommendation: Recommendation = {
       credit_card_name: response.card_name || cardData.credit_card_name,
       apply_url: response.apply_url || String(cardData.url_application || ''),
-      reason: response.summary || `Information about ${cardData.credit_card_name}`,
+      reason: grounded?.summary || `Information about ${cardData.credit_card_name}`,
       intro_offer: String(cardData.intro_offer || cardData.welcome_bonus || cardData.sign_up_bonus || cardData.intro_bonus || ''),
       application_fee: String(cardData.application_fee || cardData.app_fee || ''),
       credit_score_needed: String(cardData.credit_score_needed || cardData.credit_score || cardData.min_credit_score || cardData.credit_score_required || ''),
@@ -262,13 +298,14 @@ IMPORTANT: Include ALL relevant information about the card. Make it comprehensiv
       perks: String(cardData.perks || cardData.benefits || cardData.card_perks || ''),
     };
     
-    const title = await generateRecommendationTitle(userQuery);
+    const title = await generateRecommendationTitle(userQuery, prompts);
     
     return {
       recommendations: [recommendation],
-      summary: response.summary || `Here's information about ${cardData.credit_card_name}.`,
+      summary: grounded?.summary || `Here's information about ${cardData.credit_card_name}.`,
       rawModelAnswer: responseText,
       title: title,
+      ...(grounded?.report ? { grounding: grounded.report } : {}),
     };
   } catch (error) {
     console.error('Error generating specific card response:', error);
@@ -277,184 +314,94 @@ IMPORTANT: Include ALL relevant information about the card. Make it comprehensiv
 }
 
 /**
- * Determines if the query requires card recommendations or is a general question
- * Defaults to returning cards unless it's VERY clear the user is asking a general question
+ * Compares two to four named cards attribute by attribute
+ * The table is built from catalog data; the model only writes the verdict and a "best for" line per card
+ * Returns null when fewer than two names resolve to catalog cards
  */
-async function shouldReturnCards(
+async function generateComparisonResponse(
+  cardNames: string[],
   userQuery: string,
+  prompts: PromptSelection,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-): Promise<boolean> {
-  const openai = getOpenAIClient();
-  
-  const queryLower = userQuery.toLowerCase().trim();
-  
-  // First, check for specific question patterns that should NOT return cards
-  // These are definition, explanation, or how-to questions
-  const specificQuestionPatterns = [
-    /^what is\s+(an|a|the)?\s+/i,  // "What is an annual fee?"
-    /^what's\s+(an|a|the)?\s+/i,    // "What's an annual fee?"
-    /^what are\s+/i,                 // "What are credit card rewards?"
-    /^how do\s+/i,                   // "How do credit cards work?"
-    /^how does\s+/i,                 // "How does balance transfer work?"
-    /^how can\s+/i,                  // "How can I improve my credit score?"
-    /^explain\s+/i,                  // "Explain what APR means"
-    /^can you explain\s+/i,          // "Can you explain what APR means?"
-    /^tell me about\s+/i,            // "Tell me about credit scores"
-    /^what does\s+/i,                // "What does APR mean?"
-    /^what's the difference between/i, // "What's the difference between cash back and points?"
-    /^difference between/i,          // "Difference between cash back and points"
-    /^compare\s+/i,                  // "Compare cash back vs points" (conceptual comparison)
-  ];
-  
-  // Also check for information questions about specific cards (e.g., "What is the annual fee of Chase Sapphire?")
-  // These patterns indicate asking for information about a card, not asking to see the card
-  const informationQuestionPatterns = [
-    /what is the\s+.*\s+of\s+/i,     // "What is the annual fee of Chase Sapphire?"
-    /what's the\s+.*\s+of\s+/i,       // "What's the annual fee of Chase Sapphire?"
-    /what is\s+.*\s+for\s+/i,        // "What is the annual fee for Chase Sapphire?"
-    /how does\s+.*\s+work/i,          // "How does the Chase Sapphire Preferred work?"
-    /what does\s+.*\s+mean/i,         // "What does APR mean for Amex Platinum?"
-  ];
-  
-  // Check if the query matches a specific question pattern
-  const isSpecificQuestion = specificQuestionPatterns.some(pattern => pattern.test(userQuery));
-  const isInformationQuestion = informationQuestionPatterns.some(pattern => pattern.test(userQuery));
-  
-  // If it's an information question about a specific card, don't return cards
-  if (isInformationQuestion) {
-    console.log('Query is asking for information about a card, not recommendations, skipping cards');
-    return false;
-  }
+): Promise<ComparisonResponse | null> {
+  const resolved: CardEmbedding[] = [];
+  const unresolved: string[] = [];
+  const usedIds = new Set<string>();
   
-  // If it's a specific question pattern, check if it's asking for a definition/explanation
-  // vs asking for card recommendations
-  if (isSpecificQuestion) {
-    // These keywords suggest the question is about concepts, not card recommendations
-    const conceptKeywords = [
-      'mean', 'means', 'meaning', 'work', 'works', 'difference', 'compare',
-      'explain', 'definition', 'define', 'is', 'are', 'does', 'do'
-    ];
-    
-    // Check if the question is asking about a concept/term rather than asking for cards
-    const hasConceptKeywords = conceptKeywords.some(keyword => queryLower.includes(keyword));
-    
-    // If it's a specific question pattern AND has concept keywords, it's likely a definition/explanation question
-    // But we need to be careful - some questions like "What is the best card?" should still return cards
-    if (hasConceptKeywords) {
-      // Additional check: if it contains recommendation-seeking words, it might still want cards
-      const recommendationSeekingWords = [
-        'best', 'recommend', 'suggest', 'should i', 'which', 'what card', 'card for'
-      ];
-      const isSeekingRecommendation = recommendationSeekingWords.some(word => queryLower.includes(word));
-      
-      if (!isSeekingRecommendation) {
-        console.log('Query is a specific definition/explanation question, skipping cards');
-        return false;
-      }
+  for (const name of cardNames) {
+    if (resolved.length >= MAX_COMPARED_CARDS) break;
+    const match = await findCardByName(name, usedIds);
+    if (match) {
+      resolved.push(match);
+      usedIds.add(match.cardId);
+    } else {
+      unresolved.push(name);
     }
   }
   
-  // Quick heuristic check: if query contains recommendation keywords, default to cards
-  const recommendationKeywords = [
-    'best', 'recommend', 'suggest', 'card for', 'looking for', 'need', 'want',
-    'which card', 'what card', 'find', 'show me', 'give me', 'help me find',
-    'travel', 'groceries', 'gas', 'cash back', 'points', 'rewards', 'annual fee',
-    'starter', 'good credit', 'bad credit', 'student', 'business'
-  ];
-  
-  const hasRecommendationKeywords = recommendationKeywords.some(keyword => 
-    queryLower.includes(keyword)
-  );
-  
-  // If it has recommendation keywords, default to cards (skip LLM check for speed)
-  if (hasRecommendationKeywords) {
-    console.log('Query contains recommendation keywords, defaulting to cards');
-    return true;
+  if (resolved.length < 2) {
+    console.log(`Only ${resolved.length} of ${cardNames.length} compared cards found, not building a comparison`);
+    return null;
   }
   
-  // Build context from conversation history
-  const contextMessages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    {
-      role: 'system',
-      content: `You are a credit card assistant. Determine if the user's question requires specific credit card recommendations with card names and URLs.
-
-IMPORTANT: Default to returning cards (needs_cards: true) unless the question is VERY CLEARLY asking about general credit card concepts, terminology, or how things work - NOT asking for specific card recommendations.
-
-Return JSON: {"needs_cards": true/false, "reason": "brief explanation"}
-
-ONLY set needs_cards to false if the question is clearly:
-- Asking "what is X?" about a concept (e.g., "What is an annual fee?", "What is APR?")
-- Asking "how does X work?" (e.g., "How do credit cards work?", "How does balance transfer work?")
-- Asking for definitions or explanations of terms
-- Asking about credit card processes or procedures
-- Asking "what's the difference between X and Y?" about concepts (not cards)
-- Asking "explain X" or "tell me about X" where X is a concept/term
-
-DEFAULT to needs_cards: true for:
-- Any question that could benefit from seeing specific cards
-- Questions about finding, choosing, or comparing cards
-- Questions about card features, benefits, or categories
-- Ambiguous questions where cards might be helpful
-- Any question mentioning specific use cases (travel, groceries, etc.)
-- Questions that ask "what is the best X?" or "which X?" where X could be a card
-
-Examples that NEED cards (needs_cards: true):
-- "What's the best card for travel?"
-- "Show me cards with no annual fee"
-- "I need a card for groceries"
-- "Recommend cards for someone with good credit"
-- "Which card should I get?"
-- "What cards offer travel insurance?"
-- "Best starter card"
-- "Cards for students"
-- "What is the best travel card?" (asking for a specific card recommendation)
-
-Examples that DON'T need cards (needs_cards: false) - ONLY these clear cases:
-- "What is an annual fee?" (definition question)
-- "How do credit cards work?" (how-to question)
-- "What's the difference between cash back and points?" (concept explanation)
-- "Can you explain what APR means?" (definition question)
-- "Tell me about credit scores" (general information)
-- "What does balance transfer mean?" (definition question)`,
-    },
+  const cards = resolved.map(match => match.card);
+  const comparison = buildComparison(cards, unresolved);
+  const table = comparison.rows
+    .map(row => `${row.label}: ${row.values.map((value, index) => `${cards[index].credit_card_name} = ${value}`).join(' | ')}`)
+    .join('\n');
+  
+  const prompt = renderPrompt('comparison', {
+    userQuery,
+    cards: cards.map(card => `${card.credit_card_name} (${card.url_application})`).join('\n'),
+    attributes: table,
+  }, prompts);
+  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+    { role: 'system', content: prompt.system },
   ];
-
+  
   if (conversationHistory && conversationHistory.length > 0) {
-    const recentHistory = conversationHistory.slice(-4);
-    recentHistory.forEach((msg) => {
-      contextMessages.push({
-        role: msg.role,
-        content: msg.content,
-      });
+    conversationHistory.slice(-4).forEach((msg) => {
+      messages.push({ role: msg.role, content: msg.content });
     });
   }
-
-  contextMessages.push({
-    role: 'user',
-    content: `User question: ${userQuery}\n\nIs this question VERY CLEARLY asking for a definition, explanation, or how-to (not card recommendations)? If unsure, default to needs_cards: true. Return JSON.`,
-  });
-
+  
+  messages.push({ role: 'user', content: prompt.user });
+  
+  let summary = `Here's how ${cards.map(card => card.credit_card_name).join(' and ')} compare.`;
+  let bestFor = new Map<string, string>();
+  let rawAnswer = '';
+  
   try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: contextMessages,
-      temperature: 0.1,
-      max_tokens: 100,
-      response_format: { type: 'json_object' },
-    });
-
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    console.log('shouldReturnCards response:', responseText);
-    const response = JSON.parse(responseText);
-    // Default to true if the response is ambiguous or missing
-    const needsCards = response.needs_cards !== false; // Only false if explicitly false
-    console.log('Needs cards:', needsCards);
-    return needsCards;
+    rawAnswer = await createJsonCompletion({
+      label: 'comparison',
+      messages,
+      temperature: 0.3,
+      maxTokens: 600,
+    }) || '{}';
+    const parsed = JSON.parse(rawAnswer);
+    summary = parsed.summary || summary;
+    bestFor = new Map(
+      (Array.isArray(parsed.cards) ? parsed.cards : [])
+        .filter((item: any) => item && item.credit_card_name && item.best_for)
+        .map((item: any) => [normalizeCardName(item.credit_card_name), String(item.best_for)])
+    );
   } catch (error) {
-    console.error('Error determining if cards needed:', error);
-    console.warn('Defaulting to true (return cards)');
-    return true; // Default to returning cards if we can't determine
+    // The table is still useful without the verdict
+    console.error('Error generating comparison summary:', error);
   }
+  
+  if (unresolved.length > 0) {
+    summary += `\n\nI couldn't find ${unresolved.join(', ')} in our catalog, so ${unresolved.length === 1 ? 'it is' : 'they are'} not included.`;
+  }
+  
+  return {
+    recommendations: cards.map(card => cardToRecommendation(card, bestFor.get(normalizeCardName(card.credit_card_name)) || '')),
+    summary,
+    rawModelAnswer: rawAnswer,
+    title: cards.map(card => shortCardName(card.credit_card_name)).join(' vs '),
+    intent: 'compare',
+    comparison,
+  };
 }
 
 /**
@@ -462,15 +409,13 @@ Examples that DON'T need cards (needs_cards: false) - ONLY these clear cases:
  */
 async function generateGeneralAnswer(
   userQuery: string,
-  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
+  prompts: PromptSelection,
+  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+  observer?: PipelineObserver
 ): Promise<RecommendationsResponse> {
-  const openai = getOpenAIClient();
-
+  const prompt = renderPrompt('general_answer', {}, prompts);
   const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    {
-      role: 'system',
-      content: `You are a helpful credit card assistant. Answer the user's question about credit cards in a friendly, conversational way. Keep responses concise (2-4 sentences). Return JSON: {"summary": "your answer"}`,
-    },
+    { role: 'system', content: prompt.system },
   ];
 
   if (conversationHistory && conversationHistory.length > 0) {
@@ -489,19 +434,16 @@ async function generateGeneralAnswer(
   });
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
-      temperature: 0.3,
-      max_tokens: 200,
-      response_format: { type: 'json_object' },
-    });
-
-    const responseText = completion.choices[0]?.message?.content || '{}';
+    // Generate a title even for general answers, alongside the answer itself
+    const titlePromise = generateRecommendationTitle(userQuery, prompts);
+    reportStage(observer, 'generating');
+    const responseText = await createJsonCompletion(
+      { label: 'general_answer', messages, temperature: 0.3, maxTokens: 200 },
+      observer?.onSummaryDelta
+    ) || '{}';
     console.log('generateGeneralAnswer response:', responseText);
     const response = JSON.parse(responseText);
-    // Generate a title even for general answers
-    const title = await generateRecommendationTitle(userQuery);
+    const title = await titlePromise;
     
     return {
       recommendations: [],
@@ -518,27 +460,20 @@ async function generateGeneralAnswer(
 /**
  * Generates a short 2-5 word title describing what the recommendations are for
  */
-async function generateRecommendationTitle(userQuery: string): Promise<string> {
-  const openai = getOpenAIClient();
-  
+async function generateRecommendationTitle(userQuery: string, prompts: PromptSelection): Promise<string> {
   try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
+    const prompt = renderPrompt('title', { userQuery }, prompts);
+    const { content } = await chatComplete({
+      label: 'title',
       messages: [
-        {
-          role: 'system',
-          content: 'Generate a short 2-5 word title describing what credit card recommendations are for. Return only the title, no quotes, no explanation. Examples: "Travel Rewards Cards", "No Annual Fee Cards", "Groceries & Gas Cards", "Student Credit Cards", "Business Travel Cards"',
-        },
-        {
-          role: 'user',
-          content: `User question: "${userQuery}"\n\nGenerate a 2-5 word title for these recommendations:`,
-        },
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
       ],
       temperature: 0.3,
-      max_tokens: 20,
+      maxTokens: 20,
     });
     
-    const title = completion.choices[0]?.message?.content?.trim() || 'AI Recommendations';
+    const title = content.trim() || 'AI Recommendations';
     // Remove quotes if present
     return title.replace(/^["']|["']$/g, '');
   } catch (error) {
@@ -547,107 +482,19 @@ async function generateRecommendationTitle(userQuery: string): Promise<string> {
   }
 }
 
-/**
- * Detects if the user is asking about previously shown cards
- */
-async function detectQuestionAboutPreviousCards(
-  userQuery: string,
-  previousRecommendations?: Recommendation[]
-): Promise<boolean> {
-  if (!previousRecommendations || previousRecommendations.length === 0) {
-    return false;
-  }
-  
-  const queryLower = userQuery.toLowerCase();
-  
-  // Patterns that indicate asking about previously shown cards
-  const previousCardPatterns = [
-    /these cards/i,
-    /any of these/i,
-    /these recommendations/i,
-    /the cards above/i,
-    /the cards you showed/i,
-    /the cards you recommended/i,
-    /which of these/i,
-    /do these cards/i,
-    /do any of these/i,
-    /are these cards/i,
-    /the recommended cards/i,
-    /the cards you mentioned/i,
-  ];
-  
-  const hasPreviousCardPattern = previousCardPatterns.some(pattern => pattern.test(userQuery));
-  
-  if (hasPreviousCardPattern) {
-    console.log('Detected question about previously shown cards');
-    return true;
-  }
-  
-  // Also check with LLM for more nuanced detection
-  const openai = getOpenAIClient();
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    {
-      role: 'system',
-      content: `You are a credit card assistant. Determine if the user's question is asking about cards that were ALREADY shown/recommended to them, not asking for new card recommendations.
-
-Return JSON: {"is_about_previous_cards": true/false, "reason": "brief explanation"}
-
-Return is_about_previous_cards: true if the question:
-- References "these cards", "any of these", "the cards above", "the cards you showed", etc.
-- Asks about features/benefits of cards that were already recommended
-- Compares or asks questions about previously shown cards
-- Uses phrases like "which of these", "do these cards", "are these cards"
-
-Return is_about_previous_cards: false if the question:
-- Asks for new card recommendations
-- Asks "what cards", "show me cards", "recommend cards"
-- Doesn't reference previously shown cards
-
-Examples:
-- "Do any of these cards have rotating bonus categories?" → {"is_about_previous_cards": true}
-- "Which of these cards has the best travel insurance?" → {"is_about_previous_cards": true}
-- "What's the annual fee for these cards?" → {"is_about_previous_cards": true}
-- "Show me cards with no annual fee" → {"is_about_previous_cards": false}
-- "What's the best travel card?" → {"is_about_previous_cards": false}`,
-    },
-    {
-      role: 'user',
-      content: userQuery,
-    },
-  ];
-  
-  try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
-      temperature: 0.1,
-      max_tokens: 100,
-      response_format: { type: 'json_object' },
-    });
-    
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    const response = JSON.parse(responseText);
-    
-    return response.is_about_previous_cards === true;
-  } catch (error) {
-    console.error('Error detecting question about previous cards:', error);
-    return hasPreviousCardPattern; // Fallback to pattern matching
-  }
-}
-
 /**
  * Generates a response about previously shown cards
  */
 async function generateResponseAboutPreviousCards(
   userQuery: string,
   previousRecommendations: Recommendation[],
+  prompts: PromptSelection,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<RecommendationsResponse> {
-  const openai = getOpenAIClient();
-  
   // Load full card data for the previous recommendations
   const store = await loadEmbeddings();
   const cardDetails: string[] = [];
+  const previousCards: CreditCard[] = [];
   
   for (const rec of previousRecommendations) {
     const cardEmbedding = store.embeddings.find(
@@ -656,6 +503,7 @@ async function generateResponseAboutPreviousCards(
     
     if (cardEmbedding) {
       const card = cardEmbedding.card;
+      previousCards.push(card);
       const details: string[] = [];
       details.push(`Card Name: ${card.credit_card_name}`);
       details.push(`Application URL: ${card.url_application}`);
@@ -690,18 +538,9 @@ async function generateResponseAboutPreviousCards(
   
   const cardsContext = cardDetails.join('\n\n---\n\n');
   
+  const prompt = renderPrompt('about_previous', { userQuery, cards: cardsContext }, prompts);
   const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    {
-      role: 'system',
-      content: `You are a helpful credit card assistant. The user is asking a question about cards that were ALREADY shown to them. Answer their question by ONLY referencing these specific cards. Do NOT mention or recommend any other cards.
-
-Return JSON: {
-  "summary": "A COMPLETE markdown-formatted response that FULLY answers the user's question. You MUST include:\n1. A direct answer to the user's question\n2. Specific information for EACH card that matches the criteria (if asking about features/requirements)\n3. Use markdown links: [Card Name](application_url) for each card mentioned\n4. Provide ALL relevant details - do NOT just say you're going to answer, actually provide the complete answer\n5. If asking about requirements (like credit scores), list the specific requirement for EACH card\n6. If asking about features, list which cards have those features with details\n\nCRITICAL: Your response must be a COMPLETE answer, not just an introduction. Include all the information the user asked for. If no cards match, say so clearly.\n\nEXAMPLE of a COMPLETE answer:\nIf asked \"What are the credit score requirements for these cards?\", provide:\n\"Here are the credit score requirements for the previously shown cards:\n\n- **[Chase Sapphire Preferred](url)**: Requires a credit score of 690 or higher\n- **[Capital One Venture](url)**: Requires a credit score of 700 or higher\n- **[American Express Gold](url)**: Requires a credit score of 670 or higher\"\n\nNOT just: \"Here are the credit score requirements for the previously shown cards:\"",
-  "cards": [] // Empty array - we're not showing new cards, just answering about existing ones
-}
-
-IMPORTANT: Only reference the cards provided. Do not suggest new cards.`,
-    },
+    { role: 'system', content: prompt.system },
   ];
   
   if (conversationHistory && conversationHistory.length > 0) {
@@ -714,21 +553,15 @@ IMPORTANT: Only reference the cards provided. Do not suggest new cards.`,
     });
   }
   
-  messages.push({
-    role: 'user',
-    content: `User question: ${userQuery}\n\nPreviously shown cards:\n${cardsContext}\n\nProvide a COMPLETE answer to the user's question. Include all relevant details for each card. Do NOT just introduce your answer - provide the full information the user requested. Use markdown links [Card Name](application_url) for each card you mention.`,
-  });
+  messages.push({ role: 'user', content: prompt.user });
   
   try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
+    const responseText = await createJsonCompletion({
+      label: 'about_previous',
+      messages,
       temperature: 0.3,
-      max_tokens: 1000, // Increased to allow for complete answers with multiple cards
-      response_format: { type: 'json_object' },
-    });
-    
-    const responseText = completion.choices[0]?.message?.content || '{}';
+      maxTokens: 1000, // Increased to allow for complete answers with multiple cards
+    }) || '{}';
     const response = JSON.parse(responseText);
     
     // Validate that we got a complete response, not just an introduction
@@ -743,29 +576,28 @@ IMPORTANT: Only reference the cards provided. Do not suggest new cards.`,
       const retryMessages = [...messages];
       retryMessages[retryMessages.length - 1] = {
         role: 'user',
-        content: `${retryMessages[retryMessages.length - 1].content}\n\nIMPORTANT: You must provide the ACTUAL information, not just say you will provide it. For example, if asked about credit scores, list each card's credit score requirement. If asked about fees, list each card's annual fee. Include all the details now.`,
+        content: renderPrompt('about_previous_retry', { request: prompt.user }, prompts).user,
       };
       
-      const retryCompletion = await openai.chat.completions.create({
-        model: CHAT_MODEL,
+      const retryResponseText = await createJsonCompletion({
+        label: 'about_previous_retry',
         messages: retryMessages,
         temperature: 0.3,
-        max_tokens: 1000,
-        response_format: { type: 'json_object' },
-      });
-      
-      const retryResponseText = retryCompletion.choices[0]?.message?.content || '{}';
+        maxTokens: 1000,
+      }) || '{}';
       const retryResponse = JSON.parse(retryResponseText);
       summary = retryResponse.summary || summary;
     }
     
-    const title = await generateRecommendationTitle(userQuery);
+    const grounded = await groundSummary(summary, previousCards, undefined, prompts);
+    const title = await generateRecommendationTitle(userQuery, prompts);
     
     return {
       recommendations: [], // Empty - we're not showing new cards
-      summary: summary,
+      summary: grounded.summary,
       rawModelAnswer: responseText,
       title: title,
+      ...(grounded.report ? { grounding: grounded.report } : {}),
     };
   } catch (error) {
     console.error('Error generating response about previous cards:', error);
@@ -773,113 +605,229 @@ IMPORTANT: Only reference the cards provided. Do not suggest new cards.`,
   }
 }
 
+/**
+ * Adds what the profile knows to the message's constraints
+ * The profile's credit replaces credit read from the history, since it carries the user's corrections;
+ * cards the user already has are excluded
+ */
+async function withProfileConstraints(constraints: CardConstraint[], profile: UserProfile): Promise<CardConstraint[]> {
+  const merged: CardConstraint[] = constraints.filter(constraint => constraint.kind !== 'credit_tier');
+  const credit = profileCreditConstraint(profile);
+  if (credit) merged.push(credit);
+
+  // Issuer-only names ("Chase") from older profiles would exclude whichever of its cards matched first
+  for (const name of (profile.cardsHeld || []).filter(namesCardProduct)) {
+    const held = await findCardByName(name);
+    if (held && !merged.some(constraint => constraint.kind === 'card_held' && constraint.value === held.cardId)) {
+      merged.push({ kind: 'card_held', value: held.cardId, label: `Already have ${shortCardName(held.card.credit_card_name)}` });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Tags a routed response with the intent that produced it
+ */
+function withIntent(response: RecommendationsResponse, classification: IntentClassification): RecommendationsResponse {
+  return { ...response, intent: classification.intent };
+}
+
 /**
  * Generates credit card recommendations using RAG
+ * An observer receives stage updates and summary text as the model writes it
+ * With `excludeCardIds` the message is the one the shown cards answered, so routing is skipped
+ * and the next cards from the same ranking are recommended
  */
 export async function generateRecommendations(
   userQuery: string,
   topN: number = TOP_N_CARDS,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
-  previousRecommendations?: Recommendation[]
+  previousRecommendations?: Recommendation[],
+  userProfile?: UserProfile,
+  observer?: PipelineObserver,
+  options: RecommendationOptions = {}
 ): Promise<RecommendationsResponse> {
-  try {
-    // Step 0: Check if user is asking about previously shown cards
-    if (previousRecommendations && previousRecommendations.length > 0) {
-      console.log('Checking if query is about previously shown cards...');
-      const isAboutPreviousCards = await detectQuestionAboutPreviousCards(userQuery, previousRecommendations);
-      
-      if (isAboutPreviousCards) {
-        console.log('Question is about previously shown cards, generating response using only those cards');
-        return await generateResponseAboutPreviousCards(userQuery, previousRecommendations, conversationHistory);
-      }
+  // Split assignment is keyed on the conversation's first message, so a conversation stays on one variant
+  const firstMessage = conversationHistory?.find(msg => msg.role === 'user')?.content || userQuery;
+  const prompts = createPromptSelection(options.promptVariants, firstMessage);
+
+  // Only standalone questions are cached; follow-ups, paging and prompt experiments depend on more than the query
+  const cacheable = isResponseCacheEnabled() &&
+    !conversationHistory?.length &&
+    !previousRecommendations?.length &&
+    !options.excludeCardIds?.length &&
+    !options.promptVariants;
+  const cacheQuery = cacheable
+    ? await prepareCacheQuery(userQuery, canonicalJSON({
+        topN,
+        count: options.count ?? extractRequestedCount(userQuery) ?? null,
+        constraints: extractConstraints(userQuery),
+        profile: userProfile ?? null,
+      }))
+    : null;
+
+  if (cacheQuery) {
+    const cached = lookupCachedResponse(cacheQuery);
+    if (cached) {
+      console.log(`Response cache hit (${cached.similarity.toFixed(3)}) for "${cached.matchedQuery}"`);
+      reportStage(observer, 'finalizing');
+      return {
+        ...cached.response,
+        cache: {
+          hit: true,
+          similarity: cached.similarity,
+          matchedQuery: cached.matchedQuery,
+          cachedAt: new Date(cached.storedAt).toISOString(),
+        },
+      };
     }
+  }
+
+  const answered = await answerMessage(userQuery, topN, conversationHistory, previousRecommendations, userProfile, observer, options, prompts);
+  const response = prompts.used.length > 0 ? { ...answered, prompts: prompts.used } : answered;
+  if (cacheQuery) storeCachedResponse(cacheQuery, response);
+  return response;
+}
+
+async function answerMessage(
+  userQuery: string,
+  topN: number,
+  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> | undefined,
+  previousRecommendations: Recommendation[] | undefined,
+  userProfile: UserProfile | undefined,
+  observer: PipelineObserver | undefined,
+  options: RecommendationOptions,
+  prompts: PromptSelection
+): Promise<RecommendationsResponse> {
+  // Shown cards may carry ids from before a catalog rename
+  const excludedIds = new Set(await resolveCardIds(options.excludeCardIds || []));
+  const showingMore = excludedIds.size > 0;
+  const count = Math.min(
+    Math.max(options.count ?? extractRequestedCount(userQuery) ?? DEFAULT_RECOMMENDATION_COUNT, 1),
+    MAX_RECOMMENDATION_COUNT
+  );
+  
+  try {
+    // Step 0: Decide how to answer in one place: regex pre-check, then a single classifier call
+    reportStage(observer, 'classifying');
+    const classification: IntentClassification = showingMore
+      ? { intent: 'recommend', cardNames: [], constraints: extractConstraints(userQuery, conversationHistory), source: 'rules', reason: 'Shows more cards' }
+      : await classifyIntent(userQuery, conversationHistory, previousRecommendations, prompts);
+    console.log(`Intent: ${classification.intent} (${classification.source})`, classification.reason || '');
     
-    // Step 1: Check if user is asking about a specific card by name
-    // Skip this check if the query contains recommendation keywords (e.g., "best", "recommend", "show me")
-    const queryLower = userQuery.toLowerCase();
-    const recommendationKeywords = [
-      'best', 'recommend', 'suggest', 'show me', 'give me', 'which', 'what card',
-      'find', 'looking for', 'need', 'want', 'help me find'
-    ];
-    const hasRecommendationKeywords = recommendationKeywords.some(keyword => queryLower.includes(keyword));
-    
-    if (!hasRecommendationKeywords) {
-      // Only check for specific card if it doesn't look like a recommendation request
-      console.log('Checking if query is about a specific card...');
-      const specificCardName = await detectSpecificCardQuery(userQuery);
+    switch (classification.intent) {
+      case 'about_previous':
+        if (previousRecommendations && previousRecommendations.length > 0) {
+          console.log('Question is about previously shown cards, generating response using only those cards');
+          reportStage(observer, 'generating');
+          return withIntent(await generateResponseAboutPreviousCards(userQuery, previousRecommendations, prompts, conversationHistory), classification);
+        }
+        break;
       
-      if (specificCardName) {
-        console.log(`Detected specific card query: ${specificCardName}`);
-        const specificCard = await findCardByName(specificCardName);
-        
+      case 'specific_card': {
+        const specificCard = await findCardByName(classification.cardNames[0]);
         if (specificCard) {
           console.log(`Found specific card: ${specificCard.card.credit_card_name}`);
-          return await generateSpecificCardResponse(specificCard, userQuery, conversationHistory);
-        } else {
-          console.log(`Could not find card matching: ${specificCardName}`);
-          // Continue with normal flow - maybe the card name was misidentified
+          reportStage(observer, 'generating');
+          return withIntent(await generateSpecificCardResponse(specificCard, userQuery, prompts, conversationHistory), classification);
         }
+        // Continue with normal flow - maybe the card name was misidentified
+        console.log(`Could not find card matching: ${classification.cardNames[0]}`);
+        break;
       }
-    } else {
-      console.log('Query contains recommendation keywords, skipping specific card detection');
+      
+      case 'compare': {
+        reportStage(observer, 'generating');
+        const comparison = await generateComparisonResponse(classification.cardNames, userQuery, prompts, conversationHistory);
+        if (comparison) {
+          return comparison;
+        }
+        // Fewer than two cards resolved, so this is a conceptual comparison
+        return withIntent(await generateGeneralAnswer(userQuery, prompts, conversationHistory, observer), classification);
+      }
+      
+      case 'general':
+        console.log('Query does not require cards, generating general answer...');
+        return withIntent(await generateGeneralAnswer(userQuery, prompts, conversationHistory, observer), classification);
+      
+      case 'clarify':
+        return {
+          recommendations: [],
+          summary: classification.clarifyingQuestion,
+          intent: 'clarify',
+        };
+    }
+
+    // Step 1: Hard constraints (fee, credit, card type, issuer exclusions) were extracted with the intent;
+    // the profile keeps facts from messages that have dropped out of the history
+    const profile = userProfile || buildUserProfile(userQuery, conversationHistory);
+    const constraints = await withProfileConstraints(classification.constraints, profile);
+    if (constraints.length > 0) {
+      console.log('Applying constraints:', constraints.map(constraint => constraint.label));
     }
     
-    // Step 1: Determine if this query needs card recommendations
-    console.log('Determining if card recommendations are needed...');
-    const needsCards = await shouldReturnCards(userQuery, conversationHistory);
+    // Stated spending turns "which card earns the most" into arithmetic instead of a guess
+    const monthlySpend = profile.monthlySpend && Object.keys(profile.monthlySpend).length > 0 ? profile.monthlySpend : null;
     
-    if (!needsCards) {
-      console.log('Query does not require cards, generating general answer...');
-      return await generateGeneralAnswer(userQuery, conversationHistory);
-    }
-
-    // Step 2: Embed the user query
-    console.log('Embedding user query...');
-    const queryEmbedding = await embedQuery(userQuery);
+    // Step 2: Find candidate cards with hybrid keyword + embedding search over the filtered catalog
+    // With spending known, search deeper and keep the candidates worth the most for that spending
+    // "Show more" searches past the cards already shown, which are then dropped; one extra result tells whether more remain
+    const depth = Math.max(topN, excludedIds.size + count);
+    const candidateCount = depth - excludedIds.size;
+    console.log(`Finding top ${depth} candidate cards...`);
+    reportStage(observer, 'retrieving');
+    const rankedCards = await findCandidateCards(userQuery, (monthlySpend ? depth * 2 : depth) + 1, constraints);
+    const rankedById = new Map(rankedCards.map(rankedCard => [rankedCard.cardEmbedding.cardId, rankedCard]));
+    let similarCards = rankedCards
+      .map(rankedCard => rankedCard.cardEmbedding)
+      .filter(({ card }) => !excludedIds.has(card.id));
     
-    // Step 3: Find similar cards
-    console.log(`Finding top ${topN} similar cards...`);
-    const similarCards = await findSimilarCards(queryEmbedding, topN);
+    const valueEstimates = new Map<string, CardValueEstimate>();
+    if (monthlySpend) {
+      console.log('Ranking candidates by value for spending:', describeSpend(monthlySpend));
+      similarCards.forEach(({ card }) => valueEstimates.set(card.id, estimateCardValue(card, monthlySpend)));
+      similarCards = similarCards.sort((a, b) => compareEstimates(valueEstimates.get(a.card.id)!, valueEstimates.get(b.card.id)!));
+    }
+    // Candidates left once the shown cards are dropped; any this answer does not use remain for "show more"
+    const eligibleCards = similarCards;
+    similarCards = similarCards.slice(0, candidateCount);
     
     if (similarCards.length === 0) {
       return {
         recommendations: [],
-        summary: "I couldn't find any credit cards that match your specific needs. Please try rephrasing your question or asking about different criteria.",
+        summary: showingMore
+          ? "Those are all the cards that match what you asked for."
+          : constraints.length > 0
+          ? `I couldn't find any credit cards that meet all of these requirements: ${constraints.map(constraint => constraint.label).join(', ')}. Try relaxing one of them.`
+          : "I couldn't find any credit cards that match your specific needs. Please try rephrasing your question or asking about different criteria.",
         rawModelAnswer: 'No matching cards found.',
+        appliedConstraints: constraints,
+        intent: 'recommend',
       };
     }
     
-    // Step 4: Format context for LLM
-    const context = formatCardsForContext(similarCards);
+    // Step 3: Format context for LLM
+    const context = formatCardsForContext(similarCards, monthlySpend ? valueEstimates : undefined);
     
-    // Step 5: Call LLM with RAG context
+    // Step 4: Call LLM with RAG context
     console.log('Calling LLM for recommendations...');
     // Prompt that generates a conversational, markdown-formatted response with structured card listings
-    const systemPrompt = `You MUST return valid JSON with exactly this structure:
-{
-  "summary": "A well-structured markdown-formatted response with:\n1. Brief personalized opening (1 sentence) acknowledging the user's question\n2. Each card on a separate line as: - **Card Name** (as markdown link [Card Name](url)) - brief 1-2 sentence description\n3. Each card must be on its own line with a blank line between cards\n4. Brief closing (1 sentence) summarizing key takeaway\n\nUse markdown: **bold** for emphasis, proper line breaks, markdown list syntax (-), keep it conversational and warm. NO subheadings - go directly from opening sentence to list items. Each card MUST be on a separate line.",
-  "cards": [
-    {"credit_card_name": "Exact card name from candidate cards", "apply_url": "URL from candidate cards", "reason": "Brief 1-2 sentence description of why this card fits"},
-    {"credit_card_name": "Another card name", "apply_url": "Another URL", "reason": "Brief description"}
-  ]
-}
-
-CRITICAL: 
-- The "cards" array MUST contain exactly 3 cards (no more, no less)
-- Use EXACT card names from the candidate cards provided
-- Use EXACT URLs from the candidate cards provided
-- The summary MUST be in markdown format with:
-  1. Opening sentence (1 sentence only) acknowledging user's situation
-  2. Each card on its own line as: - **[Card Name](url)** - description (NO subheading before the cards)
-  3. Each card must be separated by a blank line (double line break)
-  4. Closing sentence (1 sentence only)
-- Always list ALL individual cards from the cards array in the summary
-- Make it conversational, warm, and visually structured
-- CRITICAL: Each card MUST be on a separate line with proper spacing`;
+    const profileLines = describeProfile(profile);
+    const prompt = renderPrompt('recommend', {
+      userQuery,
+      cards: context,
+      count,
+      cardNoun: count === 1 ? 'card' : 'cards',
+      requirements: constraints.map(constraint => constraint.label).join('; '),
+      profile: profileLines.join('; '),
+      spending: monthlySpend ? describeSpend(monthlySpend) : '',
+      showingMore,
+    }, prompts);
 
     // Build conversation history for context
     const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-      { role: 'system', content: systemPrompt },
+      { role: 'system', content: prompt.system },
     ];
 
     // Add conversation history if provided (limit to last 6 messages to avoid token bloat)
@@ -894,33 +842,22 @@ CRITICAL:
     }
 
     // Add current user query with card context
-    const userPrompt = `User question: ${userQuery}
-
-Candidate cards:
-${context}
-
-Create a conversational, well-structured markdown response that:
-1. Starts with a brief personalized opening (1 sentence only) acknowledging their question
-2. Lists each card on a separate line as: - **Card Name** (as markdown link [Card Name](url)) - 1-2 sentence description
-3. Each card MUST be on its own line with a blank line between cards (double line break)
-4. Ends with a brief closing (1 sentence only) summarizing key takeaway
-
-ALWAYS list ALL individual cards from your recommendations in the summary using the format above. Include both the card name and URL in the markdown link format. Each card MUST be on a separate line.
+    messages.push({ role: 'user', content: prompt.user });
 
-Then recommend exactly 3 cards (the best 3). Return JSON with the formatted markdown summary.`;
-    
-    messages.push({ role: 'user', content: userPrompt });
-
-    const openai = getOpenAIClient();
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
-      temperature: 0.3, // Slightly higher for more natural conversational tone
-      max_tokens: 800, // Increased to accommodate longer markdown-formatted responses with structure
-      response_format: { type: 'json_object' },
-    });
-    
-    const rawAnswer = completion.choices[0]?.message?.content || '';
+    // The title only depends on the query, so it is generated while the recommendations are written;
+    // "show more" keeps the title of the cards it adds to
+    const titlePromise = showingMore ? Promise.resolve(undefined) : generateRecommendationTitle(userQuery, prompts);
+    reportStage(observer, 'generating');
+    const rawAnswer = await createJsonCompletion(
+      {
+        label: 'recommend',
+        messages,
+        temperature: 0.3, // Slightly higher for more natural conversational tone
+        maxTokens: 800, // Increased to accommodate longer markdown-formatted responses with structure
+      },
+      observer?.onSummaryDelta
+    );
+    reportStage(observer, 'finalizing');
     console.log('LLM response received, length:', rawAnswer.length);
     console.log('LLM full response:', rawAnswer);
     
@@ -980,6 +917,7 @@ Then recommend exactly 3 cards (the best 3). Return JSON with the formatted mark
         if (matchingCard) {
           const card = matchingCard.card;
           return {
+            card_id: card.id,
             credit_card_name: rec.credit_card_name,
             apply_url: rec.apply_url || String(card.url_application || ''),
             reason: rec.reason || '',
@@ -998,46 +936,37 @@ Then recommend exactly 3 cards (the best 3). Return JSON with the formatted mark
       let finalRecommendations = enrichedRecommendations;
       if (finalRecommendations.length === 0 && similarCards.length > 0) {
         console.warn('All recommendations were filtered out. Using top similar cards as fallback.');
-        finalRecommendations = similarCards.slice(0, 3).map((cardData) => {
-          const card = cardData.card;
-          return {
-            credit_card_name: card.credit_card_name,
-            apply_url: String(card.url_application || card.url || ''),
-            reason: `This card matches your criteria based on ${card.rewards || 'its features'}.`,
-            intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
-            application_fee: String(card.application_fee || card.app_fee || ''),
-            credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
-            annual_fee: String(card.annual_fee || card.fee || ''),
-            rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
-            perks: String(card.perks || card.benefits || card.card_perks || ''),
-          };
+        finalRecommendations = similarCards.slice(0, count).map(({ card }) =>
+          cardToRecommendation(card, `This card matches your criteria based on ${card.rewards || 'its features'}.`)
+        );
+      }
+      
+      // With stated spending the computed ranking decides the cards; the model only supplies reasons
+      if (monthlySpend) {
+        finalRecommendations = similarCards.slice(0, count).map(({ card }) => {
+          const chosen = finalRecommendations.find(
+            rec => normalizeCardNameLocal(rec.credit_card_name) === normalizeCardNameLocal(card.credit_card_name)
+          );
+          const estimate = valueEstimates.get(card.id)!;
+          return chosen || cardToRecommendation(card, `${formatValueEstimate(estimate)} on your spending.`);
         });
       }
       
-      // Ensure we return exactly 3 cards for general recommendations
-      if (finalRecommendations.length > 3) {
-        finalRecommendations = finalRecommendations.slice(0, 3);
-      } else if (finalRecommendations.length < 3 && similarCards.length > finalRecommendations.length) {
-        // If we have fewer than 3 cards, pad with additional similar cards
-        console.log(`Only found ${finalRecommendations.length} cards, padding to 3...`);
+      // Ensure we return exactly the requested number of cards
+      if (finalRecommendations.length > count) {
+        finalRecommendations = finalRecommendations.slice(0, count);
+      } else if (finalRecommendations.length < count && similarCards.length > finalRecommendations.length) {
+        // If we have fewer cards than requested, pad with additional similar cards
+        console.log(`Only found ${finalRecommendations.length} cards, padding to ${count}...`);
         const usedCardNames = new Set(finalRecommendations.map(r => normalizeCardNameLocal(r.credit_card_name)));
         const additionalCards = similarCards
           .filter(card => !usedCardNames.has(normalizeCardNameLocal(card.card.credit_card_name)))
-          .slice(0, 3 - finalRecommendations.length);
+          .slice(0, count - finalRecommendations.length);
         
-        additionalCards.forEach((cardData) => {
-          const card = cardData.card;
-          finalRecommendations.push({
-            credit_card_name: card.credit_card_name,
-            apply_url: String(card.url_application || card.url || ''),
-            reason: `This card matches your criteria based on ${card.rewards || 'its features'}.`,
-            intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
-            application_fee: String(card.application_fee || card.app_fee || ''),
-            credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
-            annual_fee: String(card.annual_fee || card.fee || ''),
-            rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
-            perks: String(card.perks || card.benefits || card.card_perks || ''),
-          });
+        additionalCards.forEach(({ card }) => {
+          finalRecommendations.push(
+            cardToRecommendation(card, `This card matches your criteria based on ${card.rewards || 'its features'}.`)
+          );
         });
       }
       
@@ -1085,14 +1014,44 @@ Then recommend exactly 3 cards (the best 3). Return JSON with the formatted mark
         }
       }
       
-      // Generate a short title for the recommendations
-      const title = await generateRecommendationTitle(userQuery);
+      // Fees, earn rates and bonuses in the summary must match the catalog before it is shown
+      const grounded = await groundSummary(finalSummary, similarCards.map(({ card }) => card), undefined, prompts);
+      
+      // Short title for the recommendations, started before the main call
+      const title = await titlePromise;
+      const recommendedNames = new Set(finalRecommendations.map(rec => normalizeCardNameLocal(rec.credit_card_name)));
       
       return {
-        recommendations: finalRecommendations,
-        summary: finalSummary,
+        recommendations: finalRecommendations.map(rec => {
+          const candidateIndex = similarCards.findIndex(
+            candidate => normalizeCardNameLocal(candidate.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
+          );
+          if (candidateIndex === -1) return rec;
+          const card = similarCards[candidateIndex];
+          const rankedCard = rankedById.get(card.cardId);
+          const explained = rankedCard
+            ? {
+                ...rec,
+                explanation: explainCandidate(
+                  rankedCard,
+                  candidateIndex + 1,
+                  similarCards.length,
+                  monthlySpend ? 'value' : 'relevance',
+                  constraints,
+                  userQuery
+                ),
+              }
+            : rec;
+          return withValueEstimate(explained, valueEstimates.get(card.card.id));
+        }),
+        summary: grounded.summary,
         rawModelAnswer: rawAnswer,
         title: title,
+        appliedConstraints: constraints,
+        intent: 'recommend',
+        ...(monthlySpend ? { monthlySpend } : {}),
+        ...(grounded.report ? { grounding: grounded.report } : {}),
+        hasMore: eligibleCards.some(({ card }) => !recommendedNames.has(normalizeCardNameLocal(card.credit_card_name))),
       };
     } catch (parseError) {
       console.error('Failed to parse LLM response:', parseError);
@@ -1102,6 +1061,8 @@ Then recommend exactly 3 cards (the best 3). Return JSON with the formatted mark
         recommendations: [],
         summary: 'I found some cards that might match your needs. Here are the top recommendations:',
         rawModelAnswer: rawAnswer,
+        appliedConstraints: constraints,
+        intent: 'recommend',
       };
     }
   } catch (error) {
@@ -0,0 +1,126 @@
+import { RecommendationsResponse } from '@/types';
+import { embedQuery, loadEmbeddings } from './embeddings';
+import { onCatalogChange } from './snapshots';
+import { normalizeVector } from './vectorIndex';
+
+/**
+ * Semantic cache of full responses, keyed on the query embedding
+ * A lookup hits when a stored query is at least RESPONSE_CACHE_THRESHOLD similar and was asked with the same
+ * signature (count, constraints, profile); entries expire after RESPONSE_CACHE_TTL_MS and are dropped when
+ * the catalog or the embedding store changes
+ */
+
+/**
+ * Configuration for the cache
+ */
+const RESPONSE_CACHE_ENABLED = process.env.RESPONSE_CACHE !== 'off';
+const RESPONSE_CACHE_THRESHOLD = parseFloat(process.env.RESPONSE_CACHE_THRESHOLD || '0.95');
+const RESPONSE_CACHE_TTL_MS = parseInt(process.env.RESPONSE_CACHE_TTL_MS || '3600000', 10); // 1 hour
+const RESPONSE_CACHE_MAX_ENTRIES = parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '500', 10);
+
+interface CacheEntry {
+  query: string;
+  embedding: Float32Array; // Normalized, so similarity is a dot product
+  signature: string; // Everything besides the query wording that shapes the answer
+  storeKey: string; // Embedding store the entry was answered from
+  storedAt: number;
+  response: RecommendationsResponse;
+}
+
+// Insertion order doubles as age order, so the oldest entry is evicted first
+const entries = new Map<string, CacheEntry>();
+
+// A changed catalog makes every stored answer suspect
+onCatalogChange(() => clearResponseCache());
+
+export function isResponseCacheEnabled(): boolean {
+  return RESPONSE_CACHE_ENABLED;
+}
+
+/**
+ * Drops every entry
+ */
+export function clearResponseCache(): void {
+  entries.clear();
+}
+
+/**
+ * Identifies the loaded embedding store; a rebuild or a provider/model switch changes it
+ */
+async function currentStoreKey(): Promise<string> {
+  const store = await loadEmbeddings();
+  return `${store.provider}:${store.model}:${store.generatedAt}:${store.embeddings.length}`;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * A query's embedding, computed once and shared by lookup and store
+ */
+export interface CacheQuery {
+  query: string;
+  embedding: Float32Array;
+  signature: string;
+  storeKey: string;
+}
+
+export async function prepareCacheQuery(query: string, signature: string): Promise<CacheQuery> {
+  const [embedding, storeKey] = await Promise.all([embedQuery(query), currentStoreKey()]);
+  return { query, embedding: normalizeVector(embedding), signature, storeKey };
+}
+
+/**
+ * The most similar live entry above the threshold, with expired and stale entries removed on the way
+ */
+export function lookupCachedResponse(
+  cacheQuery: CacheQuery
+): { response: RecommendationsResponse; similarity: number; matchedQuery: string; storedAt: number } | null {
+  const now = Date.now();
+  let best: { entry: CacheEntry; similarity: number } | null = null;
+
+  for (const [key, entry] of entries) {
+    if (now - entry.storedAt > RESPONSE_CACHE_TTL_MS || entry.storeKey !== cacheQuery.storeKey) {
+      entries.delete(key);
+      continue;
+    }
+    if (entry.signature !== cacheQuery.signature) continue;
+
+    const similarity = dot(entry.embedding, cacheQuery.embedding);
+    if (similarity >= RESPONSE_CACHE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { entry, similarity };
+    }
+  }
+
+  if (!best) return null;
+  return {
+    response: structuredClone(best.entry.response),
+    similarity: best.similarity,
+    matchedQuery: best.entry.query,
+    storedAt: best.entry.storedAt,
+  };
+}
+
+/**
+ * Stores a response; a later answer to the same query and signature replaces the earlier one
+ */
+export function storeCachedResponse(cacheQuery: CacheQuery, response: RecommendationsResponse): void {
+  const key = `${cacheQuery.signature}\n${cacheQuery.query.trim().toLowerCase()}`;
+  entries.delete(key);
+  entries.set(key, {
+    ...cacheQuery,
+    storedAt: Date.now(),
+    response: structuredClone(response),
+  });
+
+  while (entries.size > RESPONSE_CACHE_MAX_ENTRIES) {
+    const oldest = entries.keys().next().value as string;
+    entries.delete(oldest);
+  }
+}
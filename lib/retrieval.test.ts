@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CardEmbedding, CreditCard } from '@/types';
+import { fuseRankings } from './retrieval';
+
+function cardEmbedding(cardId: string): CardEmbedding {
+  return { cardId, embedding: new Float32Array(0), card: { id: cardId } as CreditCard, textHash: '' };
+}
+
+const [a, b, c, d] = ['a', 'b', 'c', 'd'].map(cardEmbedding);
+const weights = { vector: 1, keyword: 1, k: 60 };
+
+describe('fuseRankings', () => {
+  it('ranks a card found by both lists above cards found by one', () => {
+    const fused = fuseRankings(
+      [{ cardEmbedding: a, similarity: 0.9 }, { cardEmbedding: b, similarity: 0.8 }],
+      [c, b],
+      10,
+      weights
+    );
+    assert.deepEqual(fused.map(entry => entry.cardEmbedding.cardId), ['b', 'a', 'c']);
+  });
+
+  it('keeps a null rank for the list a card is missing from', () => {
+    const fused = fuseRankings([{ cardEmbedding: a, similarity: 0.9 }], [d], 10, weights);
+    const byId = new Map(fused.map(entry => [entry.cardEmbedding.cardId, entry]));
+
+    assert.deepEqual(
+      { vectorRank: byId.get('a')?.vectorRank, keywordRank: byId.get('a')?.keywordRank, similarity: byId.get('a')?.similarity },
+      { vectorRank: 1, keywordRank: null, similarity: 0.9 }
+    );
+    assert.deepEqual(
+      { vectorRank: byId.get('d')?.vectorRank, keywordRank: byId.get('d')?.keywordRank, similarity: byId.get('d')?.similarity },
+      { vectorRank: null, keywordRank: 1, similarity: null }
+    );
+    assert.equal(byId.get('a')?.score, 1 / 61);
+  });
+
+  it('orders single-list cards by rank and list weight', () => {
+    const fused = fuseRankings(
+      [{ cardEmbedding: a, similarity: 0.9 }, { cardEmbedding: b, similarity: 0.8 }],
+      [c],
+      10,
+      { vector: 1, keyword: 0.5, k: 60 }
+    );
+    // a: 1/61, b: 1/62, c: 0.5/61
+    assert.deepEqual(fused.map(entry => entry.cardEmbedding.cardId), ['a', 'b', 'c']);
+  });
+
+  it('cuts the fused list to topN', () => {
+    const fused = fuseRankings([{ cardEmbedding: a, similarity: 0.9 }], [b, c, d], 2, weights);
+    assert.equal(fused.length, 2);
+  });
+});
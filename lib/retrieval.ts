@@ -0,0 +1,193 @@
+import { CardConstraint, CardEmbedding, CreditCard, EmbeddingsStore, MatchedCardField } from '@/types';
+import { cardMatchesConstraints, hasNoForeignTransactionFee } from './constraints';
+import { embedQuery, loadEmbeddings, searchSimilarCards, SimilarCard } from './embeddings';
+import { createKeywordIndex, KeywordIndex, tokenize } from './keywordIndex';
+import { normalizeCard } from './normalize';
+
+/**
+ * Hybrid retrieval configuration
+ * Each list contributes weight / (RRF_K + rank); a weight of 0 turns that list off
+ */
+const VECTOR_WEIGHT = parseFloat(process.env.HYBRID_VECTOR_WEIGHT || '1');
+const KEYWORD_WEIGHT = parseFloat(process.env.HYBRID_KEYWORD_WEIGHT || '1');
+const RRF_K = parseInt(process.env.HYBRID_RRF_K || '60', 10);
+
+/**
+ * Card name tokens are repeated so product-name queries rank the named card first
+ */
+const NAME_BOOST = 3;
+
+/**
+ * Fields that carry no searchable text
+ */
+const SKIPPED_FIELDS = new Set(['id', 'url_application']);
+
+/**
+ * Phrases whose meaning is lost once split into words ("no" is not a useful term on its own)
+ * Matching queries get a synthetic token that cards satisfying the phrase also carry
+ */
+const QUERY_PHRASES: Array<{ pattern: RegExp; token: string }> = [
+  { pattern: /\b(no|zero|without|\$0)\s+(foreign\s+)?(transaction|fx)\s+fees?\b|\bno\s+foreign\s+fees?\b/i, token: 'noforeignfee' },
+  { pattern: /\b(no|zero|without|\$0)\s+annual\s+fees?\b/i, token: 'noannualfee' },
+];
+
+/**
+ * A candidate card with its fused score and the rank it had in each list (1-based, null if absent)
+ */
+export interface RankedCard {
+  cardEmbedding: CardEmbedding;
+  score: number;
+  vectorRank: number | null;
+  keywordRank: number | null;
+  similarity: number | null;
+}
+
+/**
+ * Keyword index built over the cards of an embeddings store, cached per store
+ */
+let cachedKeywordIndex: { store: EmbeddingsStore; index: KeywordIndex } | null = null;
+
+/**
+ * Tokens a card is indexed under: its name (boosted), text fields and phrase tokens
+ */
+function cardTokens(card: CreditCard): string[] {
+  const tokens: string[] = [];
+  const nameTokens = tokenize(card.credit_card_name);
+  for (let i = 0; i < NAME_BOOST; i++) {
+    tokens.push(...nameTokens);
+  }
+
+  for (const [field, value] of Object.entries(card)) {
+    if (SKIPPED_FIELDS.has(field) || field === 'credit_card_name' || !value) continue;
+    tokens.push(...tokenize(String(value)));
+  }
+
+  if (hasNoForeignTransactionFee(card)) {
+    tokens.push('noforeignfee');
+  }
+  if (normalizeCard(card).normalized.annualFee === 0) {
+    tokens.push('noannualfee');
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokens for a user query, including phrase tokens
+ */
+function queryTokens(query: string): string[] {
+  const tokens = tokenize(query);
+  for (const { pattern, token } of QUERY_PHRASES) {
+    if (pattern.test(query)) tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Card fields that share terms with the query, which is what the keyword list ranked the card by
+ * Phrase tokens are reported on the fee field that earned them
+ */
+export function matchQueryFields(query: string, card: CreditCard): MatchedCardField[] {
+  const terms = new Set(queryTokens(query));
+  const matches: MatchedCardField[] = [];
+
+  for (const [field, value] of Object.entries(card)) {
+    if (SKIPPED_FIELDS.has(field) || !value) continue;
+    const found = Array.from(new Set(tokenize(String(value)).filter(token => terms.has(token))));
+    if (found.length > 0) matches.push({ field, terms: found });
+  }
+
+  const addPhrase = (field: string, phrase: string) => {
+    const existing = matches.find(match => match.field === field);
+    if (existing) existing.terms.push(phrase);
+    else matches.push({ field, terms: [phrase] });
+  };
+  if (terms.has('noforeignfee') && hasNoForeignTransactionFee(card)) {
+    addPhrase('foreign_transaction_fee', 'no foreign transaction fee');
+  }
+  if (terms.has('noannualfee') && normalizeCard(card).normalized.annualFee === 0) {
+    addPhrase('annual_fee', 'no annual fee');
+  }
+
+  return matches;
+}
+
+function getKeywordIndex(store: EmbeddingsStore): KeywordIndex {
+  if (cachedKeywordIndex && cachedKeywordIndex.store === store) {
+    return cachedKeywordIndex.index;
+  }
+
+  const index = createKeywordIndex(store.embeddings.map(cardEmbedding => cardTokens(cardEmbedding.card)));
+  cachedKeywordIndex = { store, index };
+  return index;
+}
+
+/**
+ * Fuses a vector and a keyword ranking by reciprocal rank
+ * Keyword hits are given as cards in rank order; a card found by only one list keeps a null rank in the other
+ */
+export function fuseRankings(
+  vectorResults: SimilarCard[],
+  keywordResults: CardEmbedding[],
+  topN: number,
+  weights: { vector: number; keyword: number; k: number } = { vector: VECTOR_WEIGHT, keyword: KEYWORD_WEIGHT, k: RRF_K }
+): RankedCard[] {
+  const fused = new Map<string, RankedCard>();
+
+  const entryFor = (cardEmbedding: CardEmbedding): RankedCard => {
+    let entry = fused.get(cardEmbedding.cardId);
+    if (!entry) {
+      entry = { cardEmbedding, score: 0, vectorRank: null, keywordRank: null, similarity: null };
+      fused.set(cardEmbedding.cardId, entry);
+    }
+    return entry;
+  };
+
+  vectorResults.forEach((result, position) => {
+    const entry = entryFor(result.cardEmbedding);
+    entry.vectorRank = position + 1;
+    entry.similarity = result.similarity;
+    entry.score += weights.vector / (weights.k + position + 1);
+  });
+
+  keywordResults.forEach((cardEmbedding, position) => {
+    const entry = entryFor(cardEmbedding);
+    entry.keywordRank = position + 1;
+    entry.score += weights.keyword / (weights.k + position + 1);
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topN);
+}
+
+/**
+ * Finds candidate cards with BM25 keyword search and embedding search fused by reciprocal rank
+ * Each list is searched deeper than topN so a card ranked well by only one of them can still surface
+ * Cards that break a hard constraint are filtered out before either list is ranked
+ */
+export async function findCandidateCards(
+  query: string,
+  topN: number = 20,
+  constraints: CardConstraint[] = []
+): Promise<RankedCard[]> {
+  const store = await loadEmbeddings();
+  const filter = constraints.length > 0
+    ? (card: CreditCard) => cardMatchesConstraints(card, constraints)
+    : undefined;
+  const depth = Math.max(topN * 3, 30);
+
+  const vectorResults = VECTOR_WEIGHT > 0
+    ? await searchSimilarCards(await embedQuery(query), depth, filter)
+    : [];
+
+  let keywordResults: CardEmbedding[] = [];
+  if (KEYWORD_WEIGHT > 0) {
+    const accept = filter ? (row: number) => filter(store.embeddings[row].card) : undefined;
+    keywordResults = getKeywordIndex(store)
+      .search(queryTokens(query), depth, accept)
+      .map(result => store.embeddings[result.index]);
+  }
+
+  return fuseRankings(vectorResults, keywordResults, topN);
+}
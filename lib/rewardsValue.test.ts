@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CreditCard, MonthlySpend } from '@/types';
+import { estimateCardValue, extractMonthlySpend } from './rewardsValue';
+
+const preferred = {
+  id: 'chase-sapphire-preferred-card',
+  credit_card_name: 'Chase Sapphire Preferred® Card',
+  url_application: 'https://example.com/csp',
+  annual_fee: '$95',
+  points_multipliers: '5x on travel purchased through Chase Travel, 3x on dining, 2x on all other travel, 1x on all other purchases',
+  intro_offer: '60,000 bonus points after $4,000 spend in 3 months',
+} as CreditCard;
+
+const savorOne = {
+  id: 'capital-one-savorone-cash-rewards',
+  credit_card_name: 'Capital One SavorOne Cash Rewards',
+  url_application: 'https://example.com/savorone',
+  annual_fee: '$0',
+  points_multipliers: '3% on dining, 3% on entertainment, 3% on popular streaming services, 3% at grocery stores, 1% on all other purchases',
+  intro_offer: '$200 cash bonus after $500 spend in 3 months',
+} as CreditCard;
+
+const gold = {
+  id: 'american-express-gold-card',
+  credit_card_name: 'American Express® Gold Card',
+  url_application: 'https://example.com/gold',
+  annual_fee: '$325',
+  points_multipliers: '4x at restaurants, 4x at U.S. supermarkets on up to $25k per year, 3x on flights booked directly with airlines, 1x on all other purchases',
+  intro_offer: '60,000 Membership Rewards points after $6,000 spend in 6 months',
+} as CreditCard;
+
+describe('extractMonthlySpend', () => {
+  const cases: Array<{ query: string; history?: string[]; expected: MonthlySpend | null }> = [
+    { query: 'I spend $500 a month on groceries and $200 on gas', expected: { groceries: 500, gas: 200 } },
+    { query: 'About $6,000 a year on dining', expected: { dining: 500 } },
+    { query: 'groceries: $600, dining: $300', expected: { groceries: 600, dining: 300 } },
+    { query: 'I spend $2k a month', expected: { everything: 2000 } },
+    { query: '$130 a week on gas', expected: { gas: 130 / (12 / 52) } },
+    { query: 'A travel card with an annual fee under $95', expected: null },
+    { query: 'Which card has a $200 cash bonus?', expected: null },
+    { query: '$400 on dining', history: ['$300 a month on dining, $100 on streaming'], expected: { dining: 400, streaming: 100 } },
+  ];
+
+  for (const { query, history, expected } of cases) {
+    it(`reads ${JSON.stringify(query)}`, () => {
+      const conversationHistory = history?.map(content => ({ role: 'user' as const, content }));
+      assert.deepEqual(extractMonthlySpend(query, conversationHistory), expected);
+    });
+  }
+});
+
+describe('estimateCardValue', () => {
+  it('adds a reachable points bonus to the first year only', () => {
+    // Dining 6,000 * 3x + other 12,000 * 1x = 30,000 points at 1 cent
+    const estimate = estimateCardValue(preferred, { dining: 500, everything: 1000 }, 1);
+    assert.deepEqual(
+      { annualRewards: estimate.annualRewards, introBonus: estimate.introBonus, firstYearValue: estimate.firstYearValue, ongoingValue: estimate.ongoingValue },
+      { annualRewards: 300, introBonus: 600, firstYearValue: 805, ongoingValue: 205 }
+    );
+    assert.ok(estimate.notes.some(note => /travel portal/.test(note)));
+  });
+
+  it('values points at the given cents per point', () => {
+    const estimate = estimateCardValue(preferred, { dining: 500, everything: 1000 }, 2);
+    assert.deepEqual([estimate.annualRewards, estimate.introBonus, estimate.ongoingValue], [600, 1200, 505]);
+  });
+
+  it('leaves out a bonus the spending cannot reach in time', () => {
+    const estimate = estimateCardValue(preferred, { everything: 500 }, 1);
+    assert.equal(estimate.introBonus, 0);
+    assert.equal(estimate.firstYearValue, estimate.ongoingValue);
+    assert.equal(estimate.ongoingValue, 60 - 95);
+    assert.ok(estimate.notes.some(note => /needs \$4,000 in 3 months/.test(note)));
+  });
+
+  it('counts cash back and a cash bonus at face value', () => {
+    const estimate = estimateCardValue(savorOne, { dining: 200, groceries: 300 }, 5);
+    // (2,400 + 3,600) * 3%
+    assert.deepEqual([estimate.annualRewards, estimate.introBonus, estimate.firstYearValue, estimate.ongoingValue], [180, 200, 380, 180]);
+  });
+
+  it('pays the base rate on spend past a category cap', () => {
+    const estimate = estimateCardValue(gold, { groceries: 3000 }, 1);
+    // 25,000 * 4x + 11,000 * 1x
+    assert.equal(estimate.breakdown.find(entry => entry.category === 'groceries')?.value, 1110);
+    assert.equal(estimate.ongoingValue, 1110 - 325);
+  });
+
+  it('uses the waived fee in the first year', () => {
+    const waived = { ...savorOne, annual_fee: '$0 intro annual fee for the first year, then $95' } as CreditCard;
+    const estimate = estimateCardValue(waived, { dining: 200, groceries: 300 }, 1);
+    assert.deepEqual([estimate.annualFee, estimate.firstYearFee], [95, 0]);
+    assert.deepEqual([estimate.firstYearValue, estimate.ongoingValue], [380, 85]);
+  });
+});
@@ -0,0 +1,300 @@
+import { CardValueEstimate, CategoryMultiplier, CategoryValue, ConversationMessage, CreditCard, MonthlySpend, SpendCategory } from '@/types';
+import { categorize, normalizeCard } from './normalize';
+
+/**
+ * Cents a point or mile is worth when redeemed; cash back is always worth face value
+ */
+export const POINT_VALUE_CENTS = parseFloat(process.env.POINT_VALUE_CENTS || '1');
+
+/**
+ * Highest point value a request may ask for; no transfer partner gets near 10 cents a point
+ */
+export const MAX_POINT_VALUE_CENTS = 10;
+
+/**
+ * Categories spend can be stated in, in the order estimates list them
+ */
+export const SPEND_CATEGORIES: Array<Exclude<SpendCategory, 'rotating'>> = [
+  'dining', 'groceries', 'gas', 'travel', 'flights', 'hotels', 'streaming', 'drugstores', 'transit', 'online_shopping', 'everything',
+];
+
+/**
+ * Broader categories whose rate applies when a card has no rate for the narrower one
+ */
+export const PARENT_CATEGORIES: Partial<Record<SpendCategory, SpendCategory[]>> = {
+  flights: ['travel'],
+  hotels: ['travel'],
+};
+
+/**
+ * Everyday words for spending categories that card terms do not use
+ */
+const SPEND_KEYWORDS: Array<{ category: Exclude<SpendCategory, 'rotating'>; pattern: RegExp }> = [
+  { category: 'dining', pattern: /eating out|\bfood\b|\bbars?\b|coffee|doordash|uber ?eats/i },
+  { category: 'transit', pattern: /\buber\b|\blyft\b|\btrains?\b|subway|\bbus\b/i },
+  { category: 'online_shopping', pattern: /shopping online/i },
+  { category: 'everything', pattern: /everything else|other (stuff|spending|purchases)|\bin total\b|\boverall\b/i },
+];
+
+/**
+ * Dollar amounts: "$500", "$1,200", "$2k", "300 dollars"
+ */
+const AMOUNT_PATTERN = /\$\s*(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?\s*(k\b)?|\b(\d{1,3}(?:,\d{3})+|\d+)\s*(k\s*)?(?:dollars|bucks)\b/gi;
+
+const PERIOD_PATTERNS: Array<{ months: number; pattern: RegExp }> = [
+  { months: 1, pattern: /\/\s*(mo|month)\b|\b(a|per|each|every)\s+month\b|\bmonthly\b/i },
+  { months: 12, pattern: /\/\s*(yr|year)\b|\b(a|per|each|every)\s+year\b|\bannually\b|\byearly\b/i },
+  { months: 12 / 52, pattern: /\/\s*(wk|week)\b|\b(a|per|each|every)\s+week\b|\bweekly\b/i },
+];
+
+/**
+ * Months an amount covers, or null when the text does not say
+ */
+function statedPeriod(text: string): number | null {
+  return PERIOD_PATTERNS.find(({ pattern }) => pattern.test(text))?.months ?? null;
+}
+
+function spendCategory(text: string): Exclude<SpendCategory, 'rotating'> | null {
+  const keyword = SPEND_KEYWORDS.find(({ pattern }) => pattern.test(text));
+  if (keyword) return keyword.category;
+  const category = categorize(text);
+  return category === 'rotating' ? null : category;
+}
+
+/**
+ * Monthly spend stated in a single message ("$500 a month on groceries, $200 on gas")
+ * Each amount takes the category named after it, or just before it ("groceries: $500")
+ * Amounts that are fees, bonuses or budgets ("under $95") are not spend
+ */
+function parseSpendMessage(text: string): MonthlySpend {
+  const spend: MonthlySpend = {};
+  const amounts = Array.from(text.matchAll(AMOUNT_PATTERN));
+  const messagePeriod = statedPeriod(text);
+
+  amounts.forEach((match, position) => {
+    const start = match.index || 0;
+    const end = start + match[0].length;
+    const nextStart = position + 1 < amounts.length ? amounts[position + 1].index || text.length : text.length;
+    const previousEnd = position > 0 ? (amounts[position - 1].index || 0) + amounts[position - 1][0].length : 0;
+
+    const before = text.slice(Math.max(previousEnd, start - 30), start);
+    const after = text.slice(end, Math.min(nextStart, end + 40));
+    if (/\b(under|below|less than|at most|up to|no more than|over|above)\s*$/i.test(before)) return;
+    if (/^\s*(annual\s+|yearly\s+)?(fee|bonus|credit limit|limit|deposit|statement credit|cash bonus)/i.test(after)) return;
+
+    const category =
+      spendCategory(after.split(/[.;!?]|,\s*(?=\D)|\band\b/i)[0]) ||
+      spendCategory(before.split(/[.;!?,]/).pop() || '') ||
+      (amounts.length === 1 && /\bspend|\bspent|\bput\b|\bcharge/i.test(text) ? 'everything' : null);
+    if (!category) return;
+
+    const dollars = parseFloat(String(match[1] || match[3]).replace(/,/g, '')) * (match[2] || match[4] ? 1000 : 1);
+    const months = statedPeriod(after) ?? messagePeriod ?? 1;
+    spend[category] = (spend[category] || 0) + dollars / months;
+  });
+
+  return spend;
+}
+
+/**
+ * Extracts monthly spend by category from the user's messages, oldest first
+ * A later message replaces the amount for a category it restates
+ * Returns null when no spending was stated
+ */
+export function extractMonthlySpend(query: string, conversationHistory?: ConversationMessage[]): MonthlySpend | null {
+  const messages = [
+    ...(conversationHistory || []).filter(message => message.role === 'user').map(message => message.content),
+    query,
+  ];
+
+  const spend: MonthlySpend = {};
+  for (const message of messages) {
+    Object.assign(spend, parseSpendMessage(message));
+  }
+
+  return Object.keys(spend).length > 0 ? spend : null;
+}
+
+/**
+ * Total monthly spend across categories
+ */
+export function totalMonthlySpend(spend: MonthlySpend): number {
+  return Object.values(spend).reduce((sum, amount) => sum + (amount || 0), 0);
+}
+
+/**
+ * Dollars earned per dollar spent at a rate
+ */
+function dollarsPerDollar(rate: number, unit: CategoryMultiplier['unit'], pointValueCents: number): number {
+  return unit === 'percent' ? rate / 100 : (rate * pointValueCents) / 100;
+}
+
+/**
+ * The rate a card pays on general spend; 1x (or 1%) when earn rates are listed without one
+ */
+function baseRate(multipliers: CategoryMultiplier[]): { rate: number; unit: CategoryMultiplier['unit'] } | null {
+  const everything = multipliers.find(multiplier => multiplier.category === 'everything');
+  if (everything) return everything;
+  return multipliers.length > 0 ? { rate: 1, unit: multipliers[0].unit } : null;
+}
+
+/**
+ * Rewards on one category's yearly spend, honoring a spend cap on the category rate
+ */
+function categoryValue(
+  category: SpendCategory,
+  annualSpend: number,
+  multipliers: CategoryMultiplier[],
+  pointValueCents: number
+): CategoryValue {
+  const base = baseRate(multipliers);
+  const candidates = [category, ...(PARENT_CATEGORIES[category] || [])];
+  const multiplier = candidates
+    .map(candidate => multipliers.find(m => m.category === candidate))
+    .find((m): m is CategoryMultiplier => m !== undefined);
+
+  if (!multiplier) {
+    if (!base) return { category, annualSpend, rate: 0, unit: 'percent', value: 0 };
+    return { category, annualSpend, ...base, value: annualSpend * dollarsPerDollar(base.rate, base.unit, pointValueCents) };
+  }
+
+  const capped = multiplier.annualSpendCap !== null ? Math.min(annualSpend, multiplier.annualSpendCap) : annualSpend;
+  const overflow = annualSpend - capped;
+  const value =
+    capped * dollarsPerDollar(multiplier.rate, multiplier.unit, pointValueCents) +
+    (base ? overflow * dollarsPerDollar(base.rate, base.unit, pointValueCents) : 0);
+
+  return { category, annualSpend, rate: multiplier.rate, unit: multiplier.unit, value };
+}
+
+/**
+ * Parses the intro offer into a dollar value and the spend needed to earn it
+ * "Cashback Match" and "extra 1.5% on everything" offers depend on the year's rewards and spend
+ */
+function introBonusValue(
+  offer: string,
+  annualRewards: number,
+  annualSpend: number,
+  pointValueCents: number
+): { value: number; requiredSpend: number | null; months: number | null } {
+  const requirement = offer.match(/after (?:you )?(?:spend(?:ing)?\s+)?\$\s*(\d{1,3}(?:,\d{3})*|\d+)\s*(k\b)?[^.]*?\b(?:in|within) (?:the first\s+)?(\d+)\s+months?/i);
+  const requiredSpend = requirement ? parseFloat(requirement[1].replace(/,/g, '')) * (requirement[2] ? 1000 : 1) : null;
+  const months = requirement ? parseInt(requirement[3], 10) : null;
+
+  if (/cash\s*back match|match(es)? (all )?the cash back/i.test(offer)) {
+    return { value: annualRewards, requiredSpend, months };
+  }
+
+  const extraRate = offer.match(/extra\s+(\d+(?:\.\d+)?)%[^.]*?(?:up to \$\s*(\d{1,3}(?:,\d{3})*|\d+)\s*(k\b)?)?/i);
+  if (extraRate) {
+    const cap = extraRate[2] ? parseFloat(extraRate[2].replace(/,/g, '')) * (extraRate[3] ? 1000 : 1) : Infinity;
+    return { value: (Math.min(annualSpend, cap) * parseFloat(extraRate[1])) / 100, requiredSpend, months };
+  }
+
+  const points = offer.match(/(\d{1,3}(?:,\d{3})+|\d+)\s*(k\b)?[a-z\s]*?\b(points|miles)\b/i);
+  if (points) {
+    const count = parseFloat(points[1].replace(/,/g, '')) * (points[2] ? 1000 : 1);
+    return { value: (count * pointValueCents) / 100, requiredSpend, months };
+  }
+
+  const dollars = offer.match(/\$\s*(\d{1,3}(?:,\d{3})*|\d+)\s*(?:bonus|cash|statement credit|back)/i);
+  if (dollars) {
+    return { value: parseFloat(dollars[1].replace(/,/g, '')), requiredSpend, months };
+  }
+
+  return { value: 0, requiredSpend: null, months: null };
+}
+
+/**
+ * Fee charged in the first year, when the card waives it ("$0 intro annual fee the first year, then $95")
+ */
+function firstYearFee(feeText: string, annualFee: number): number {
+  return /\$0\b[^,;]*first year|first year[^,;]*(free|waived|\$0\b)/i.test(feeText) ? 0 : annualFee;
+}
+
+const round = (value: number) => Math.round(value);
+
+/**
+ * Estimates a card's first-year and ongoing net value for a monthly spend profile
+ */
+export function estimateCardValue(
+  card: CreditCard,
+  spend: MonthlySpend,
+  pointValueCents: number = POINT_VALUE_CENTS
+): CardValueEstimate {
+  const { multipliers: allMultipliers, annualFee } = normalizeCard(card).normalized;
+  const notes: string[] = [];
+
+  const portalRates = allMultipliers.filter(multiplier => multiplier.portalOnly);
+  const multipliers = allMultipliers.filter(multiplier => !multiplier.portalOnly && multiplier.category !== 'rotating');
+  if (portalRates.length > 0) {
+    notes.push('Rates that require booking through the issuer\'s travel portal are not counted');
+  }
+  if (allMultipliers.some(multiplier => multiplier.category === 'rotating')) {
+    notes.push('Rotating quarterly categories are not counted');
+  }
+
+  const breakdown = SPEND_CATEGORIES
+    .filter(category => (spend[category] || 0) > 0)
+    .map(category => categoryValue(category, (spend[category] || 0) * 12, multipliers, pointValueCents));
+  const annualRewards = breakdown.reduce((sum, entry) => sum + entry.value, 0);
+  const annualSpend = totalMonthlySpend(spend) * 12;
+
+  const fee = annualFee ?? 0;
+  if (annualFee === null) {
+    notes.push('Annual fee unknown; assumed $0');
+  }
+  const feeFirstYear = firstYearFee(String(card.annual_fee || card.fee || ''), fee);
+
+  const offer = String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || '');
+  const bonus = introBonusValue(offer, annualRewards, annualSpend, pointValueCents);
+  let introBonus = bonus.value;
+  if (introBonus > 0 && bonus.requiredSpend !== null && bonus.months !== null) {
+    const reachable = (annualSpend / 12) * bonus.months;
+    if (reachable < bonus.requiredSpend) {
+      notes.push(`Intro bonus not counted: it needs $${bonus.requiredSpend.toLocaleString()} in ${bonus.months} months, about $${round(reachable).toLocaleString()} at this spending`);
+      introBonus = 0;
+    }
+  }
+
+  return {
+    cardId: card.id,
+    credit_card_name: card.credit_card_name,
+    annualRewards: round(annualRewards),
+    annualFee: fee,
+    firstYearFee: feeFirstYear,
+    introBonus: round(introBonus),
+    firstYearValue: round(annualRewards + introBonus - feeFirstYear),
+    ongoingValue: round(annualRewards - fee),
+    breakdown: breakdown.map(entry => ({ ...entry, value: Math.round(entry.value * 100) / 100 })),
+    notes,
+  };
+}
+
+/**
+ * Orders estimates by ongoing value, then first-year value, highest first
+ */
+export function compareEstimates(a: CardValueEstimate, b: CardValueEstimate): number {
+  return b.ongoingValue - a.ongoingValue || b.firstYearValue - a.firstYearValue;
+}
+
+/**
+ * Estimates every card for a spend profile, best value first
+ */
+export function rankCardsByValue(
+  cards: CreditCard[],
+  spend: MonthlySpend,
+  pointValueCents: number = POINT_VALUE_CENTS
+): CardValueEstimate[] {
+  return cards.map(card => estimateCardValue(card, spend, pointValueCents)).sort(compareEstimates);
+}
+
+/**
+ * Short description of a spend profile ("$500/mo groceries, $200/mo gas")
+ */
+export function describeSpend(spend: MonthlySpend): string {
+  return SPEND_CATEGORIES
+    .filter(category => (spend[category] || 0) > 0)
+    .map(category => `$${round(spend[category] || 0).toLocaleString()}/mo ${category === 'everything' ? 'other' : category.replace('_', ' ')}`)
+    .join(', ');
+}
@@ -0,0 +1,84 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConversationTurn, Recommendation } from '@/types';
+
+// Configuration is read when the modules load, so it is set before they are imported; the fixture catalog is
+// read from the repo while everything the catalog load writes (aliases, snapshots, sets) lands in a temp dir
+const fixtureCsv = path.join(process.cwd(), 'data', 'fixtures', 'cards.csv');
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shared-sets-'));
+process.env.CARD_SOURCE = 'csv';
+process.env.CARD_SOURCE_PATH = fixtureCsv;
+process.env.SHARED_SETS_DIR = path.join(tempDir, 'shared');
+process.env.SHARE_TTL_DAYS = '30';
+process.chdir(tempDir);
+
+type SharedSets = typeof import('./sharedSets');
+
+function turn(cardIds: string[]): ConversationTurn {
+  const recommendations = cardIds.map((card_id): Recommendation => ({
+    card_id,
+    credit_card_name: 'Name from the model',
+    apply_url: 'https://phishing.example',
+    reason: `Reason for ${card_id}`,
+  }));
+  return {
+    message: 'Best travel cards',
+    response: { recommendations, title: 'Travel Cards', summary: 'Stored summary' },
+    createdAt: new Date().toISOString(),
+  };
+}
+
+describe('shared sets', () => {
+  after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+  it('keeps only catalog cards, in the order given, with the text of the turn', async () => {
+    const { isShareId, saveSharedSet }: SharedSets = await import('./sharedSets');
+    const set = await saveSharedSet(
+      ['chase-sapphire-reserve', 'not-a-card', 'chase-sapphire-preferred-card', 'chase-sapphire-reserve'],
+      turn(['chase-sapphire-preferred-card', 'chase-sapphire-reserve'])
+    );
+
+    assert.ok(set && isShareId(set.id));
+    assert.deepEqual(set.recommendations.map(recommendation => recommendation.card_id), ['chase-sapphire-reserve', 'chase-sapphire-preferred-card']);
+    assert.equal(set.recommendations[1].credit_card_name, 'Chase Sapphire Preferred® Card');
+    assert.equal(set.recommendations[1].apply_url, 'https://creditcards.chase.com/rewards-credit-cards/sapphire/preferred');
+    assert.equal(set.recommendations[1].reason, 'Reason for chase-sapphire-preferred-card');
+    assert.deepEqual([set.query, set.title, set.summary], ['Best travel cards', 'Travel Cards', 'Stored summary']);
+  });
+
+  it('saves nothing when no id is a catalog card', async () => {
+    const { saveSharedSet }: SharedSets = await import('./sharedSets');
+    assert.equal(await saveSharedSet(['not-a-card', 'also-not-a-card'], null), null);
+  });
+
+  it('finds the ids a turn did not recommend', async () => {
+    const { cardsOutsideTurn }: SharedSets = await import('./sharedSets');
+    const ids = ['chase-sapphire-preferred-card', 'chase-sapphire-reserve', 'not-a-card'];
+    assert.deepEqual(await cardsOutsideTurn(ids, turn(['chase-sapphire-preferred-card'])), ['chase-sapphire-reserve', 'not-a-card']);
+  });
+
+  it('requires a turn index with a conversation', async () => {
+    const { validateShareRequest }: SharedSets = await import('./sharedSets');
+    assert.equal(validateShareRequest({ card_ids: ['a'] }), null);
+    assert.equal(validateShareRequest({ card_ids: ['a'], conversationId: 'c', turn: 0 }), null);
+    assert.notEqual(validateShareRequest({ card_ids: ['a'], conversationId: 'c' }), null);
+    assert.notEqual(validateShareRequest({ card_ids: ['a'], turn: 0 }), null);
+    assert.notEqual(validateShareRequest({ card_ids: [] }), null);
+  });
+
+  it('reads an expired set as missing and deletes it', async () => {
+    const { getSharedSet, saveSharedSet }: SharedSets = await import('./sharedSets');
+    const set = await saveSharedSet(['chase-sapphire-preferred-card'], null);
+    assert.ok(set);
+    assert.ok(Date.parse(set.expiresAt!) > Date.now() + 29 * 24 * 60 * 60 * 1000);
+    assert.equal(getSharedSet(set.id)?.id, set.id);
+
+    const file = path.join(process.env.SHARED_SETS_DIR!, `${set.id}.json`);
+    fs.writeFileSync(file, JSON.stringify({ ...set, expiresAt: new Date(Date.now() - 1000).toISOString() }));
+    assert.equal(getSharedSet(set.id), null);
+    assert.equal(fs.existsSync(file), false);
+  });
+});
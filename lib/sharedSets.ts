@@ -0,0 +1,212 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConversationTurn, SharedRecommendationSet } from '@/types';
+import { cardToRecommendation, getCreditCards, resolveCardIds } from './data';
+
+/**
+ * Recommendation sets saved for sharing, one JSON file per set in SHARED_SETS_DIR
+ * Sets expire SHARE_TTL_DAYS after they are saved (0 keeps them forever); expired sets read as missing
+ * and are deleted when found
+ * Nothing a client sends is shown on the page: cards and links come from the catalog, and the question,
+ * title, summary and reasons from a turn stored on the server
+ */
+
+/**
+ * Configuration for shared sets
+ */
+const SHARED_SETS_DIR = path.resolve(process.cwd(), process.env.SHARED_SETS_DIR || path.join('data', 'shared'));
+const SHARE_TTL_DAYS = parseFloat(process.env.SHARE_TTL_DAYS || '30');
+const SITE_URL = process.env.SITE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : '');
+
+/**
+ * Limits on what a set may hold; anything past them is cut
+ */
+const MAX_SHARED_CARDS = 20;
+const MAX_QUERY_LENGTH = 500;
+const MAX_TITLE_LENGTH = 100;
+const MAX_SUMMARY_LENGTH = 10000;
+
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const ID_LENGTH = 8;
+const SHARE_ID = new RegExp(`^[A-Za-z0-9]{${ID_LENGTH}}$`);
+
+// Expired files are swept at most this often, when a set is saved
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPrunedAt = 0;
+
+/**
+ * Sets that could not be written, kept for this process when the filesystem is read-only
+ */
+const setsInMemory = new Map<string, SharedRecommendationSet>();
+
+export function isShareId(id: unknown): id is string {
+  return typeof id === 'string' && SHARE_ID.test(id);
+}
+
+/**
+ * Where a set can be opened: absolute when the site URL is known, otherwise a path
+ */
+export function shareUrl(id: string): string {
+  return `${SITE_URL.replace(/\/$/, '')}/r/${id}`;
+}
+
+/**
+ * Base URL for link preview metadata, when known
+ */
+export function getSiteUrl(): URL | undefined {
+  return SITE_URL ? new URL(SITE_URL) : undefined;
+}
+
+function createShareId(): string {
+  // 62 * 4 = 248, so taking bytes below 248 keeps every character equally likely
+  let id = '';
+  while (id.length < ID_LENGTH) {
+    for (const byte of randomBytes(ID_LENGTH * 2)) {
+      if (byte < 248 && id.length < ID_LENGTH) id += ID_ALPHABET[byte % 62];
+    }
+  }
+  return id;
+}
+
+function setFile(id: string): string {
+  return path.join(SHARED_SETS_DIR, `${id}.json`);
+}
+
+function isExpired(set: SharedRecommendationSet, now: number = Date.now()): boolean {
+  return set.expiresAt !== null && Date.parse(set.expiresAt) <= now;
+}
+
+function text(value: unknown, maxLength: number): string | undefined {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : undefined;
+}
+
+/**
+ * Checks a share request; returns an error message or null
+ */
+export function validateShareRequest(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return 'Request body must be an object';
+  const { card_ids, conversationId, turn } = body as { card_ids?: unknown; conversationId?: unknown; turn?: unknown };
+  if (!Array.isArray(card_ids) || card_ids.length === 0 || card_ids.some(id => typeof id !== 'string')) {
+    return 'card_ids must be a non-empty array of card ids';
+  }
+  if (conversationId !== undefined && typeof conversationId !== 'string') return 'conversationId must be a string';
+  if ((conversationId !== undefined || turn !== undefined) && (conversationId === undefined || !Number.isInteger(turn) || (turn as number) < 0)) {
+    return 'conversationId and turn must be given together, turn as the index of the turn the cards came from';
+  }
+  return null;
+}
+
+/**
+ * Current ids of the cards a turn recommended
+ */
+async function turnCardIds(turn: ConversationTurn): Promise<string[]> {
+  return resolveCardIds(turn.response.recommendations.flatMap(recommendation => recommendation.card_id ? [recommendation.card_id] : []));
+}
+
+/**
+ * The ids a turn did not recommend; a set only shows a turn's text next to that turn's own cards
+ */
+export async function cardsOutsideTurn(cardIds: string[], turn: ConversationTurn): Promise<string[]> {
+  const recommended = new Set(await turnCardIds(turn));
+  const resolved = await resolveCardIds(cardIds);
+  return cardIds.filter((_id, index) => !recommended.has(resolved[index]));
+}
+
+/**
+ * Drops expired sets from memory and disk
+ */
+function pruneExpiredSets(): void {
+  const now = Date.now();
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = now;
+
+  for (const [id, set] of setsInMemory) {
+    if (isExpired(set, now)) setsInMemory.delete(id);
+  }
+  if (!fs.existsSync(SHARED_SETS_DIR)) return;
+  for (const file of fs.readdirSync(SHARED_SETS_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const filePath = path.join(SHARED_SETS_DIR, file);
+    try {
+      if (isExpired(JSON.parse(fs.readFileSync(filePath, 'utf-8')))) fs.unlinkSync(filePath);
+    } catch (error) {
+      console.warn(`Failed to prune shared set ${file}:`, error);
+    }
+  }
+}
+
+/**
+ * Saves the catalog cards with these ids for sharing, in the order given; validate the request first
+ * A stored turn supplies the question, title, summary and each card's reason; null when no id is a shareable card
+ */
+export async function saveSharedSet(cardIds: string[], turn: ConversationTurn | null): Promise<SharedRecommendationSet | null> {
+  const cardsById = new Map((await getCreditCards()).map(card => [card.id, card]));
+  const answered = new Map<string, string>();
+  if (turn) {
+    const ids = await turnCardIds(turn);
+    turn.response.recommendations
+      .filter(recommendation => recommendation.card_id)
+      .forEach((recommendation, index) => answered.set(ids[index], recommendation.reason));
+  }
+
+  // Cards without an http(s) link are left out, since the page is opened by people other than the one who saved it
+  const recommendations = Array.from(new Set(await resolveCardIds(cardIds)))
+    .flatMap(id => {
+      const card = cardsById.get(id);
+      return card ? [cardToRecommendation(card, answered.get(card.id) || '')] : [];
+    })
+    .filter(recommendation => /^https?:\/\//i.test(recommendation.apply_url))
+    .slice(0, MAX_SHARED_CARDS);
+  if (recommendations.length === 0) return null;
+
+  const now = new Date();
+  const set: SharedRecommendationSet = {
+    id: createShareId(),
+    query: text(turn?.message, MAX_QUERY_LENGTH) || '',
+    title: text(turn?.response.title, MAX_TITLE_LENGTH) || 'Credit Card Recommendations',
+    summary: text(turn?.response.summary, MAX_SUMMARY_LENGTH) || '',
+    recommendations,
+    createdAt: now.toISOString(),
+    expiresAt: SHARE_TTL_DAYS > 0 ? new Date(now.getTime() + SHARE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString() : null,
+  };
+
+  try {
+    fs.mkdirSync(SHARED_SETS_DIR, { recursive: true });
+    fs.writeFileSync(setFile(set.id), JSON.stringify(set, null, 2));
+  } catch (error) {
+    console.warn('Could not save shared set to disk, keeping it in memory:', error);
+    setsInMemory.set(set.id, set);
+  }
+  pruneExpiredSets();
+  return set;
+}
+
+/**
+ * Loads a shared set; null when it does not exist or has expired
+ */
+export function getSharedSet(id: string): SharedRecommendationSet | null {
+  if (!isShareId(id)) return null;
+
+  let set = setsInMemory.get(id) || null;
+  if (!set && fs.existsSync(setFile(id))) {
+    try {
+      set = JSON.parse(fs.readFileSync(setFile(id), 'utf-8')) as SharedRecommendationSet;
+    } catch (error) {
+      console.warn(`Failed to load shared set ${id}:`, error);
+      return null;
+    }
+  }
+  if (!set) return null;
+
+  if (isExpired(set)) {
+    setsInMemory.delete(id);
+    try {
+      fs.rmSync(setFile(id), { force: true });
+    } catch (error) {
+      console.warn(`Could not delete expired shared set ${id}:`, error);
+    }
+    return null;
+  }
+  return set;
+}
@@ -0,0 +1,324 @@
+import { CreditCard } from '@/types';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadAliasMap } from './cardIds';
+
+const SNAPSHOTS_DIR = path.join(process.cwd(), 'data', 'snapshots');
+const SNAPSHOTS_INDEX = path.join(SNAPSHOTS_DIR, 'index.json');
+const SNAPSHOT_LIMIT = parseInt(process.env.CATALOG_SNAPSHOT_LIMIT || '50', 10);
+
+/**
+ * Metadata for a stored catalog version
+ */
+export interface SnapshotInfo {
+  version: number;
+  hash: string;
+  createdAt: string;
+  source: string;
+  cardCount: number;
+}
+
+/**
+ * A full catalog version
+ */
+export interface CatalogSnapshot extends SnapshotInfo {
+  cards: CreditCard[];
+}
+
+/**
+ * A single field that differs between two versions of a card
+ */
+export interface FieldChange {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+/**
+ * Cards added, removed and changed between two catalog versions
+ */
+export interface CatalogDiff {
+  fromVersion: number | null;
+  toVersion: number | null;
+  fromHash: string | null;
+  toHash: string;
+  added: Array<{ id: string; credit_card_name: string }>;
+  removed: Array<{ id: string; credit_card_name: string }>;
+  changed: Array<{ id: string; previousId?: string; credit_card_name: string; fields: FieldChange[] }>;
+}
+
+/**
+ * Called when a fetch produces a catalog whose hash differs from the latest snapshot
+ */
+export type CatalogChangeListener = (diff: CatalogDiff, snapshot: CatalogSnapshot) => void | Promise<void>;
+
+/**
+ * In-memory snapshot history, used as-is when the filesystem is read-only
+ */
+let snapshotIndex: SnapshotInfo[] | null = null;
+const snapshotsInMemory = new Map<number, CatalogSnapshot>();
+const changeListeners: CatalogChangeListener[] = [];
+
+/**
+ * Serializes a value with sorted object keys so equal catalogs hash equally
+ */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Computes the content hash of a single card
+ */
+export function hashCard(card: CreditCard): string {
+  return createHash('sha256').update(canonicalJSON(card)).digest('hex');
+}
+
+/**
+ * Computes the content hash of a catalog, independent of row order
+ */
+export function hashCatalog(cards: CreditCard[]): string {
+  const sorted = [...cards].sort((a, b) => a.id.localeCompare(b.id));
+  return createHash('sha256').update(canonicalJSON(sorted)).digest('hex');
+}
+
+function snapshotFile(version: number): string {
+  return path.join(SNAPSHOTS_DIR, `v${version}.json`);
+}
+
+/**
+ * Loads the snapshot index from disk
+ */
+function loadIndex(): SnapshotInfo[] {
+  if (snapshotIndex) {
+    return snapshotIndex;
+  }
+
+  snapshotIndex = [];
+  if (fs.existsSync(SNAPSHOTS_INDEX)) {
+    try {
+      snapshotIndex = JSON.parse(fs.readFileSync(SNAPSHOTS_INDEX, 'utf-8')) as SnapshotInfo[];
+    } catch (error) {
+      console.warn('Failed to load catalog snapshot index:', error);
+    }
+  }
+  return snapshotIndex;
+}
+
+/**
+ * Lists stored catalog versions, oldest first
+ */
+export function listSnapshots(): SnapshotInfo[] {
+  return [...loadIndex()];
+}
+
+/**
+ * Loads a catalog version, or null if it is not stored
+ */
+export function getSnapshot(version: number): CatalogSnapshot | null {
+  const inMemory = snapshotsInMemory.get(version);
+  if (inMemory) {
+    return inMemory;
+  }
+
+  const file = snapshotFile(version);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(file, 'utf-8')) as CatalogSnapshot;
+    snapshotsInMemory.set(version, snapshot);
+    return snapshot;
+  } catch (error) {
+    console.warn(`Failed to load catalog snapshot v${version}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Returns the most recent catalog version, or null if none is stored
+ */
+export function getLatestSnapshot(): CatalogSnapshot | null {
+  const index = loadIndex();
+  return index.length > 0 ? getSnapshot(index[index.length - 1].version) : null;
+}
+
+/**
+ * Registers a listener for real catalog changes
+ * Returns a function that removes the listener
+ */
+export function onCatalogChange(listener: CatalogChangeListener): () => void {
+  changeListeners.push(listener);
+  return () => {
+    const index = changeListeners.indexOf(listener);
+    if (index >= 0) changeListeners.splice(index, 1);
+  };
+}
+
+/**
+ * Compares two catalogs card by card
+ * A removed id that the alias map points at an added id is reported as a change, not a remove/add pair
+ */
+export function diffCatalogs(
+  before: CreditCard[],
+  after: CreditCard[],
+  versions: { fromVersion?: number | null; toVersion?: number | null } = {}
+): CatalogDiff {
+  const beforeById = new Map(before.map(card => [card.id, card]));
+  const afterById = new Map(after.map(card => [card.id, card]));
+  const { aliases } = loadAliasMap();
+
+  const added = after.filter(card => !beforeById.has(card.id));
+  const removed = before.filter(card => !afterById.has(card.id));
+  const changed: CatalogDiff['changed'] = [];
+
+  const pairs: Array<[CreditCard, CreditCard]> = after
+    .filter(card => beforeById.has(card.id))
+    .map(card => [beforeById.get(card.id)!, card]);
+
+  // Match renames so they show up as field changes
+  for (const oldCard of [...removed]) {
+    const renamedTo = aliases[oldCard.id];
+    const newCard = renamedTo ? added.find(card => card.id === renamedTo) : undefined;
+    if (newCard) {
+      pairs.push([oldCard, newCard]);
+      removed.splice(removed.indexOf(oldCard), 1);
+      added.splice(added.indexOf(newCard), 1);
+    }
+  }
+
+  for (const [oldCard, newCard] of pairs) {
+    if (hashCard(oldCard) === hashCard(newCard)) continue;
+
+    const fields: FieldChange[] = [];
+    const keys = new Set([...Object.keys(oldCard), ...Object.keys(newCard)]);
+    for (const field of Array.from(keys).sort()) {
+      const beforeValue = oldCard[field] ?? null;
+      const afterValue = newCard[field] ?? null;
+      if (String(beforeValue ?? '') !== String(afterValue ?? '')) {
+        fields.push({ field, before: beforeValue, after: afterValue });
+      }
+    }
+
+    if (fields.length > 0) {
+      changed.push({
+        id: newCard.id,
+        ...(oldCard.id !== newCard.id ? { previousId: oldCard.id } : {}),
+        credit_card_name: newCard.credit_card_name,
+        fields,
+      });
+    }
+  }
+
+  const summarize = (card: CreditCard) => ({ id: card.id, credit_card_name: card.credit_card_name });
+
+  return {
+    fromVersion: versions.fromVersion ?? null,
+    toVersion: versions.toVersion ?? null,
+    fromHash: before.length > 0 ? hashCatalog(before) : null,
+    toHash: hashCatalog(after),
+    added: added.map(summarize),
+    removed: removed.map(summarize),
+    changed,
+  };
+}
+
+/**
+ * Diffs two stored versions; defaults to the previous and latest versions
+ */
+export function diffSnapshots(fromVersion?: number, toVersion?: number): CatalogDiff {
+  const index = loadIndex();
+  if (index.length === 0) {
+    throw new Error('No catalog snapshots have been recorded yet');
+  }
+
+  const to = getSnapshot(toVersion ?? index[index.length - 1].version);
+  if (!to) {
+    throw new Error(`Catalog snapshot v${toVersion} not found`);
+  }
+
+  const previous = index.filter(info => info.version < to.version);
+  const fromNumber = fromVersion ?? (previous.length > 0 ? previous[previous.length - 1].version : undefined);
+  const from = fromNumber !== undefined ? getSnapshot(fromNumber) : null;
+  if (fromNumber !== undefined && !from) {
+    throw new Error(`Catalog snapshot v${fromNumber} not found`);
+  }
+
+  return diffCatalogs(from?.cards || [], to.cards, {
+    fromVersion: from?.version ?? null,
+    toVersion: to.version,
+  });
+}
+
+/**
+ * Stores the catalog as a new version if its content hash changed
+ * Notifies change listeners with the diff against the previous version
+ */
+export async function recordSnapshot(cards: CreditCard[], source: string): Promise<CatalogSnapshot> {
+  const hash = hashCatalog(cards);
+  const latest = getLatestSnapshot();
+
+  if (latest && latest.hash === hash) {
+    return latest;
+  }
+
+  const index = loadIndex();
+  const info: SnapshotInfo = {
+    version: latest ? latest.version + 1 : 1,
+    hash,
+    createdAt: new Date().toISOString(),
+    source,
+    cardCount: cards.length,
+  };
+  const snapshot: CatalogSnapshot = { ...info, cards };
+
+  index.push(info);
+  snapshotsInMemory.set(snapshot.version, snapshot);
+
+  // Prune the oldest versions beyond the retention limit
+  const pruned = index.splice(0, Math.max(0, index.length - SNAPSHOT_LIMIT));
+  for (const old of pruned) {
+    snapshotsInMemory.delete(old.version);
+  }
+
+  try {
+    if (!fs.existsSync(SNAPSHOTS_DIR)) {
+      fs.mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+    }
+    fs.writeFileSync(snapshotFile(snapshot.version), JSON.stringify(snapshot, null, 2));
+    fs.writeFileSync(SNAPSHOTS_INDEX, JSON.stringify(index, null, 2));
+    for (const old of pruned) {
+      if (fs.existsSync(snapshotFile(old.version))) {
+        fs.unlinkSync(snapshotFile(old.version));
+      }
+    }
+    console.log(`Saved catalog snapshot v${snapshot.version} (${hash.slice(0, 12)})`);
+  } catch (error) {
+    console.warn('Could not save catalog snapshot to disk:', error);
+  }
+
+  const diff = diffCatalogs(latest?.cards || [], cards, {
+    fromVersion: latest?.version ?? null,
+    toVersion: snapshot.version,
+  });
+
+  for (const listener of changeListeners) {
+    try {
+      await listener(diff, snapshot);
+    } catch (error) {
+      console.error('Catalog change listener failed:', error);
+    }
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,74 @@
+/**
+ * Helpers for streaming model output to the client as it is generated
+ */
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+export interface JsonFieldReader {
+  push(chunk: string): void;
+}
+
+/**
+ * Reads one string field out of a JSON object that arrives in chunks, decoding escapes as it goes
+ * `onDelta` receives each newly decoded piece of the value; text after the closing quote is ignored
+ */
+export function createJsonStringFieldReader(field: string, onDelta: (text: string) => void): JsonFieldReader {
+  const opening = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = '';
+  let position = 0;
+  let state: 'seeking' | 'reading' | 'done' = 'seeking';
+
+  return {
+    push(chunk: string) {
+      if (state === 'done') return;
+      buffer += chunk;
+
+      if (state === 'seeking') {
+        const match = opening.exec(buffer);
+        if (!match) return;
+        position = match.index + match[0].length;
+        state = 'reading';
+      }
+
+      let decoded = '';
+      while (position < buffer.length) {
+        const char = buffer[position];
+
+        if (char === '"') {
+          state = 'done';
+          break;
+        }
+
+        if (char !== '\\') {
+          decoded += char;
+          position++;
+          continue;
+        }
+
+        // Wait for the rest of an escape sequence split across chunks
+        const next = buffer[position + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = buffer.slice(position + 2, position + 6);
+          if (hex.length < 4) break;
+          decoded += String.fromCharCode(parseInt(hex, 16));
+          position += 6;
+        } else {
+          decoded += SIMPLE_ESCAPES[next] ?? next;
+          position += 2;
+        }
+      }
+
+      if (decoded) onDelta(decoded);
+    },
+  };
+}
@@ -0,0 +1,212 @@
+import { CardRecord } from '@/types';
+import { CardRow } from './cardSources';
+import { parseRowsToCards, PRIORITY_FIELDS, SkippedRow } from './data';
+
+export type CatalogIssueSeverity = 'error' | 'warning';
+
+export type CatalogIssueCode =
+  | 'skipped_row'
+  | 'duplicate_id'
+  | 'malformed_url'
+  | 'empty_priority_field'
+  | 'inconsistent_format'
+  | 'unparsed_field';
+
+/**
+ * A single problem found in the card catalog
+ */
+export interface CatalogIssue {
+  severity: CatalogIssueSeverity;
+  code: CatalogIssueCode;
+  message: string;
+  rowNumber?: number;
+  cardId?: string;
+  cardName?: string;
+  field?: string;
+  value?: string;
+}
+
+/**
+ * Structured result of validating a catalog
+ */
+export interface CatalogReport {
+  source: string;
+  generatedAt: string;
+  totalRows: number;
+  validCards: number;
+  skippedRows: SkippedRow[];
+  issues: CatalogIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Formats a value can be written in, used to spot columns that mix styles
+ */
+type FieldFormat = string;
+
+/**
+ * Classifies how an annual fee is written ("$95", "95", "None", "$0 first year, then $95")
+ */
+function classifyFeeFormat(value: string): FieldFormat {
+  const trimmed = value.trim();
+  if (/^\$\d[\d,]*(\.\d+)?$/.test(trimmed)) return 'dollar amount ($95)';
+  if (/^\d[\d,]*(\.\d+)?$/.test(trimmed)) return 'bare number (95)';
+  if (/\d/.test(trimmed)) return 'amount with text';
+  return 'text only';
+}
+
+/**
+ * Classifies how a credit score requirement is written ("690+", "Good", "Good (690+)")
+ */
+function classifyScoreFormat(value: string): FieldFormat {
+  const hasNumber = /\b[3-8]\d{2}\b/.test(value);
+  const hasTier = /excellent|good|fair|poor|bad|limited|no credit/i.test(value);
+  if (hasNumber && hasTier) return 'tier with score';
+  if (hasNumber) return 'score only';
+  if (hasTier) return 'tier only';
+  return 'unrecognised';
+}
+
+/**
+ * Flags rows whose format differs from the catalog's dominant format for a field
+ */
+function checkConsistentFormat(
+  records: CardRecord[],
+  field: string,
+  classify: (value: string) => FieldFormat
+): CatalogIssue[] {
+  const formats = new Map<FieldFormat, CardRecord[]>();
+
+  for (const record of records) {
+    const value = record.raw[field];
+    if (!value || !value.trim()) continue;
+    const format = classify(value);
+    formats.set(format, [...(formats.get(format) || []), record]);
+  }
+
+  if (formats.size <= 1) {
+    return [];
+  }
+
+  const [dominant] = Array.from(formats.entries()).sort((a, b) => b[1].length - a[1].length)[0];
+  const issues: CatalogIssue[] = [];
+
+  formats.forEach((formatRecords, format) => {
+    if (format === dominant) return;
+    for (const record of formatRecords) {
+      issues.push({
+        severity: 'warning',
+        code: 'inconsistent_format',
+        message: `${field} is written as "${format}" but most cards use "${dominant}"`,
+        cardId: record.card.id,
+        cardName: record.card.credit_card_name,
+        field,
+        value: record.raw[field],
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Returns true for absolute http(s) URLs
+ */
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value.trim());
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates catalog rows and returns a structured report
+ * Errors block publishing; warnings are data quality problems worth fixing
+ */
+export function validateCatalog(rows: CardRow[], sourceName = 'unknown'): CatalogReport {
+  const { records, skippedRows, collisions } = parseRowsToCards(rows);
+  const issues: CatalogIssue[] = [];
+
+  for (const skipped of skippedRows) {
+    issues.push({
+      severity: 'error',
+      code: 'skipped_row',
+      message: skipped.reason === 'missing_name'
+        ? 'Row has no card name and will be skipped'
+        : 'Row has no application URL and will be skipped',
+      rowNumber: skipped.rowNumber,
+      cardName: skipped.cardName,
+    });
+  }
+
+  // Parsing renames colliding ids, but the sheet still needs a unique id per card
+  for (const collision of collisions) {
+    issues.push({
+      severity: 'error',
+      code: 'duplicate_id',
+      message: `${collision.cardNames.length} cards share the ${collision.explicit ? 'id' : 'name-derived id'} "${collision.id}": ${collision.cardNames.join(', ')}. Give each card a unique ${collision.explicit ? 'id' : 'name or an explicit id'}.`,
+      rowNumber: collision.rowNumbers[1],
+      cardId: collision.id,
+    });
+  }
+
+  for (const record of records) {
+    const { card } = record;
+
+    if (!isValidUrl(String(card.url_application))) {
+      issues.push({
+        severity: 'error',
+        code: 'malformed_url',
+        message: 'Application URL is not a valid http(s) URL',
+        cardId: card.id,
+        cardName: card.credit_card_name,
+        field: 'url_application',
+        value: String(card.url_application),
+      });
+    }
+
+    for (const field of PRIORITY_FIELDS) {
+      if (!record.raw[field] || !record.raw[field].trim()) {
+        issues.push({
+          severity: 'warning',
+          code: 'empty_priority_field',
+          message: `${field} is empty, so it will not be used for search`,
+          cardId: card.id,
+          cardName: card.credit_card_name,
+          field,
+        });
+      }
+    }
+
+    for (const parseError of record.parseErrors) {
+      issues.push({
+        severity: 'warning',
+        code: 'unparsed_field',
+        message: parseError.reason,
+        cardId: card.id,
+        cardName: card.credit_card_name,
+        field: parseError.field,
+        value: parseError.value,
+      });
+    }
+  }
+
+  issues.push(...checkConsistentFormat(records, 'annual_fee', classifyFeeFormat));
+  issues.push(...checkConsistentFormat(records, 'credit_score_needed', classifyScoreFormat));
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  return {
+    source: sourceName,
+    generatedAt: new Date().toISOString(),
+    totalRows: rows.length,
+    validCards: records.length,
+    skippedRows,
+    issues,
+    errorCount,
+    warningCount: issues.length - errorCount,
+  };
+}
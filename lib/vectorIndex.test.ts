@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createVectorIndex, normalizeVector } from './vectorIndex';
+
+const DIMENSIONS = 16;
+const SIZE = 300;
+
+/**
+ * Seeded unit vectors, so the fixture is the same on every run
+ */
+function randomVectors(count: number, seed: number): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => normalizeVector(Array.from({ length: DIMENSIONS }, next)));
+}
+
+function packed(vectors: Float32Array[]): Float32Array {
+  const matrix = new Float32Array(vectors.length * DIMENSIONS);
+  vectors.forEach((vector, i) => matrix.set(vector, i * DIMENSIONS));
+  return matrix;
+}
+
+const matrix = packed(randomVectors(SIZE, 7));
+const queries = randomVectors(20, 11);
+const flat = createVectorIndex('flat', matrix, DIMENSIONS);
+const hnsw = createVectorIndex('hnsw', matrix, DIMENSIONS, { seed: 1 });
+
+describe('vector index', () => {
+  it('returns the flat top-k from HNSW on a small fixture', () => {
+    for (const query of queries) {
+      assert.deepEqual(
+        hnsw.search(query, 10).map(result => result.index),
+        flat.search(query, 10).map(result => result.index)
+      );
+    }
+  });
+
+  it('orders results by descending score', () => {
+    const scores = flat.search(queries[0], 10).map(result => result.score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+  });
+
+  for (const index of [flat, hnsw]) {
+    it(`skips vectors rejected by accept (${index.type})`, () => {
+      const even = (row: number) => row % 2 === 0;
+      for (const query of queries) {
+        const results = index.search(query, 10, even);
+        assert.equal(results.length, 10);
+        assert.ok(results.every(result => even(result.index)));
+        assert.deepEqual(
+          results.map(result => result.index),
+          flat.search(query, 10, even).map(result => result.index)
+        );
+      }
+    });
+  }
+
+  it('rejects a query with the wrong dimensions', () => {
+    assert.throws(() => flat.search(new Float32Array(DIMENSIONS + 1), 5));
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Vector search over pre-normalized Float32Array vectors
+ * Vectors are unit length, so the dot product equals cosine similarity
+ */
+
+export type VectorIndexType = 'flat' | 'hnsw';
+
+/**
+ * A scored search hit; `index` is the vector's position in the store
+ */
+export interface VectorSearchResult {
+  index: number;
+  score: number;
+}
+
+/**
+ * Common interface for exact and approximate indexes
+ */
+export interface VectorIndex {
+  type: VectorIndexType;
+  size: number;
+  dimensions: number;
+  search(query: Float32Array, topN: number, accept?: (index: number) => boolean): VectorSearchResult[];
+}
+
+export interface HnswOptions {
+  m?: number; // Max neighbors per node on upper layers (layer 0 allows 2m)
+  efConstruction?: number; // Candidate list size while building
+  efSearch?: number; // Candidate list size while querying
+  seed?: number; // Seed for level assignment so builds are reproducible
+}
+
+/**
+ * Scales a vector to unit length
+ */
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < normalized.length; i++) {
+    norm += normalized[i] * normalized[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < normalized.length; i++) {
+      normalized[i] /= norm;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Dot product of a query with the vector stored at `offset` in a packed matrix
+ */
+function dotAt(query: Float32Array, matrix: Float32Array, offset: number, dimensions: number): number {
+  let sum = 0;
+  for (let i = 0; i < dimensions; i++) {
+    sum += query[i] * matrix[offset + i];
+  }
+  return sum;
+}
+
+/**
+ * Inserts a result into a list kept sorted by descending score
+ */
+function insertSorted(list: VectorSearchResult[], item: VectorSearchResult): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].score > item.score) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, item);
+}
+
+/**
+ * Exact search: scores every vector with a dot product
+ */
+export function createFlatIndex(matrix: Float32Array, dimensions: number): VectorIndex {
+  const size = dimensions > 0 ? matrix.length / dimensions : 0;
+
+  return {
+    type: 'flat',
+    size,
+    dimensions,
+    search(query: Float32Array, topN: number, accept?: (index: number) => boolean) {
+      if (query.length !== dimensions) {
+        throw new Error('Vectors must have the same length');
+      }
+
+      const results: VectorSearchResult[] = [];
+      for (let index = 0; index < size; index++) {
+        if (accept && !accept(index)) continue;
+        const score = dotAt(query, matrix, index * dimensions, dimensions);
+        if (results.length < topN) {
+          insertSorted(results, { index, score });
+        } else if (score > results[results.length - 1].score) {
+          results.pop();
+          insertSorted(results, { index, score });
+        }
+      }
+      return results;
+    },
+  };
+}
+
+/**
+ * Small seeded PRNG (mulberry32) for reproducible HNSW level assignment
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Approximate search with a Hierarchical Navigable Small World graph
+ * Built in memory from the packed matrix; query cost grows roughly logarithmically with size
+ */
+export function createHnswIndex(matrix: Float32Array, dimensions: number, options: HnswOptions = {}): VectorIndex {
+  const m = options.m ?? 16;
+  const maxLayer0 = m * 2;
+  const efConstruction = options.efConstruction ?? 100;
+  const efSearch = options.efSearch ?? 64;
+  const random = createRandom(options.seed ?? 42);
+  const levelMultiplier = 1 / Math.log(m);
+  const size = dimensions > 0 ? matrix.length / dimensions : 0;
+
+  // neighbors[node][layer] lists node ids linked on that layer
+  const neighbors: number[][][] = [];
+  let entryPoint = -1;
+  let maxLevel = -1;
+
+  const vectorAt = (node: number) => matrix.subarray(node * dimensions, (node + 1) * dimensions);
+
+  const searchLayer = (
+    query: Float32Array,
+    entryPoints: number[],
+    ef: number,
+    layer: number,
+    accept?: (index: number) => boolean
+  ): VectorSearchResult[] => {
+    const visited = new Set<number>(entryPoints);
+    const candidates: VectorSearchResult[] = [];
+    const results: VectorSearchResult[] = [];
+
+    // Rejected nodes are still traversed so the graph stays connected; they just never become results
+    for (const node of entryPoints) {
+      const item = { index: node, score: dotAt(query, matrix, node * dimensions, dimensions) };
+      insertSorted(candidates, item);
+      if (!accept || accept(node)) insertSorted(results, item);
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.score < results[results.length - 1].score) {
+        break;
+      }
+
+      for (const neighbor of neighbors[current.index][layer] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const score = dotAt(query, matrix, neighbor * dimensions, dimensions);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          const item = { index: neighbor, score };
+          insertSorted(candidates, item);
+          if (accept && !accept(neighbor)) continue;
+          insertSorted(results, item);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  };
+
+  /**
+   * Picks up to `limit` neighbors from candidates sorted by descending score
+   * A candidate is preferred only if it is closer to the base than to every neighbor already picked,
+   * which keeps links pointing in different directions so clusters stay connected
+   */
+  const selectNeighbors = (candidates: VectorSearchResult[], limit: number): number[] => {
+    const selected: number[] = [];
+    const skipped: number[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= limit) break;
+      const candidateVector = vectorAt(candidate.index);
+      const diverse = selected.every(
+        id => dotAt(candidateVector, matrix, id * dimensions, dimensions) < candidate.score
+      );
+      if (diverse) selected.push(candidate.index);
+      else skipped.push(candidate.index);
+    }
+
+    // Fill any remaining slots with the closest skipped candidates
+    for (const id of skipped) {
+      if (selected.length >= limit) break;
+      selected.push(id);
+    }
+
+    return selected;
+  };
+
+  const link = (node: number, neighbor: number, layer: number) => {
+    const list = neighbors[neighbor][layer];
+    list.push(node);
+
+    const limit = layer === 0 ? maxLayer0 : m;
+    if (list.length > limit) {
+      const base = vectorAt(neighbor);
+      const ranked = list
+        .map(id => ({ index: id, score: dotAt(base, matrix, id * dimensions, dimensions) }))
+        .sort((a, b) => b.score - a.score);
+      neighbors[neighbor][layer] = selectNeighbors(ranked, limit);
+    }
+  };
+
+  for (let node = 0; node < size; node++) {
+    const level = Math.floor(-Math.log(1 - random()) * levelMultiplier);
+    neighbors[node] = Array.from({ length: level + 1 }, () => []);
+
+    if (entryPoint === -1) {
+      entryPoint = node;
+      maxLevel = level;
+      continue;
+    }
+
+    const query = vectorAt(node);
+    let entryPoints = [entryPoint];
+
+    for (let layer = maxLevel; layer > level; layer--) {
+      entryPoints = [searchLayer(query, entryPoints, 1, layer)[0].index];
+    }
+
+    for (let layer = Math.min(level, maxLevel); layer >= 0; layer--) {
+      const found = searchLayer(query, entryPoints, efConstruction, layer);
+      const selected = selectNeighbors(found, m);
+      neighbors[node][layer] = selected;
+      for (const neighbor of selected) {
+        link(node, neighbor, layer);
+      }
+      entryPoints = found.map(item => item.index);
+    }
+
+    if (level > maxLevel) {
+      entryPoint = node;
+      maxLevel = level;
+    }
+  }
+
+  return {
+    type: 'hnsw',
+    size,
+    dimensions,
+    search(query: Float32Array, topN: number, accept?: (index: number) => boolean) {
+      if (query.length !== dimensions) {
+        throw new Error('Vectors must have the same length');
+      }
+      if (entryPoint === -1) {
+        return [];
+      }
+
+      let entryPoints = [entryPoint];
+      for (let layer = maxLevel; layer > 0; layer--) {
+        entryPoints = [searchLayer(query, entryPoints, 1, layer)[0].index];
+      }
+
+      return searchLayer(query, entryPoints, Math.max(efSearch, topN), 0, accept).slice(0, topN);
+    },
+  };
+}
+
+/**
+ * Builds the index type selected by the caller
+ */
+export function createVectorIndex(
+  type: VectorIndexType,
+  matrix: Float32Array,
+  dimensions: number,
+  options?: HnswOptions
+): VectorIndex {
+  return type === 'hnsw'
+    ? createHnswIndex(matrix, dimensions, options)
+    : createFlatIndex(matrix, dimensions);
+}
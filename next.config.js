@@ -1,7 +1,14 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Native module used by the SQLite card source; keep it out of the server bundle
+    serverComponentsExternalPackages: ['better-sqlite3'],
+    // Prompt templates are read from disk at runtime, so file tracing cannot see them
+    outputFileTracingIncludes: {
+      '/api/**/*': ['./prompts/**/*'],
+    },
+  },
 }
 
 module.exports = nextConfig
-
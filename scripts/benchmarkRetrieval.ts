@@ -0,0 +1,115 @@
+/**
+ * Benchmark for card retrieval
+ * Compares cold-start loading (pretty JSON vs packed binary) and query latency for
+ * brute-force cosine over number[], the flat dot-product index and the HNSW index
+ * on a synthetic clustered catalog
+ *
+ * Run with: npm run benchmark-retrieval [-- --cards 2000 --dims 256 --queries 200]
+ */
+
+import { performance } from 'perf_hooks';
+import { createFlatIndex, createHnswIndex, normalizeVector } from '../lib/vectorIndex';
+
+function argValue(flag: string, fallback: number): number {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? parseInt(process.argv[index + 1], 10) : fallback;
+}
+
+/**
+ * Gaussian noise via Box-Muller, from a seeded generator so runs are comparable
+ */
+function createGaussian(seed: number): () => number {
+  let state = seed >>> 0;
+  const uniform = () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return (state + 1) / 4294967297;
+  };
+  return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+/**
+ * Vectors grouped around a few centers, like cards clustered by category
+ */
+function syntheticVectors(count: number, dimensions: number, gaussian: () => number): number[][] {
+  const centers = Array.from({ length: 24 }, () => Array.from({ length: dimensions }, gaussian));
+  return Array.from({ length: count }, (_, i) => {
+    const center = centers[i % centers.length];
+    return center.map(value => value + gaussian() * 0.6);
+  });
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = fn();
+  return { result, ms: performance.now() - start };
+}
+
+function main() {
+  const cardCount = argValue('--cards', 2000);
+  const dimensions = argValue('--dims', 256);
+  const queryCount = argValue('--queries', 200);
+  const topN = argValue('--top', 10);
+  const gaussian = createGaussian(7);
+
+  console.log(`Benchmarking ${cardCount} cards x ${dimensions} dims, ${queryCount} queries, top ${topN}\n`);
+
+  const vectors = syntheticVectors(cardCount, dimensions, gaussian);
+  const queries = syntheticVectors(queryCount, dimensions, gaussian);
+
+  // Cold start: parse the old pretty-printed JSON store vs wrap a packed binary matrix
+  const json = JSON.stringify({ embeddings: vectors.map(embedding => ({ embedding })) }, null, 2);
+  const matrix = new Float32Array(cardCount * dimensions);
+  vectors.forEach((vector, row) => matrix.set(normalizeVector(vector), row * dimensions));
+  const binary = Buffer.from(matrix.buffer);
+
+  const jsonLoad = time(() => JSON.parse(json));
+  const binaryLoad = time(() => new Float32Array(binary.buffer.slice(binary.byteOffset, binary.byteOffset + binary.byteLength)));
+  console.log('Load');
+  console.log(`  JSON   ${(json.length / 1024 / 1024).toFixed(1)} MB  ${jsonLoad.ms.toFixed(1)} ms`);
+  console.log(`  Binary ${(binary.length / 1024 / 1024).toFixed(1)} MB  ${binaryLoad.ms.toFixed(1)} ms\n`);
+
+  // Query latency
+  const bruteForce = time(() =>
+    queries.map(query =>
+      vectors
+        .map((vector, index) => ({ index, score: cosineSimilarity(query, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topN)
+    )
+  );
+
+  const flatIndex = createFlatIndex(matrix, dimensions);
+  const normalizedQueries = queries.map(query => normalizeVector(query));
+  const flat = time(() => normalizedQueries.map(query => flatIndex.search(query, topN)));
+
+  const hnswBuild = time(() => createHnswIndex(matrix, dimensions));
+  const hnsw = time(() => normalizedQueries.map(query => hnswBuild.result.search(query, topN)));
+
+  // Recall of the approximate index against exact results
+  let hits = 0;
+  flat.result.forEach((exact, i) => {
+    const approximate = new Set(hnsw.result[i].map(result => result.index));
+    hits += exact.filter(result => approximate.has(result.index)).length;
+  });
+  const recall = hits / (queryCount * topN);
+
+  const perQuery = (ms: number) => `${(ms / queryCount).toFixed(3)} ms/query`;
+  console.log('Query');
+  console.log(`  Brute-force cosine (number[]) ${perQuery(bruteForce.ms)}`);
+  console.log(`  Flat dot product (Float32)    ${perQuery(flat.ms)}`);
+  console.log(`  HNSW                          ${perQuery(hnsw.ms)}  (build ${hnswBuild.ms.toFixed(0)} ms, recall@${topN} ${(recall * 100).toFixed(1)}%)`);
+}
+
+main();
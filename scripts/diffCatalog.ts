@@ -0,0 +1,51 @@
+/**
+ * Script to show what changed in the card catalog
+ * Fetches the current catalog (recording a new snapshot if it changed) and prints
+ * the diff against the previous version as JSON
+ *
+ * Run with: npm run diff-catalog
+ *   --from <version> --to <version>   Diff two stored versions without fetching
+ */
+
+// Load environment variables from .env.local
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// quiet keeps dotenv's banner out of the JSON on stdout
+dotenv.config({ path: path.join(process.cwd(), '.env.local'), quiet: true });
+
+import { getCardRecords } from '../lib/data';
+import { diffSnapshots } from '../lib/snapshots';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flagValue = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? parseInt(args[index + 1], 10) : undefined;
+  };
+
+  try {
+    const from = flagValue('--from');
+    const to = flagValue('--to');
+
+    if (from === undefined && to === undefined) {
+      // Send catalog loading logs to stderr so stdout stays valid JSON
+      const log = console.log;
+      console.log = console.error;
+      try {
+        await getCardRecords(true);
+      } finally {
+        console.log = log;
+      }
+    }
+
+    console.log(JSON.stringify(diffSnapshots(from, to), null, 2));
+  } catch (error) {
+    console.error(JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    }, null, 2));
+    process.exit(1);
+  }
+}
+
+main();
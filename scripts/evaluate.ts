@@ -0,0 +1,129 @@
+/**
+ * Offline evaluation of the recommendation pipeline
+ * Sends every golden query through generateRecommendations with recorded or mock model replies,
+ * prints intent accuracy, retrieval recall@k, card validity and latency, and compares them with a baseline
+ *
+ * Run with: npm run eval
+ *   --dataset <path>     Golden dataset (default data/eval/golden.json)
+ *   --baseline <path>    Baseline to compare with (default data/eval/baseline.json)
+ *   --save-baseline      Write this run as the new baseline
+ *   --k <n>              Retrieval depth for recall (default TOP_N_CARDS or 8)
+ *   --live               Use the configured chat provider instead of mock replies
+ *   --replay             Answer model calls from OpenAI recordings, with no key or network
+ *   --record             Call the OpenAI API and save its replies as the recordings (needs OPENAI_API_KEY)
+ *   --recordings <dir>   Recordings directory (default data/eval/recordings)
+ *   --only <id,id>       Run only these cases
+ *   --verbose            Keep the pipeline's logs
+ */
+
+// Load environment variables from .env.local
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+
+dotenv.config({ path: path.join(process.cwd(), '.env.local'), quiet: true });
+
+import type { EvalCase, EvalMode, EvalReport } from '../lib/evaluation';
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+const signedPercent = (value: number | null) => (value === null ? 'n/a' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`);
+
+async function main() {
+  const args = process.argv.slice(2);
+  const datasetPath = path.resolve(flagValue(args, '--dataset') || 'data/eval/golden.json');
+  const baselinePath = path.resolve(flagValue(args, '--baseline') || 'data/eval/baseline.json');
+  const k = parseInt(flagValue(args, '--k') || process.env.TOP_N_CARDS || '8', 10);
+  const only = flagValue(args, '--only')?.split(',');
+  const record = args.includes('--record');
+  const mode: EvalMode = args.includes('--replay') ? 'replay' : record || args.includes('--live') ? 'live' : 'mock';
+
+  // Recordings are keyed on the exact requests, so both sides run the OpenAI provider over the fixture
+  // catalog with local embeddings; the transport reads these when the pipeline modules load
+  if (mode === 'replay' || record) {
+    process.env.OPENAI_TRANSPORT = record ? 'record' : 'replay';
+    process.env.OPENAI_FIXTURES_DIR = path.resolve(flagValue(args, '--recordings') || 'data/eval/recordings');
+    process.env.CHAT_PROVIDER = 'openai';
+    process.env.CARD_SOURCE = 'csv';
+    process.env.CARD_SOURCE_PATH = '';
+    process.env.EMBEDDING_PROVIDER = 'local';
+  }
+  const { compareWithBaseline, runEvaluation } = await import('../lib/evaluation');
+
+  let cases: EvalCase[] = JSON.parse(fs.readFileSync(datasetPath, 'utf-8'));
+  if (only) cases = cases.filter(evalCase => only.includes(evalCase.id));
+
+  // The pipeline logs every step; keep the report readable unless asked
+  const log = console.log;
+  const warn = console.warn;
+  if (!args.includes('--verbose')) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  let report: EvalReport;
+  try {
+    report = await runEvaluation(cases, { k, mode });
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+
+  const { summary } = report;
+  console.log(`Evaluated ${summary.cases} cases (${summary.mode} replies)\n`);
+  for (const result of report.results) {
+    const marks = [
+      result.intentCorrect ? 'intent ok' : `intent ${result.intent ?? 'none'}`,
+      result.recall === null ? null : `recall ${percent(result.recall)}`,
+      result.validity === null ? null : `valid ${percent(result.validity)}`,
+      `${result.latencyMs.toFixed(0)} ms`,
+      result.error ? `error: ${result.error}` : null,
+    ].filter(Boolean);
+    console.log(`  ${result.id.padEnd(32)} ${marks.join('  ')}`);
+  }
+
+  console.log('\nSummary');
+  console.log(`  Intent accuracy   ${percent(summary.intentAccuracy)}`);
+  console.log(`  Recall@${summary.k}`.padEnd(20) + percent(summary.recallAtK));
+  console.log(`  Card validity     ${percent(summary.cardValidityRate)}`);
+  console.log(`  Latency           ${summary.latency.meanMs.toFixed(0)} ms mean, ${summary.latency.p50Ms.toFixed(0)} ms p50, ${summary.latency.p95Ms.toFixed(0)} ms p95`);
+
+  if (args.includes('--save-baseline')) {
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.writeFileSync(baselinePath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nSaved baseline to ${path.relative(process.cwd(), baselinePath)}`);
+    return;
+  }
+
+  if (!fs.existsSync(baselinePath)) {
+    console.log('\nNo baseline to compare with; run with --save-baseline to create one');
+    return;
+  }
+
+  const baseline: EvalReport = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+  if (baseline.summary.mode !== summary.mode || baseline.summary.k !== summary.k) {
+    console.log(`\nNote: the baseline used ${baseline.summary.mode} replies and k=${baseline.summary.k}`);
+  }
+
+  const comparison = compareWithBaseline(report, baseline);
+  console.log('\nAgainst baseline');
+  console.log(`  Intent accuracy   ${signedPercent(comparison.deltas.intentAccuracy)}`);
+  console.log(`  Recall@${summary.k}`.padEnd(20) + signedPercent(comparison.deltas.recallAtK));
+  console.log(`  Card validity     ${signedPercent(comparison.deltas.cardValidityRate)}`);
+  console.log(`  Mean latency      ${comparison.deltas.meanLatencyMs >= 0 ? '+' : ''}${comparison.deltas.meanLatencyMs.toFixed(0)} ms`);
+  comparison.improvements.forEach(line => console.log(`  better  ${line}`));
+  comparison.regressions.forEach(line => console.log(`  worse   ${line}`));
+
+  if (comparison.regressions.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(2);
+});
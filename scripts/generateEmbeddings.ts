@@ -1,6 +1,7 @@
 /**
  * Script to generate and save embeddings for all credit cards
- * Run with: npm run generate-embeddings
+ * Only new or changed cards are embedded unless --full is passed
+ * Run with: npm run generate-embeddings [-- --full]
  */
 
 // Load environment variables from .env.local
@@ -14,7 +15,8 @@ import { generateEmbeddings } from '../lib/embeddings';
 async function main() {
   try {
     console.log('Starting embeddings generation...');
-    const store = await generateEmbeddings();
+    const full = process.argv.includes('--full');
+    const store = await generateEmbeddings(full);
     console.log(`✅ Successfully generated embeddings for ${store.embeddings.length} cards`);
     console.log(`Generated at: ${store.generatedAt}`);
   } catch (error) {
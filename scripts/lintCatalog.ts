@@ -0,0 +1,69 @@
+/**
+ * Script to validate the card catalog before publishing a sheet change
+ * Prints a JSON report and exits nonzero if the catalog has errors
+ *
+ * Run with: npm run lint-catalog
+ *   --csv <path> | --json <path> | --sqlite <path>   Validate a file instead of the configured source
+ *   --fail-on-warnings                               Also exit nonzero when there are warnings
+ */
+
+// Load environment variables from .env.local
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// quiet keeps dotenv's banner out of the JSON on stdout
+dotenv.config({ path: path.join(process.cwd(), '.env.local'), quiet: true });
+
+import {
+  CardSource,
+  createCsvFileSource,
+  createJsonFileSource,
+  createSqliteSource,
+  getCardSource,
+} from '../lib/cardSources';
+import { validateCatalog } from '../lib/validation';
+
+/**
+ * Picks the source from command-line flags, falling back to CARD_SOURCE
+ */
+function sourceFromArgs(args: string[]): CardSource {
+  const flagValue = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const csvPath = flagValue('--csv');
+  if (csvPath) return createCsvFileSource(csvPath);
+
+  const jsonPath = flagValue('--json');
+  if (jsonPath) return createJsonFileSource(jsonPath);
+
+  const sqlitePath = flagValue('--sqlite');
+  if (sqlitePath) return createSqliteSource(sqlitePath);
+
+  return getCardSource();
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const failOnWarnings = args.includes('--fail-on-warnings');
+
+  try {
+    const source = sourceFromArgs(args);
+    const rows = await source.loadRows();
+    const report = validateCatalog(rows, source.name);
+
+    console.log(JSON.stringify(report, null, 2));
+
+    if (report.errorCount > 0 || (failOnWarnings && report.warningCount > 0)) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    }, null, 2));
+    process.exit(2);
+  }
+}
+
+main();
@@ -27,28 +27,22 @@ async function testSetup() {
     console.log('✅ OPENAI_API_KEY is set');
   }
 
-  // Test 2: Google Sheets access
-  console.log('\n2. Testing Google Sheets access...');
+  // Test 2: Card catalog source access
+  console.log('\n2. Testing card catalog source access...');
   try {
-    const sheetId = process.env.GOOGLE_SHEET_ID || '19ioGC8Oj8ej7QP_MG87FyMuAC3AdgGwRrEuKk5wZHZI';
-    const url = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv`;
-    const response = await fetch(url);
+    const { getCardSource } = await import('../lib/cardSources');
+    const source = getCardSource();
+    const rows = await source.loadRows();
     
-    if (!response.ok) {
-      console.error(`❌ Failed to fetch Google Sheet: ${response.status} ${response.statusText}`);
-      console.log('   Please check that the Google Sheet is public');
+    if (rows.length === 0) {
+      console.error(`❌ Card catalog (${source.name}) appears to be empty or invalid`);
+      console.log('   For Google Sheets, please check that the sheet is public');
       process.exit(1);
     }
     
-    const csvText = await response.text();
-    if (!csvText || csvText.length < 100) {
-      console.error('❌ Google Sheet appears to be empty or invalid');
-      process.exit(1);
-    }
-    
-    console.log(`✅ Successfully fetched Google Sheet (${csvText.length} bytes)`);
+    console.log(`✅ Successfully loaded ${rows.length} rows from ${source.name}`);
   } catch (error) {
-    console.error('❌ Error fetching Google Sheet:', error);
+    console.error('❌ Error loading card catalog:', error);
     process.exit(1);
   }
 
@@ -13,8 +13,9 @@ export interface CreditCard {
  */
 export interface CardEmbedding {
   cardId: string;
-  embedding: number[];
+  embedding: Float32Array; // Unit length, so a dot product gives cosine similarity
   card: CreditCard;
+  textHash: string; // Hash of the cardToText output the embedding was made from
 }
 
 /**
@@ -24,12 +25,17 @@ export interface EmbeddingsStore {
   cards: CreditCard[];
   embeddings: CardEmbedding[];
   generatedAt: string;
+  provider: string; // Embedding provider that produced the vectors (openai, local)
+  model: string; // Embedding model that produced the vectors
+  textFormatVersion: number; // cardToText format the vectors were made from
+  dimensions: number;
 }
 
 /**
  * Single recommendation from the LLM
  */
 export interface Recommendation {
+  card_id?: string; // Catalog id, sent back by "show more" so no card is repeated
   credit_card_name: string;
   apply_url: string;
   reason: string;
@@ -39,6 +45,32 @@ export interface Recommendation {
   annual_fee?: string;
   rewards_rate?: string;
   perks?: string;
+  estimated_first_year_value?: number; // Net dollars for the user's stated spending, when they gave it
+  estimated_annual_value?: number; // Net dollars per year after the first
+  explanation?: RecommendationExplanation; // How retrieval found and ranked the card
+}
+
+/**
+ * A card field that shares search terms with the query
+ */
+export interface MatchedCardField {
+  field: string;
+  terms: string[]; // Query terms found in the field, after tokenizing ("no annual fee" for phrase matches)
+}
+
+/**
+ * Why a recommended card was among the candidates, for the "Why this card?" panel and for debugging retrieval
+ */
+export interface RecommendationExplanation {
+  candidateRank: number; // 1-based position in the candidate list the model chose from
+  candidateCount: number;
+  rankedBy: 'relevance' | 'value'; // Value when stated spending re-ordered the candidates
+  similarity: number | null; // Embedding similarity to the query; null when only keyword search found the card
+  vectorRank: number | null; // Rank in the embedding list, null if absent
+  keywordRank: number | null; // Rank in the BM25 list, null if absent
+  retrievalScore: number; // Fused reciprocal-rank score
+  satisfiedConstraints: string[]; // Labels of the hard constraints the card meets
+  matchedFields: MatchedCardField[];
 }
 
 /**
@@ -49,6 +81,69 @@ export interface RecommendationsResponse {
   summary?: string; // Conversational summary of recommendations
   rawModelAnswer?: string;
   title?: string; // Short 2-5 word description of what the recommendations are for
+  appliedConstraints?: CardConstraint[]; // Hard constraints the catalog was filtered by before ranking
+  intent?: QueryIntent; // How the query was routed
+  comparison?: CardComparison; // Side-by-side attributes when intent is compare
+  monthlySpend?: MonthlySpend; // Spending the recommendations were ranked by, when the user stated it
+  userProfile?: UserProfile; // Profile after this message, for the client to send back next turn
+  conversationTurn?: number; // Index of the stored conversation turn holding this answer, when the request named a conversation
+  hasMore?: boolean; // Candidates remain beyond the cards returned, so "show more" can fetch them
+  grounding?: GroundingReport; // How the summary's fees, earn rates and bonuses held up against the catalog
+  prompts?: PromptUsage[]; // Prompt template versions used, to tie output quality to prompt changes
+  cache?: ResponseCacheHit; // Set when the response was served from the semantic response cache
+}
+
+/**
+ * Where a cached response came from
+ */
+export interface ResponseCacheHit {
+  hit: true;
+  similarity: number; // Cosine similarity between this query and the cached one
+  matchedQuery: string; // Query the cached response was generated for
+  cachedAt: string; // ISO timestamp
+}
+
+/**
+ * Pipeline step a streaming response reports before its result is ready
+ */
+export type PipelineStage = 'classifying' | 'retrieving' | 'generating' | 'finalizing';
+
+/**
+ * One line of the NDJSON stream from /api/recommendations/stream
+ * Summary text arrives as deltas of raw model output, before grounding checks it against the catalog, so it is
+ * provisional; the `result` event carries the final response, whose grounded summary replaces it
+ */
+export type RecommendationStreamEvent =
+  | { type: 'stage'; stage: PipelineStage; message: string }
+  | { type: 'summary_delta'; text: string; provisional: true }
+  | { type: 'result'; response: RecommendationsResponse }
+  | { type: 'error'; error: string };
+
+/**
+ * One attribute compared across cards; `values` follows the order of `CardComparison.cards`
+ */
+export interface ComparisonRow {
+  attribute: string; // Stable key (annual_fee, rewards, perks, ...)
+  label: string;
+  values: string[];
+  best?: number[]; // Indices of the cards that win this attribute, when it can be ranked
+}
+
+/**
+ * Attribute-by-attribute comparison of two to four cards
+ */
+export interface CardComparison {
+  cards: Array<{ id: string; credit_card_name: string; apply_url: string }>;
+  rows: ComparisonRow[];
+  unresolved: string[]; // Names from the query that did not match a catalog card
+}
+
+/**
+ * Response returned for the compare intent
+ */
+export interface ComparisonResponse extends RecommendationsResponse {
+  intent: 'compare';
+  comparison: CardComparison;
 }
 
 /**
@@ -64,7 +159,293 @@ export interface ConversationMessage {
  */
 export interface RecommendationsRequest {
   message: string;
+  conversationId?: string; // Server-side conversation; replaces conversationHistory, previousRecommendations and the stored profile
   conversationHistory?: ConversationMessage[]; // Optional conversation history
   previousRecommendations?: Recommendation[]; // Previous cards that were shown to the user
+  userProfile?: UserProfile; // Profile from earlier turns, including the user's corrections
+  count?: number; // Cards to recommend (1-10); defaults to the number asked for in the message, or 3
+  excludeCardIds?: string[]; // Cards already shown; "show more" sends these with the original message to get the next ones
+  promptVariants?: Record<string, string>; // Prompt id -> version, overriding the registry for A/B tests
+}
+
+/**
+ * A question and the answer it got, as stored in a conversation
+ */
+export interface ConversationTurn {
+  message: string;
+  response: RecommendationsResponse; // Cards added by "show more" are appended to its recommendations
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * A conversation kept on the server, so it survives a page refresh
+ */
+export interface Conversation {
+  id: string;
+  title: string; // First question until an answer gives a recommendation title
+  createdAt: string;
+  updatedAt: string;
+  userProfile: UserProfile; // Profile after the latest turn
+  turns: ConversationTurn[];
+}
+
+/**
+ * Conversation as listed by /api/conversations
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turnCount: number;
+}
+
+/**
+ * A recommendation set saved under a short id and shown read-only at /r/<id>
+ */
+export interface SharedRecommendationSet {
+  id: string;
+  query: string; // Question the cards answered
+  title: string;
+  summary: string;
+  recommendations: Recommendation[]; // Without ranking explanations, which mean nothing to the reader
+  createdAt: string; // ISO timestamp
+  expiresAt: string | null; // Null when shares do not expire
+}
+
+/**
+ * Body for POST /api/share
+ */
+export interface ShareRequest {
+  card_ids: string[]; // Catalog ids; names, fees and application links are read from the catalog
+  conversationId?: string; // Stored conversation whose turn supplies the question, title, summary and reasons
+  turn?: number; // Index of that turn, from the response's conversationTurn; required with conversationId
+}
+
+/**
+ * Where a saved set can be opened
+ */
+export interface ShareResponse {
+  id: string;
+  url: string; // Absolute when SITE_URL (or VERCEL_URL) is set, otherwise a path
+  expiresAt: string | null;
+}
+
+/**
+ * A prompt template version a response was generated with
+ */
+export interface PromptUsage {
+  id: string;
+  version: string;
+}
+
+
+/**
+ * Reward currency a card earns
+ */
+export type RewardType = 'cash_back' | 'points' | 'miles' | 'unknown';
+
+/**
+ * Credit score band a card is aimed at
+ */
+export type CreditScoreTier = 'excellent' | 'good' | 'fair' | 'poor' | 'limited' | 'unknown';
+
+/**
+ * Payment network a card runs on
+ */
+export type CardNetwork = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+/**
+ * Spending category a multiplier applies to
+ */
+export type SpendCategory =
+  | 'dining'
+  | 'groceries'
+  | 'gas'
+  | 'travel'
+  | 'flights'
+  | 'hotels'
+  | 'streaming'
+  | 'drugstores'
+  | 'transit'
+  | 'online_shopping'
+  | 'rotating'
+  | 'everything';
+
+/**
+ * Earn rate for a single spending category
+ */
+export interface CategoryMultiplier {
+  category: SpendCategory;
+  rate: number; // Points/miles per dollar, or percent back for cash back cards
+  unit: 'x' | 'percent';
+  label: string; // Source text the multiplier was parsed from
+  portalOnly: boolean; // Only earned when booked through the issuer's travel portal
+  annualSpendCap: number | null; // Yearly spend the rate applies to before dropping to the base rate
+}
+
+/**
+ * APR range in percent
+ */
+export interface AprRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Typed view of a card, parsed from the free-text sheet columns
+ */
+export interface NormalizedCard {
+  annualFee: number | null;
+  apr: AprRange | null;
+  introAprMonths: number | null;
+  minCreditScore: number | null;
+  creditScoreTier: CreditScoreTier;
+  rewardType: RewardType;
+  issuer: string | null;
+  network: CardNetwork;
+  multipliers: CategoryMultiplier[];
+}
+
+/**
+ * A sheet value that could not be parsed into its normalized form
+ */
+export interface FieldParseError {
+  field: string;
+  value: string;
+  reason: string;
 }
 
+/**
+ * A parsed card together with its normalized fields and source row
+ */
+export interface CardRecord {
+  card: CreditCard;
+  normalized: NormalizedCard;
+  raw: Record<string, string>;
+  parseErrors: FieldParseError[];
+}
+
+/**
+ * Card segment a constraint can require or exclude
+ */
+export type CardType = 'business' | 'student' | 'secured';
+
+/**
+ * A hard requirement parsed from the user's messages
+ * `exclude` constraints remove matching cards; the rest keep only matching cards
+ */
+export type CardConstraint =
+  | { kind: 'max_annual_fee'; value: number; label: string }
+  | { kind: 'credit_tier'; value: CreditScoreTier; score?: number; label: string }
+  | { kind: 'card_type'; value: CardType; exclude: boolean; label: string }
+  | { kind: 'issuer'; value: string; exclude: boolean; label: string }
+  | { kind: 'network'; value: CardNetwork; exclude: boolean; label: string }
+  | { kind: 'no_foreign_transaction_fee'; label: string }
+  | { kind: 'card_held'; value: string; label: string }; // Card id the user already has, so it is not recommended again
+
+/**
+ * What the user wants from a message, decided once before any retrieval
+ */
+export type QueryIntent = 'recommend' | 'specific_card' | 'about_previous' | 'compare' | 'general' | 'clarify';
+
+/**
+ * Result of intent classification with the entities extracted alongside it
+ */
+export interface IntentClassification {
+  intent: QueryIntent;
+  cardNames: string[]; // Card names mentioned in the message, as written
+  constraints: CardConstraint[];
+  clarifyingQuestion?: string; // Set for the clarify intent
+  source: 'rules' | 'llm' | 'fallback'; // Regex pre-check, classifier call, or default after a failed call
+  reason?: string;
+}
+
+/**
+ * Dollars spent per month in each category; `everything` holds spend no other category covers
+ */
+export type MonthlySpend = Partial<Record<Exclude<SpendCategory, 'rotating'>, number>>;
+
+/**
+ * Rewards a card earns on one category of spend over a year
+ */
+export interface CategoryValue {
+  category: SpendCategory;
+  annualSpend: number;
+  rate: number; // Earn rate applied, in `unit`; 0 when the card earns nothing
+  unit: 'x' | 'percent';
+  value: number; // Dollar value of the rewards
+}
+
+/**
+ * Deterministic estimate of what a card is worth for a spending profile, in dollars
+ */
+export interface CardValueEstimate {
+  cardId: string;
+  credit_card_name: string;
+  annualRewards: number;
+  annualFee: number;
+  firstYearFee: number;
+  introBonus: number; // 0 when the card has no bonus or the spending does not reach it
+  firstYearValue: number; // Rewards plus intro bonus minus the first-year fee
+  ongoingValue: number; // Rewards minus the annual fee
+  breakdown: CategoryValue[];
+  notes: string[]; // Assumptions behind the estimate
+}
+
+/**
+ * Yearly income band the user falls into
+ */
+export type IncomeBracket = 'under_25k' | '25k_50k' | '50k_100k' | '100k_150k' | '150k_plus';
+
+/**
+ * How often the user travels
+ */
+export type TravelFrequency = 'rarely' | 'occasionally' | 'frequently';
+
+/**
+ * Facts about the user gathered across the conversation
+ * Built up turn by turn so they survive the conversation history being trimmed; every field is optional
+ */
+export interface UserProfile {
+  creditScore?: number;
+  creditTier?: CreditScoreTier; // Described tier when no score was given
+  incomeBracket?: IncomeBracket;
+  cardsHeld?: string[]; // Card names as the user wrote them
+  travelFrequency?: TravelFrequency;
+  monthlySpend?: MonthlySpend;
+}
+
+/**
+ * What happens to summary claims that disagree with the catalog
+ * `correct` rewrites the number when the catalog gives one answer and annotates otherwise;
+ * `regenerate` first asks the model to fix the summary, then corrects what is left
+ */
+export type GroundingMode = 'off' | 'annotate' | 'correct' | 'regenerate';
+
+/**
+ * Kind of catalog fact a summary claim is checked against
+ */
+export type GroundingClaimKind = 'annual_fee' | 'multiplier' | 'intro_bonus';
+
+/**
+ * A claim in a generated summary that disagrees with the card's catalog record
+ */
+export interface GroundingIssue {
+  cardId: string;
+  credit_card_name: string;
+  kind: GroundingClaimKind;
+  claimed: string; // Claim as written in the summary
+  expected: string; // Catalog text the claim was checked against
+  resolution: 'corrected' | 'annotated' | 'regenerated';
+}
+
+/**
+ * Result of checking a summary against the catalog records of the cards it mentions
+ */
+export interface GroundingReport {
+  mode: GroundingMode;
+  checkedClaims: number;
+  issues: GroundingIssue[];
+  regenerated: boolean; // The model rewrote the summary to fix the issues
+}